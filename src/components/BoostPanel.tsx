@@ -0,0 +1,142 @@
+import { Coins, Rocket } from "lucide-react";
+import { useState } from "react";
+import {
+	BOOST_DURATIONS,
+	type BoostDurationId,
+	type BoostTarget,
+	getBoostExpiry,
+	isFeaturedActive,
+	useAuth,
+	useBoostMutation,
+} from "../hooks";
+import "./boost-panel.css";
+
+interface BoostPanelProps {
+	target: BoostTarget;
+	targetId: string;
+	isFeatured?: boolean;
+	featuredUntil?: string;
+	onClose?: () => void;
+}
+
+const formatExpiry = (date: string) =>
+	new Date(date).toLocaleString([], {
+		dateStyle: "medium",
+		timeStyle: "short",
+	});
+
+/**
+ * Spend coins to pin a listing or business at the top of its page
+ * for a limited time. Boosting a featured item extends its period.
+ */
+export default function BoostPanel({
+	target,
+	targetId,
+	isFeatured,
+	featuredUntil,
+	onClose,
+}: BoostPanelProps) {
+	const { user } = useAuth();
+	const { boost, isBoosting, boostResult, boostErrorMessage } =
+		useBoostMutation();
+	const [durationId, setDurationId] = useState<BoostDurationId>("1d");
+
+	const balance = user?.coins ?? 0;
+	const duration =
+		BOOST_DURATIONS.find((d) => d.id === durationId) || BOOST_DURATIONS[0];
+	const canAfford = balance >= duration.coins;
+	const isRunning = isFeaturedActive({
+		is_featured: isFeatured,
+		featured_until: featuredUntil,
+	});
+
+	if (boostResult) {
+		return (
+			<div className="boost-panel">
+				<p className="boost-panel__success">
+					<Rocket size={16} /> Featured until{" "}
+					{formatExpiry(boostResult.featured_until)}
+				</p>
+				{onClose && (
+					<button
+						type="button"
+						className="boost-panel__cancel"
+						onClick={onClose}
+					>
+						Close
+					</button>
+				)}
+			</div>
+		);
+	}
+
+	return (
+		<div className="boost-panel">
+			<p className="boost-panel__title">
+				<Rocket size={16} />{" "}
+				{isRunning ? "Extend the boost" : "Boost to the top"}
+			</p>
+
+			<div className="boost-panel__durations">
+				{BOOST_DURATIONS.map((option) => (
+					<label
+						key={option.id}
+						className={`boost-panel__duration ${option.id === durationId ? "selected" : ""} ${balance < option.coins ? "unaffordable" : ""}`}
+					>
+						<input
+							type="radio"
+							name={`boost-duration-${targetId}`}
+							value={option.id}
+							checked={option.id === durationId}
+							onChange={() => setDurationId(option.id)}
+						/>
+						<span>{option.label}</span>
+						<span className="boost-panel__price">
+							<Coins size={14} /> {option.coins}
+						</span>
+					</label>
+				))}
+			</div>
+
+			<p className="boost-panel__info">
+				Featured until{" "}
+				{formatExpiry(
+					getBoostExpiry(duration.days, isRunning ? featuredUntil : undefined),
+				)}
+				{" · "}
+				<span className={canAfford ? "" : "insufficient"}>
+					{canAfford
+						? `${balance - duration.coins} coins left`
+						: `${duration.coins - balance} more coins needed`}
+				</span>
+			</p>
+
+			{boostErrorMessage && (
+				<p className="boost-panel__error">{boostErrorMessage}</p>
+			)}
+
+			<div className="boost-panel__actions">
+				{onClose && (
+					<button
+						type="button"
+						className="boost-panel__cancel"
+						onClick={onClose}
+						disabled={isBoosting}
+					>
+						Cancel
+					</button>
+				)}
+				<button
+					type="button"
+					className="boost-panel__submit"
+					onClick={() =>
+						user && boost({ userId: user.id, target, targetId, durationId })
+					}
+					disabled={!user || !canAfford || isBoosting}
+				>
+					{isBoosting ? "Boosting..." : `Boost for ${duration.coins} coins`}
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,261 @@
+import { ArrowLeft, Check, Coins, Send } from "lucide-react";
+import { useState } from "react";
+import {
+	COIN_TRANSFER_ERRORS,
+	COIN_TRANSFER_NOTE_MAX_LENGTH,
+	useAuth,
+	useCoinTransferMutation,
+	useProfiles,
+	validateCoinTransfer,
+} from "../hooks";
+import Avatar from "./Avatar";
+import "./coin-transfer-form.css";
+
+type TransferStep = "details" | "confirm";
+
+interface CoinTransferFormProps {
+	// Locks the recipient, e.g. when opened from a conversation
+	recipientUsername?: string;
+	onClose?: () => void;
+}
+
+/**
+ * Send coins to another resident: recipient and amount, a confirmation
+ * step with the balance left, then the outcome of the transfer.
+ */
+export default function CoinTransferForm({
+	recipientUsername,
+	onClose,
+}: CoinTransferFormProps) {
+	const { user } = useAuth();
+	const {
+		transferCoins,
+		isTransferring,
+		transferResult,
+		transferErrorMessage,
+		reset,
+	} = useCoinTransferMutation();
+
+	const [step, setStep] = useState<TransferStep>("details");
+	const [username, setUsername] = useState(recipientUsername || "");
+	const [amount, setAmount] = useState("");
+	const [note, setNote] = useState("");
+	const [lookupUsername, setLookupUsername] = useState("");
+
+	const { profile: recipient, loading: isLookingUp } = useProfiles({
+		mode: "byUsername",
+		username: lookupUsername,
+	});
+
+	const balance = user?.coins ?? 0;
+	const coins = Number(amount);
+	const validationError =
+		user && step === "confirm" && !isLookingUp
+			? validateCoinTransfer({
+					senderId: user.id,
+					recipientId: recipient?.id,
+					amount: coins,
+					balance,
+				})
+			: null;
+
+	const handleContinue = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!username.trim() || !amount) return;
+
+		reset();
+		setLookupUsername(username.trim().replace(/^@/, ""));
+		setStep("confirm");
+	};
+
+	const handleConfirm = () => {
+		if (!user || !recipient || validationError) return;
+
+		transferCoins({
+			senderId: user.id,
+			recipientId: recipient.id,
+			amount: coins,
+			note,
+		});
+	};
+
+	const startOver = () => {
+		reset();
+		setAmount("");
+		setNote("");
+		if (!recipientUsername) setUsername("");
+		setStep("details");
+	};
+
+	if (transferResult) {
+		return (
+			<div className="coin-transfer">
+				<p className="coin-transfer__success">
+					<Check size={18} /> {transferResult.amount} coin
+					{transferResult.amount > 1 ? "s" : ""} sent to @
+					{recipient?.username || lookupUsername}
+				</p>
+				<p className="coin-transfer__balance">
+					Your balance: <strong>{transferResult.sender_balance}</strong> coins
+				</p>
+				<div className="coin-transfer__actions">
+					{onClose && (
+						<button
+							type="button"
+							className="coin-transfer__secondary"
+							onClick={onClose}
+						>
+							Close
+						</button>
+					)}
+					<button
+						type="button"
+						className="coin-transfer__primary"
+						onClick={startOver}
+					>
+						Send more
+					</button>
+				</div>
+			</div>
+		);
+	}
+
+	if (step === "confirm") {
+		return (
+			<div className="coin-transfer">
+				<h3 className="coin-transfer__title">Confirm transfer</h3>
+
+				{isLookingUp ? (
+					<p className="coin-transfer__hint">Looking up @{lookupUsername}...</p>
+				) : recipient ? (
+					<div className="coin-transfer__recipient">
+						<Avatar
+							size="sm"
+							avatar_url={recipient.avatar_url}
+							username={recipient.username}
+						/>
+						<div>
+							<span className="coin-transfer__name">
+								{recipient.full_name || recipient.username}
+							</span>
+							<span className="coin-transfer__username">
+								@{recipient.username}
+							</span>
+						</div>
+					</div>
+				) : null}
+
+				{!isLookingUp && !validationError && (
+					<>
+						<p className="coin-transfer__amount">
+							<Coins size={20} /> {coins}
+						</p>
+						{note.trim() && (
+							<p className="coin-transfer__note">“{note.trim()}”</p>
+						)}
+						<p className="coin-transfer__balance">
+							Balance after transfer: <strong>{balance - coins}</strong> coins
+						</p>
+					</>
+				)}
+
+				{validationError && (
+					<p className="coin-transfer__error">
+						{COIN_TRANSFER_ERRORS[validationError]}
+					</p>
+				)}
+				{transferErrorMessage && (
+					<p className="coin-transfer__error">{transferErrorMessage}</p>
+				)}
+
+				<div className="coin-transfer__actions">
+					<button
+						type="button"
+						className="coin-transfer__secondary"
+						onClick={() => setStep("details")}
+						disabled={isTransferring}
+					>
+						<ArrowLeft size={16} /> Back
+					</button>
+					<button
+						type="button"
+						className="coin-transfer__primary"
+						onClick={handleConfirm}
+						disabled={isLookingUp || !!validationError || isTransferring}
+					>
+						{isTransferring ? "Sending..." : `Send ${coins || ""} coins`}
+					</button>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<form className="coin-transfer" onSubmit={handleContinue}>
+			<h3 className="coin-transfer__title">
+				<Send size={18} /> Send coins
+			</h3>
+
+			<label className="coin-transfer__field">
+				<span>Recipient</span>
+				<input
+					type="text"
+					value={username}
+					onChange={(e) => setUsername(e.target.value)}
+					placeholder="username"
+					readOnly={!!recipientUsername}
+					autoComplete="off"
+					required
+				/>
+			</label>
+
+			<label className="coin-transfer__field">
+				<span>Amount</span>
+				<input
+					type="number"
+					inputMode="numeric"
+					min={1}
+					max={balance}
+					step={1}
+					value={amount}
+					onChange={(e) => setAmount(e.target.value)}
+					required
+				/>
+			</label>
+
+			<label className="coin-transfer__field">
+				<span>Note (optional)</span>
+				<input
+					type="text"
+					value={note}
+					onChange={(e) => setNote(e.target.value)}
+					maxLength={COIN_TRANSFER_NOTE_MAX_LENGTH}
+					placeholder="Thanks for the help!"
+				/>
+			</label>
+
+			<p className="coin-transfer__balance">
+				Balance: <strong>{balance}</strong> coins
+			</p>
+
+			<div className="coin-transfer__actions">
+				{onClose && (
+					<button
+						type="button"
+						className="coin-transfer__secondary"
+						onClick={onClose}
+					>
+						Cancel
+					</button>
+				)}
+				<button
+					type="submit"
+					className="coin-transfer__primary"
+					disabled={!username.trim() || !amount || balance <= 0}
+				>
+					Continue
+				</button>
+			</div>
+		</form>
+	);
+}
@@ -0,0 +1,85 @@
+import { AlertTriangle, Download } from "lucide-react";
+import { useAuth, useConversationCleanup } from "../hooks";
+import Avatar from "./Avatar";
+import "./conversation-cleanup-banner.css";
+
+/**
+ * Warns the user about conversations that will be purged soon,
+ * with a per-conversation export and an acknowledge action.
+ */
+export default function ConversationCleanupBanner() {
+	const { user } = useAuth();
+	const {
+		notification,
+		conversations,
+		acknowledge,
+		exportConversation,
+		isAcknowledging,
+		isExporting,
+		exportError,
+	} = useConversationCleanup(user?.id || "");
+
+	if (!user || !notification || conversations.length === 0) {
+		return null;
+	}
+
+	const cleanupDate = new Date(
+		notification.cleanup_scheduled_at,
+	).toLocaleDateString([], { year: "numeric", month: "long", day: "numeric" });
+
+	return (
+		<div className="cleanup-banner" role="alert">
+			<div className="cleanup-banner__header">
+				<AlertTriangle size={20} />
+				<p className="cleanup-banner__title">
+					{conversations.length} inactive conversation
+					{conversations.length > 1 ? "s" : ""} will be deleted on {cleanupDate}
+				</p>
+			</div>
+			<p className="cleanup-banner__description">
+				Export the ones you want to keep before that date.
+			</p>
+
+			<ul className="cleanup-banner__list">
+				{conversations.map(({ partner, last_message_date }) => (
+					<li key={partner.id} className="cleanup-banner__item">
+						<Avatar
+							size="sm"
+							avatar_url={partner.avatar_url}
+							username={partner.username}
+						/>
+						<div className="cleanup-banner__info">
+							<span className="cleanup-banner__name">
+								{partner.username || "User"}
+							</span>
+							<span className="cleanup-banner__date">
+								Last message {new Date(last_message_date).toLocaleDateString()}
+							</span>
+						</div>
+						<button
+							type="button"
+							className="cleanup-banner__export"
+							onClick={() => exportConversation({ user, partner })}
+							disabled={isExporting}
+						>
+							<Download size={16} /> Export
+						</button>
+					</li>
+				))}
+			</ul>
+
+			{exportError && (
+				<p className="cleanup-banner__error">{exportError.message}</p>
+			)}
+
+			<button
+				type="button"
+				className="cleanup-banner__acknowledge"
+				onClick={() => acknowledge(notification.id)}
+				disabled={isAcknowledging}
+			>
+				Got it
+			</button>
+		</div>
+	);
+}
@@ -0,0 +1,116 @@
+import { CalendarCheck, Coins, Flame, X } from "lucide-react";
+import { useState } from "react";
+import {
+	DAILY_CHECKIN_COINS,
+	computeCheckinStreaks,
+	getManilaDateKey,
+	getNextStreakBonus,
+	hasCheckedInToday,
+	useAuth,
+	useDailyCheckinMutation,
+} from "../hooks";
+import "./daily-checkin-prompt.css";
+
+/**
+ * Session flag so a dismissed prompt stays closed until the next day
+ */
+function getDismissKey(userId: string): string {
+	return `daily-checkin-dismissed:${userId}:${getManilaDateKey()}`;
+}
+
+/**
+ * Prompts the user to claim the daily check-in coins when the app opens,
+ * then shows what was awarded.
+ */
+export default function DailyCheckinPrompt() {
+	const { user } = useAuth();
+	const { checkIn, isCheckingIn, checkInResult, checkInErrorMessage } =
+		useDailyCheckinMutation();
+	const [dismissed, setDismissed] = useState(false);
+
+	if (!user || !user.onboarding_completed) return null;
+
+	const isDismissed =
+		dismissed || sessionStorage.getItem(getDismissKey(user.id)) === "true";
+
+	// Keep the result visible after the profile refetch marks today as done
+	if (
+		isDismissed ||
+		(!checkInResult && hasCheckedInToday(user.last_daily_checkin))
+	) {
+		return null;
+	}
+
+	const dismiss = () => {
+		sessionStorage.setItem(getDismissKey(user.id), "true");
+		setDismissed(true);
+	};
+
+	// The stored streak only carries over when the last check-in was yesterday
+	const isStreakAlive =
+		!!user.last_daily_checkin &&
+		computeCheckinStreaks([user.last_daily_checkin]).current > 0;
+	const nextStreak = isStreakAlive ? (user.checkin_streak ?? 0) + 1 : 1;
+	const nextBonus = getNextStreakBonus(nextStreak - 1);
+
+	return (
+		<aside className="checkin-prompt" aria-label="Daily check-in">
+			<button
+				type="button"
+				className="checkin-prompt__close"
+				onClick={dismiss}
+				aria-label="Close"
+			>
+				<X size={18} />
+			</button>
+
+			{checkInResult ? (
+				<>
+					<p className="checkin-prompt__title">
+						<Coins size={20} /> +{checkInResult.coins_awarded} coin
+						{checkInResult.coins_awarded > 1 ? "s" : ""}
+					</p>
+					<p className="checkin-prompt__text">
+						<Flame className="inline-icon" size={16} /> Day{" "}
+						{checkInResult.streak} of your streak
+						{checkInResult.bonus > 0 &&
+							` — including a ${checkInResult.bonus} coin streak bonus!`}
+					</p>
+					<button
+						type="button"
+						className="checkin-prompt__action"
+						onClick={dismiss}
+					>
+						Done
+					</button>
+				</>
+			) : (
+				<>
+					<p className="checkin-prompt__title">
+						<CalendarCheck size={20} /> Daily check-in
+					</p>
+					<p className="checkin-prompt__text">
+						Check in to earn {DAILY_CHECKIN_COINS} coin and reach day{" "}
+						{nextStreak} of your streak.
+					</p>
+					<p className="checkin-prompt__hint">
+						{nextBonus.daysLeft === 1
+							? `Today unlocks the ${nextBonus.days}-day bonus of ${nextBonus.coins} coins.`
+							: `${nextBonus.daysLeft} days to the ${nextBonus.days}-day bonus of ${nextBonus.coins} coins.`}
+					</p>
+					{checkInErrorMessage && (
+						<p className="checkin-prompt__error">{checkInErrorMessage}</p>
+					)}
+					<button
+						type="button"
+						className="checkin-prompt__action"
+						onClick={() => checkIn(user.id)}
+						disabled={isCheckingIn}
+					>
+						{isCheckingIn ? "Checking in..." : "Check in"}
+					</button>
+				</>
+			)}
+		</aside>
+	);
+}
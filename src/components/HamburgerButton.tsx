@@ -5,11 +5,13 @@ import { useDraggable } from "../hooks/utility/useDraggable";
 interface HamburgerButtonProps {
 	onClick: () => void;
 	enableDrag?: boolean;
+	hasBadge?: boolean;
 }
 
 export default function HamburgerButton({
 	onClick,
 	enableDrag = true,
+	hasBadge = false,
 }: HamburgerButtonProps) {
 	const [bounds, setBounds] = useState({
 		left: 16,
@@ -79,6 +81,7 @@ export default function HamburgerButton({
 			title={enableDrag ? "Drag to reposition" : "Open menu"}
 		>
 			<Menu size={24} />
+			{hasBadge && <span className="hamburger-badge" aria-hidden="true" />}
 			{enableDrag && (
 				<span id="hamburger-drag-hint" className="visually-hidden">
 					Drag to reposition this button
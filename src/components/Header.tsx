@@ -1,9 +1,18 @@
-import { useCallback, useEffect, useState } from "react";
-import { useMessagingActiveHeaders } from "../hooks";
+import { useEffect, useState } from "react";
+import { useHeaderAnnouncements, useMessagingActiveHeaders } from "../hooks";
+import { getRandomHeaderGradient } from "../lib/headerGradient";
 import "./header.css";
 
 const Header = () => {
-	const { data: messages = [] } = useMessagingActiveHeaders();
+	const { data: headers = [] } = useMessagingActiveHeaders();
+	const { data: urgentAnnouncements = [] } = useHeaderAnnouncements();
+	// Urgent association announcements come before the resident messages
+	const messages = [
+		...urgentAnnouncements.map((announcement) => ({
+			message: `📣 ${announcement.association?.name ? `${announcement.association.name}: ` : ""}${announcement.title}`,
+		})),
+		...headers,
+	];
 	const [currentIndex, setCurrentIndex] = useState(0);
 	const [isVisible, setIsVisible] = useState(true);
 	const [currentGradient, setCurrentGradient] = useState("");
@@ -13,24 +22,10 @@ const Header = () => {
 			? messages
 			: [{ message: "Welcome to our community! 🌟" }];
 
-	const getRandomGradient = useCallback(() => {
-		const colorPalette = ["#f3c549", "#ffff7b"];
-		const angle = Math.floor(Math.random() * 360);
-		const color1 =
-			colorPalette[Math.floor(Math.random() * colorPalette.length)];
-		let color2 = colorPalette[Math.floor(Math.random() * colorPalette.length)];
-
-		while (color2 === color1) {
-			color2 = colorPalette[Math.floor(Math.random() * colorPalette.length)];
-		}
-
-		return `linear-gradient(${angle}deg, ${color1}, ${color2})`;
-	}, []);
-
 	useEffect(() => {
 		// Initialiser le premier gradient
-		setCurrentGradient(getRandomGradient());
-	}, [getRandomGradient]);
+		setCurrentGradient(getRandomHeaderGradient());
+	}, []);
 
 	useEffect(() => {
 		if (displayMessages.length <= 1) return;
@@ -42,13 +37,13 @@ const Header = () => {
 				setCurrentIndex(
 					(prevIndex) => (prevIndex + 1) % displayMessages.length,
 				);
-				setCurrentGradient(getRandomGradient());
+				setCurrentGradient(getRandomHeaderGradient());
 				setIsVisible(true);
 			}, 300); // Durée du fondu
 		}, 5000);
 
 		return () => clearInterval(interval);
-	}, [displayMessages.length, getRandomGradient]);
+	}, [displayMessages.length]);
 
 	const currentMessage = displayMessages[currentIndex] || displayMessages[0];
 
@@ -0,0 +1,152 @@
+import { Coins, Megaphone, Shuffle } from "lucide-react";
+import { useState } from "react";
+import {
+	HEADER_DURATIONS,
+	HEADER_MESSAGE_MAX_LENGTH,
+	type HeaderDurationId,
+	getHeaderExpiry,
+	useAuth,
+	useMessagingHeaderMutations,
+} from "../hooks";
+import { getRandomHeaderGradient } from "../lib/headerGradient";
+import "./header-announcement-composer.css";
+
+/**
+ * Composer for paid announcements shown in the rotating header banner.
+ * Shows the price of each duration, a live preview and the balance left.
+ */
+export default function HeaderAnnouncementComposer() {
+	const { user } = useAuth();
+	const {
+		publishHeader,
+		isPublishing,
+		isPublished,
+		publishErrorMessage,
+		reset,
+	} = useMessagingHeaderMutations();
+
+	const [message, setMessage] = useState("");
+	const [durationId, setDurationId] = useState<HeaderDurationId>("1d");
+	const [gradient, setGradient] = useState(getRandomHeaderGradient);
+
+	const balance = user?.coins ?? 0;
+	const duration =
+		HEADER_DURATIONS.find((d) => d.id === durationId) || HEADER_DURATIONS[0];
+	const canAfford = balance >= duration.coins;
+	const trimmedMessage = message.trim();
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !trimmedMessage || !canAfford) return;
+
+		publishHeader({ userId: user.id, message: trimmedMessage, durationId });
+		setMessage("");
+	};
+
+	const handleMessageChange = (value: string) => {
+		// Clear the previous outcome as soon as a new announcement is drafted
+		if (isPublished || publishErrorMessage) reset();
+		setMessage(value);
+	};
+
+	return (
+		<form className="announcement-composer" onSubmit={handleSubmit}>
+			<div className="announcement-composer__header">
+				<Megaphone size={20} />
+				<h3 className="announcement-composer__title">Post an announcement</h3>
+			</div>
+			<p className="announcement-composer__description">
+				Your message rotates in the banner at the top of the app for everyone to
+				see.
+			</p>
+
+			<div
+				className="announcement-composer__preview"
+				style={{ background: gradient }}
+			>
+				<span className="announcement-composer__preview-message">
+					{trimmedMessage || "Your announcement here"}
+				</span>
+				<button
+					type="button"
+					className="announcement-composer__shuffle"
+					onClick={() => setGradient(getRandomHeaderGradient())}
+					aria-label="Preview another gradient"
+				>
+					<Shuffle size={14} />
+				</button>
+			</div>
+
+			<textarea
+				className="announcement-composer__input"
+				value={message}
+				onChange={(e) => handleMessageChange(e.target.value)}
+				maxLength={HEADER_MESSAGE_MAX_LENGTH}
+				rows={2}
+				placeholder="Garage sale this Saturday at Block 5!"
+			/>
+			<span className="announcement-composer__counter">
+				{message.length}/{HEADER_MESSAGE_MAX_LENGTH}
+			</span>
+
+			<fieldset className="announcement-composer__durations">
+				<legend>Duration</legend>
+				{HEADER_DURATIONS.map((option) => (
+					<label
+						key={option.id}
+						className={`announcement-composer__duration ${option.id === durationId ? "selected" : ""} ${balance < option.coins ? "unaffordable" : ""}`}
+					>
+						<input
+							type="radio"
+							name="announcement-duration"
+							value={option.id}
+							checked={option.id === durationId}
+							onChange={() => setDurationId(option.id)}
+						/>
+						<span>{option.label}</span>
+						<span className="announcement-composer__price">
+							<Coins size={14} /> {option.coins}
+						</span>
+					</label>
+				))}
+			</fieldset>
+
+			<div className="announcement-composer__balance">
+				<span>
+					Balance: <strong>{balance}</strong> coins
+				</span>
+				<span className={canAfford ? "" : "insufficient"}>
+					{canAfford
+						? `${balance - duration.coins} left after publishing`
+						: `${duration.coins - balance} more coins needed`}
+				</span>
+			</div>
+
+			{publishErrorMessage && (
+				<p className="announcement-composer__error">{publishErrorMessage}</p>
+			)}
+			{isPublished && (
+				<p className="announcement-composer__success">
+					Your announcement is live! 🎉
+				</p>
+			)}
+
+			<button
+				type="submit"
+				className="announcement-composer__submit"
+				disabled={!trimmedMessage || !canAfford || isPublishing}
+			>
+				{isPublishing
+					? "Publishing..."
+					: `Publish for ${duration.coins} coin${duration.coins > 1 ? "s" : ""}`}
+			</button>
+			<span className="announcement-composer__expiry">
+				Visible until{" "}
+				{new Date(getHeaderExpiry(duration.hours)).toLocaleString([], {
+					dateStyle: "medium",
+					timeStyle: "short",
+				})}
+			</span>
+		</form>
+	);
+}
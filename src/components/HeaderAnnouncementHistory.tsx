@@ -0,0 +1,68 @@
+import { Coins } from "lucide-react";
+import { isHeaderActive, useAuth, useMessagingUserHeaders } from "../hooks";
+import "./header-announcement-history.css";
+
+const formatDate = (date: string) =>
+	new Date(date).toLocaleString([], {
+		dateStyle: "medium",
+		timeStyle: "short",
+	});
+
+/**
+ * "My announcements": the header announcements published by the
+ * current user, with their status, cost and expiry.
+ */
+export default function HeaderAnnouncementHistory() {
+	const { user } = useAuth();
+	const {
+		data: announcements = [],
+		isLoading,
+		errorMessage,
+	} = useMessagingUserHeaders(user?.id || "");
+
+	return (
+		<section className="announcement-history">
+			<h3 className="announcement-history__title">My announcements</h3>
+
+			{isLoading ? (
+				<div className="loading-container">
+					<div className="loading-spinner">⏳</div>
+					<p>Loading announcements...</p>
+				</div>
+			) : errorMessage ? (
+				<p className="no-data">{errorMessage}</p>
+			) : announcements.length > 0 ? (
+				<ul className="announcement-history__list">
+					{announcements.map((announcement) => {
+						const isActive = isHeaderActive(announcement);
+
+						return (
+							<li key={announcement.id} className="announcement-history__item">
+								<div className="announcement-history__row">
+									<span
+										className={`announcement-history__status ${isActive ? "active" : "expired"}`}
+									>
+										{isActive ? "Live" : "Expired"}
+									</span>
+									<span className="announcement-history__cost">
+										<Coins size={14} /> {announcement.coins_spent}
+									</span>
+								</div>
+								<p className="announcement-history__message">
+									{announcement.message}
+								</p>
+								<span className="announcement-history__dates">
+									Published {formatDate(announcement.created_at)}
+									{announcement.expires_at &&
+										` · ${isActive ? "Until" : "Ended"} ${formatDate(announcement.expires_at)}`}
+								</span>
+							</li>
+						);
+					})}
+				</ul>
+			) : (
+				<p className="no-data">You haven't published any announcement yet.</p>
+			)}
+		</section>
+	);
+}
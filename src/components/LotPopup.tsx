@@ -0,0 +1,110 @@
+import { Link } from "@tanstack/react-router";
+import { Briefcase, Home, Store } from "lucide-react";
+import { type LocationWithCoords, useAuth, useLocationPlaces } from "../hooks";
+import "./lot-popup.css";
+
+interface LotPopupProps {
+	location: LocationWithCoords;
+}
+
+/**
+ * Residents, businesses and services of a block/lot, shown in a map popup
+ * Residents who hid their name from the map are not returned by the RPC
+ */
+export default function LotPopup({ location }: LotPopupProps) {
+	const { user } = useAuth();
+	const { data: places, isLoading } = useLocationPlaces(location.id);
+	const businesses = places?.businesses || [];
+	const services = places?.services || [];
+
+	return (
+		<div className="lot-popup">
+			<h3 className="lot-popup__title">
+				Block {location.block}, Lot {location.lot}
+			</h3>
+
+			<section className="lot-popup__section">
+				<h4 className="lot-popup__heading">
+					<Home size={14} /> Residents
+				</h4>
+				{location.users.length > 0 ? (
+					<ul className="lot-popup__list">
+						{location.users.map((resident) => (
+							<li key={resident.id}>
+								{resident.id === user?.id ? (
+									<Link to="/profile" className="lot-popup__link">
+										{resident.name || "You"} (you)
+									</Link>
+								) : (
+									<Link
+										to="/messages/$userId"
+										params={{ userId: resident.id }}
+										className="lot-popup__link"
+									>
+										{resident.name || "Resident"}
+									</Link>
+								)}
+								{resident.is_owner && (
+									<span className="lot-popup__badge">Owner</span>
+								)}
+							</li>
+						))}
+					</ul>
+				) : (
+					<p className="lot-popup__empty">No residents listed.</p>
+				)}
+			</section>
+
+			{isLoading ? (
+				<p className="lot-popup__empty">Loading...</p>
+			) : (
+				<>
+					{businesses.length > 0 && (
+						<section className="lot-popup__section">
+							<h4 className="lot-popup__heading">
+								<Store size={14} /> Businesses
+							</h4>
+							<ul className="lot-popup__list">
+								{businesses.map((business) => (
+									<li key={business.id}>
+										<Link
+											to="/businesses"
+											hash={`business-${business.id}`}
+											className="lot-popup__link"
+										>
+											{business.category?.icon && `${business.category.icon} `}
+											{business.business_name}
+										</Link>
+									</li>
+								))}
+							</ul>
+						</section>
+					)}
+					{services.length > 0 && (
+						<section className="lot-popup__section">
+							<h4 className="lot-popup__heading">
+								<Briefcase size={14} /> Services
+							</h4>
+							<ul className="lot-popup__list">
+								{services.map((service) => (
+									<li key={service.id}>
+										<Link
+											to="/services"
+											hash={`service-${service.id}`}
+											className="lot-popup__link"
+										>
+											{service.category?.icon && `${service.category.icon} `}
+											{service.description ||
+												service.category?.name ||
+												"Service"}
+										</Link>
+									</li>
+								))}
+							</ul>
+						</section>
+					)}
+				</>
+			)}
+		</div>
+	);
+}
@@ -1,11 +1,32 @@
-import maplibregl from "maplibre-gl";
-import { useEffect, useRef } from "react";
+import maplibregl, { type GeoJSONSource } from "maplibre-gl";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
 import "maplibre-gl/dist/maplibre-gl.css";
 import "./map.css";
 import houseImage from "../assets/img/house.png";
 import pinImage from "../assets/img/pin.png";
-import { useAuth } from "../hooks";
-import { useAssociatedLocationsWithCoords, useUserLocationIds } from "../hooks";
+import {
+	type LocationWithCoords,
+	type MapBounds,
+	snapBounds,
+	useAuth,
+	useLocationsInBounds,
+	useMapPlaces,
+	useUserLocationIds,
+} from "../hooks";
+import {
+	DEFAULT_MAP_LAYER_FILTERS,
+	EMOJI_ICON_PREFIX,
+	type MapIcon,
+	type MapLayerFilter,
+	type MapLayerId,
+	getLayerCategories,
+	toLocationFeatures,
+	toMapFeatures,
+} from "../lib/mapFeatures";
+import LotPopup from "./LotPopup";
+import MapLayerSwitcher from "./MapLayerSwitcher";
+import MapLegend from "./MapLegend";
 
 const MAP_STYLES = {
 	osm: {
@@ -36,98 +57,393 @@ const MAP_STYLES = {
 	},
 };
 
+const MAP_ICONS: Record<MapIcon, string> = {
+	house: houseImage,
+	pin: pinImage,
+};
+
+const LOCATIONS_SOURCE = "locations";
+const CLUSTER_LAYER = "location-clusters";
+const CLUSTER_COUNT_LAYER = "location-cluster-count";
+const POINT_LAYER = "location-points";
+
 interface MapProps {
 	style?: React.CSSProperties;
 	className?: string;
+	center?: [number, number];
+	zoom?: number;
+	interactive?: boolean;
+	/** Show a single pin instead of the community locations */
+	pin?: { lng: number; lat: number };
+}
+
+const DEFAULT_CENTER: [number, number] = [
+	120.95134859887523, 14.347872973134175,
+];
+
+/**
+ * Current viewport, snapped so small pans keep the same query
+ */
+function getViewportBounds(mapInstance: maplibregl.Map): MapBounds {
+	const bounds = mapInstance.getBounds();
+	return snapBounds({
+		minLng: bounds.getWest(),
+		minLat: bounds.getSouth(),
+		maxLng: bounds.getEast(),
+		maxLat: bounds.getNorth(),
+	});
+}
+
+/**
+ * Draw a category emoji on a round badge, at twice the on-screen size
+ */
+function renderEmojiIcon(emoji: string): ImageData {
+	const size = 56;
+	const canvas = document.createElement("canvas");
+	canvas.width = size;
+	canvas.height = size;
+	const context = canvas.getContext("2d");
+	if (!context) return new ImageData(size, size);
+
+	context.beginPath();
+	context.arc(size / 2, size / 2, size / 2 - 3, 0, Math.PI * 2);
+	context.fillStyle = "#ffffff";
+	context.fill();
+	context.lineWidth = 3;
+	context.strokeStyle = "#3498db";
+	context.stroke();
+
+	context.font = "30px sans-serif";
+	context.textAlign = "center";
+	context.textBaseline = "middle";
+	context.fillText(emoji, size / 2, size / 2 + 2);
+	return context.getImageData(0, 0, size, size);
+}
+
+/**
+ * Element hosting a React-rendered map control
+ */
+function createControlContainer(): HTMLDivElement {
+	const container = document.createElement("div");
+	container.className = "maplibregl-ctrl maplibregl-ctrl-group";
+	return container;
+}
+
+/**
+ * Icons, clustered source and layers for the community locations
+ */
+async function addLocationLayers(mapInstance: maplibregl.Map) {
+	for (const [name, url] of Object.entries(MAP_ICONS)) {
+		const { data } = await mapInstance.loadImage(url);
+		if (!mapInstance.hasImage(name)) mapInstance.addImage(name, data);
+	}
+
+	mapInstance.addSource(LOCATIONS_SOURCE, {
+		type: "geojson",
+		data: toLocationFeatures([]),
+		cluster: true,
+		clusterRadius: 40,
+		clusterMaxZoom: 17,
+	});
+
+	mapInstance.addLayer({
+		id: CLUSTER_LAYER,
+		type: "circle",
+		source: LOCATIONS_SOURCE,
+		filter: ["has", "point_count"],
+		paint: {
+			"circle-color": "#3498db",
+			"circle-radius": ["step", ["get", "point_count"], 16, 10, 20, 50, 26],
+			"circle-stroke-width": 2,
+			"circle-stroke-color": "#ffffff",
+		},
+	});
+
+	mapInstance.addLayer({
+		id: CLUSTER_COUNT_LAYER,
+		type: "symbol",
+		source: LOCATIONS_SOURCE,
+		filter: ["has", "point_count"],
+		layout: {
+			"text-field": ["get", "point_count_abbreviated"],
+			"text-font": ["Noto Sans Regular"],
+			"text-size": 13,
+		},
+		paint: {
+			"text-color": "#ffffff",
+		},
+	});
+
+	mapInstance.addLayer({
+		id: POINT_LAYER,
+		type: "symbol",
+		source: LOCATIONS_SOURCE,
+		filter: ["!", ["has", "point_count"]],
+		layout: {
+			"icon-image": ["get", "icon"],
+			// Same on-screen size as the former DOM markers (26px wide house, 32px tall pin)
+			"icon-size": ["match", ["get", "icon"], "house", 0.5, "pin", 0.48, 1],
+			"icon-anchor": ["match", ["get", "icon"], "pin", "bottom", "center"],
+			// Places sit around their lot's pin instead of covering it
+			"icon-offset": [
+				"match",
+				["get", "layer"],
+				"businesses",
+				["literal", [-18, -30]],
+				"services",
+				["literal", [18, -30]],
+				"marketplace",
+				["literal", [0, 14]],
+				["literal", [0, 0]],
+			],
+			"icon-allow-overlap": true,
+		},
+	});
 }
 
-export default function MapComponent({ style, className }: MapProps) {
+export default function MapComponent({
+	style,
+	className,
+	center,
+	zoom = 15,
+	interactive = true,
+	pin,
+}: MapProps) {
 	const mapContainer = useRef<HTMLDivElement>(null);
 	const map = useRef<maplibregl.Map | null>(null);
-	const markersRef = useRef<maplibregl.Marker[]>([]);
+	const [isMapReady, setIsMapReady] = useState(false);
+	const [bounds, setBounds] = useState<MapBounds | null>(null);
+
+	// Primitive values so the map is only recreated when they really change
+	const [centerLng, centerLat] = center || [];
+	const pinLng = pin?.lng;
+	const pinLat = pin?.lat;
+	const hasPin = pinLng !== undefined && pinLat !== undefined;
 
 	const { user } = useAuth();
-	const { data: locations = [] } = useAssociatedLocationsWithCoords();
-	const { data: userLocationIds = [] } = useUserLocationIds(user?.id || "");
+	const { data: locations } = useLocationsInBounds(hasPin ? null : bounds);
+	const { data: userLocationIds } = useUserLocationIds(user?.id || "");
+	const { data: places } = useMapPlaces(hasPin ? null : bounds, locations);
+
+	const [layerFilters, setLayerFilters] = useState(DEFAULT_MAP_LAYER_FILTERS);
+	const categories = useMemo(() => getLayerCategories(places), [places]);
+	const features = useMemo(
+		() =>
+			locations
+				? toMapFeatures(locations, userLocationIds || [], places, layerFilters)
+				: null,
+		[locations, userLocationIds, places, layerFilters],
+	);
+	const handleLayerChange = useCallback(
+		(layer: MapLayerId, filter: MapLayerFilter) =>
+			setLayerFilters((previous) => ({ ...previous, [layer]: filter })),
+		[],
+	);
+
+	// Layer switcher and legend are React content inside map controls
+	const showControls = !hasPin && interactive;
+	const [switcherContainer] = useState(createControlContainer);
+	const [legendContainer] = useState(createControlContainer);
+
+	// Layer click handlers are bound once, so they read the latest data here
+	const locationsRef = useRef(locations);
+	locationsRef.current = locations;
+
+	// Lot whose popup is open; kept as an object so it survives panning away
+	const [selectedLocation, setSelectedLocation] =
+		useState<LocationWithCoords | null>(null);
+	const [popupContainer] = useState(() => document.createElement("div"));
+	const selectedLng = selectedLocation?.lng;
+	const selectedLat = selectedLocation?.lat;
 
 	useEffect(() => {
 		if (!mapContainer.current) return;
 
-		map.current = new maplibregl.Map({
+		const initialCenter: [number, number] =
+			centerLng !== undefined && centerLat !== undefined
+				? [centerLng, centerLat]
+				: pinLng !== undefined && pinLat !== undefined
+					? [pinLng, pinLat]
+					: DEFAULT_CENTER;
+
+		const mapInstance = new maplibregl.Map({
 			container: mapContainer.current,
 			style: MAP_STYLES.osm,
-			center: [120.95134859887523, 14.347872973134175],
-			zoom: 15,
+			center: initialCenter,
+			zoom,
+			interactive,
+			attributionControl: interactive ? undefined : false,
 		});
+		map.current = mapInstance;
 
-		return () => {
-			map.current?.remove();
-		};
-	}, []);
+		// Single pin preview (e.g. a shared location)
+		if (pinLng !== undefined && pinLat !== undefined) {
+			const el = document.createElement("img");
+			el.src = pinImage;
+			el.style.width = "auto";
+			el.style.height = "32px";
 
-	useEffect(() => {
-		if (!map.current || locations.length === 0) return;
+			new maplibregl.Marker({ element: el, anchor: "bottom" })
+				.setLngLat([pinLng, pinLat])
+				.addTo(mapInstance);
+
+			return () => {
+				mapInstance.remove();
+			};
+		}
+
+		const updateBounds = () => {
+			const next = getViewportBounds(mapInstance);
+			setBounds((previous) =>
+				previous &&
+				previous.minLng === next.minLng &&
+				previous.minLat === next.minLat &&
+				previous.maxLng === next.maxLng &&
+				previous.maxLat === next.maxLat
+					? previous
+					: next,
+			);
+		};
 
-		// Clear existing markers
-		for (const marker of markersRef.current) {
-			marker.remove();
+		if (interactive) {
+			mapInstance.addControl(
+				{
+					onAdd: () => switcherContainer,
+					onRemove: () => switcherContainer.remove(),
+				},
+				"top-right",
+			);
+			mapInstance.addControl(
+				{
+					onAdd: () => legendContainer,
+					onRemove: () => legendContainer.remove(),
+				},
+				"bottom-left",
+			);
 		}
-		markersRef.current = [];
-
-		// Add markers for each location
-		for (const location of locations) {
-			// Handle coordinates which might be an object or string
-			let coords: { lat: number; lng: number } | null = null;
-
-			if (
-				typeof location.coordinates === "object" &&
-				location.coordinates !== null
-			) {
-				coords = location.coordinates;
-			} else if (typeof location.coordinates === "string") {
-				try {
-					coords = JSON.parse(location.coordinates);
-				} catch (e) {
-					console.warn("Invalid coordinates format:", location.coordinates);
-				}
+
+		// Category icons are drawn the first time a layer asks for them
+		mapInstance.on("styleimagemissing", ({ id }) => {
+			if (!id.startsWith(EMOJI_ICON_PREFIX) || mapInstance.hasImage(id)) {
+				return;
 			}
+			mapInstance.addImage(
+				id,
+				renderEmojiIcon(id.slice(EMOJI_ICON_PREFIX.length)),
+				{ pixelRatio: 2 },
+			);
+		});
 
-			if (coords?.lat && coords.lng) {
-				// Determine if this location belongs to the current user
-				const isUserLocation = userLocationIds.includes(location.id);
-
-				// Use different icons based on ownership
-				const el = document.createElement("img");
-				el.src = isUserLocation ? houseImage : pinImage;
-
-				// Different sizes for house vs pin
-				if (isUserLocation) {
-					el.style.width = "26px";
-					el.style.height = "auto";
-				} else {
-					el.style.width = "auto";
-					el.style.height = "32px";
-				}
-
-				// Create the MapLibre marker with coordinates
-				const marker = new maplibregl.Marker({ element: el })
-					.setLngLat([coords.lng, coords.lat])
-					.addTo(map.current);
-
-				markersRef.current.push(marker);
+		mapInstance.on("load", async () => {
+			try {
+				await addLocationLayers(mapInstance);
+				setIsMapReady(true);
+				updateBounds();
+			} catch (error) {
+				console.error("Failed to set up map layers:", error);
 			}
+		});
+		mapInstance.on("moveend", updateBounds);
+
+		// Zoom into a cluster until it splits
+		mapInstance.on("click", CLUSTER_LAYER, async (event) => {
+			const clusterId = event.features?.[0]?.properties.cluster_id;
+			const source = mapInstance.getSource<GeoJSONSource>(LOCATIONS_SOURCE);
+			if (clusterId === undefined || !source) return;
+
+			const expansionZoom = await source.getClusterExpansionZoom(clusterId);
+			mapInstance.easeTo({ center: event.lngLat, zoom: expansionZoom });
+		});
+
+		mapInstance.on("click", POINT_LAYER, (event) => {
+			const id = event.features?.[0]?.properties.id;
+			const location = locationsRef.current?.find(
+				(location) => location.id === id,
+			);
+			if (location) setSelectedLocation(location);
+		});
+
+		for (const layer of [CLUSTER_LAYER, POINT_LAYER]) {
+			mapInstance.on("mouseenter", layer, () => {
+				mapInstance.getCanvas().style.cursor = "pointer";
+			});
+			mapInstance.on("mouseleave", layer, () => {
+				mapInstance.getCanvas().style.cursor = "";
+			});
+		}
+
+		return () => {
+			setIsMapReady(false);
+			mapInstance.remove();
+		};
+	}, [
+		centerLng,
+		centerLat,
+		zoom,
+		interactive,
+		pinLng,
+		pinLat,
+		switcherContainer,
+		legendContainer,
+	]);
+
+	// Previous points stay visible while a new viewport loads
+	useEffect(() => {
+		if (!isMapReady || !features) return;
+		map.current?.getSource<GeoJSONSource>(LOCATIONS_SOURCE)?.setData(features);
+	}, [isMapReady, features]);
+
+	useEffect(() => {
+		if (
+			!map.current ||
+			selectedLng === undefined ||
+			selectedLat === undefined
+		) {
+			return;
 		}
-	}, [locations, userLocationIds]);
+
+		const popup = new maplibregl.Popup({ offset: 28, maxWidth: "280px" })
+			.setLngLat([selectedLng, selectedLat])
+			.setDOMContent(popupContainer)
+			.addTo(map.current);
+
+		// Closing the popup by hand clears the selection
+		const handleClose = () => setSelectedLocation(null);
+		popup.on("close", handleClose);
+
+		return () => {
+			popup.off("close", handleClose);
+			popup.remove();
+		};
+	}, [selectedLng, selectedLat, popupContainer]);
 
 	return (
-		<div
-			ref={mapContainer}
-			style={{
-				width: "100%",
-				height: "100%",
-				...style,
-			}}
-			className={className}
-		/>
+		<>
+			<div
+				ref={mapContainer}
+				style={{
+					width: "100%",
+					height: "100%",
+					...style,
+				}}
+				className={className}
+			/>
+			{selectedLocation &&
+				createPortal(<LotPopup location={selectedLocation} />, popupContainer)}
+			{showControls &&
+				createPortal(
+					<MapLayerSwitcher
+						filters={layerFilters}
+						categories={categories}
+						onChange={handleLayerChange}
+					/>,
+					switcherContainer,
+				)}
+			{showControls &&
+				createPortal(
+					<MapLegend filters={layerFilters} categories={categories} />,
+					legendContainer,
+				)}
+		</>
 	);
 }
@@ -0,0 +1,99 @@
+import { Layers, X } from "lucide-react";
+import { useState } from "react";
+import {
+	MAP_LAYERS,
+	type MapLayerCategory,
+	type MapLayerFilter,
+	type MapLayerFilters,
+	type MapLayerId,
+} from "../lib/mapFeatures";
+import "./map-layer-switcher.css";
+
+interface MapLayerSwitcherProps {
+	filters: MapLayerFilters;
+	categories: Partial<Record<MapLayerId, MapLayerCategory[]>>;
+	onChange: (layer: MapLayerId, filter: MapLayerFilter) => void;
+}
+
+/**
+ * Map control to show or hide each layer and filter it by category
+ */
+export default function MapLayerSwitcher({
+	filters,
+	categories,
+	onChange,
+}: MapLayerSwitcherProps) {
+	const [isOpen, setIsOpen] = useState(false);
+
+	if (!isOpen) {
+		return (
+			<button
+				type="button"
+				className="map-layer-switcher__toggle"
+				onClick={() => setIsOpen(true)}
+				aria-label="Map layers"
+				title="Map layers"
+			>
+				<Layers size={18} />
+			</button>
+		);
+	}
+
+	return (
+		<div className="map-layer-switcher">
+			<div className="map-layer-switcher__header">
+				<span className="map-layer-switcher__title">Layers</span>
+				<button
+					type="button"
+					className="map-layer-switcher__close"
+					onClick={() => setIsOpen(false)}
+					aria-label="Close map layers"
+				>
+					<X size={16} />
+				</button>
+			</div>
+			{(Object.keys(MAP_LAYERS) as MapLayerId[]).map((layer) => {
+				const filter = filters[layer];
+				const options = categories[layer];
+				// Keep a selected category listed even when it left the viewport
+				const names = options?.map((category) => category.name) || [];
+
+				return (
+					<div key={layer} className="map-layer-switcher__layer">
+						<label className="map-layer-switcher__label">
+							<input
+								type="checkbox"
+								checked={filter.visible}
+								onChange={(e) =>
+									onChange(layer, { ...filter, visible: e.target.checked })
+								}
+							/>
+							<span aria-hidden="true">{MAP_LAYERS[layer].icon}</span>
+							{MAP_LAYERS[layer].label}
+						</label>
+						{options && filter.visible && (
+							<select
+								className="map-layer-switcher__select"
+								value={filter.category}
+								onChange={(e) =>
+									onChange(layer, { ...filter, category: e.target.value })
+								}
+								aria-label={`${MAP_LAYERS[layer].label} category`}
+							>
+								<option value="">All categories</option>
+								{options.map((category) => (
+									<option key={category.name} value={category.name}>
+										{category.icon} {category.name}
+									</option>
+								))}
+								{filter.category && !names.includes(filter.category) && (
+									<option value={filter.category}>{filter.category}</option>
+								)}
+							</select>
+						)}
+					</div>
+				);
+			})}
+		</div>
+	);
+}
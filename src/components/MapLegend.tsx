@@ -0,0 +1,60 @@
+import houseImage from "../assets/img/house.png";
+import pinImage from "../assets/img/pin.png";
+import {
+	MAP_LAYERS,
+	type MapLayerCategory,
+	type MapLayerFilters,
+	type MapLayerId,
+} from "../lib/mapFeatures";
+import "./map-legend.css";
+
+interface MapLegendProps {
+	filters: MapLayerFilters;
+	categories: Partial<Record<MapLayerId, MapLayerCategory[]>>;
+}
+
+/**
+ * Map control explaining the icons of the visible layers
+ */
+export default function MapLegend({ filters, categories }: MapLegendProps) {
+	const layers = (Object.keys(MAP_LAYERS) as MapLayerId[]).filter(
+		(layer) => layer !== "home" && filters[layer].visible,
+	);
+
+	return (
+		<ul className="map-legend">
+			<li className="map-legend__item">
+				<img src={pinImage} alt="" className="map-legend__image" />
+				Lot
+			</li>
+			{filters.home.visible && (
+				<li className="map-legend__item">
+					<img src={houseImage} alt="" className="map-legend__image" />
+					{MAP_LAYERS.home.label}
+				</li>
+			)}
+			{layers.map((layer) => {
+				// Only the icons actually drawn: the selected category, if any
+				const shown = (categories[layer] || []).filter(
+					(category) =>
+						!filters[layer].category ||
+						category.name === filters[layer].category,
+				);
+
+				return (
+					<li key={layer} className="map-legend__item">
+						<span className="map-legend__icons" aria-hidden="true">
+							{layer === "marketplace" || shown.length === 0
+								? MAP_LAYERS[layer].icon
+								: [...new Set(shown.map((category) => category.icon))].join(
+										" ",
+									)}
+						</span>
+						{MAP_LAYERS[layer].label}
+						{filters[layer].category && ` (${filters[layer].category})`}
+					</li>
+				);
+			})}
+		</ul>
+	);
+}
@@ -0,0 +1,84 @@
+import { FileText, MapPin } from "lucide-react";
+import { useMessagingAttachmentUrl } from "../hooks";
+import { parseGeoUri } from "../lib/geo";
+import type { PrivateMessage } from "../types/database";
+import MapComponent from "./Map";
+import "./message-content.css";
+
+interface MessageContentProps {
+	message: Pick<
+		PrivateMessage,
+		"message" | "message_type" | "attachment_url" | "attachment_type"
+	>;
+}
+
+/**
+ * Render the body of a message according to its message_type
+ * Images and files live in a private bucket and are shown through signed URLs
+ */
+export default function MessageContent({ message }: MessageContentProps) {
+	const isStoredFile =
+		message.message_type === "image" || message.message_type === "file";
+	const { data: fileUrl } = useMessagingAttachmentUrl(
+		isStoredFile ? message.attachment_url : undefined,
+		message.message_type === "file" ? message.message : undefined,
+	);
+
+	switch (message.message_type) {
+		case "image":
+			if (!fileUrl) break;
+
+			return (
+				<a
+					href={fileUrl}
+					target="_blank"
+					rel="noopener noreferrer"
+					className="message-image-link"
+				>
+					<img
+						src={fileUrl}
+						alt={message.message}
+						className="message-image"
+						loading="lazy"
+					/>
+				</a>
+			);
+
+		case "file":
+			if (!fileUrl) break;
+
+			return (
+				<a
+					href={fileUrl}
+					target="_blank"
+					rel="noopener noreferrer"
+					className="message-file"
+				>
+					<FileText size={20} />
+					<span className="message-file-name">{message.message}</span>
+				</a>
+			);
+
+		case "location": {
+			const coords = parseGeoUri(message.attachment_url);
+			if (!coords) break;
+
+			return (
+				<div className="message-location">
+					<MapComponent
+						className="message-location-map"
+						style={{ height: 140 }}
+						pin={coords}
+						zoom={17}
+						interactive={false}
+					/>
+					<span className="message-location-label">
+						<MapPin size={14} /> {message.message}
+					</span>
+				</div>
+			);
+		}
+	}
+
+	return <p className="message-text">{message.message}</p>;
+}
@@ -1,19 +1,26 @@
 import { Link, useLocation, useNavigate } from "@tanstack/react-router";
 import {
+	CalendarDays,
 	Cloud,
 	Coins,
 	FileText,
+	FolderOpen,
 	Gamepad2,
 	Home,
 	Info,
 	LogOut,
+	Megaphone,
+	MessageCircle,
 	MessageSquare,
+	MessagesSquare,
 	ShoppingCart,
 	User,
+	Users,
+	Vote,
 	X,
 } from "lucide-react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { useAuth } from "../hooks";
+import { useAnnouncementFeed, useAuth } from "../hooks";
 import HamburgerButton from "./HamburgerButton";
 import "./navigation.css";
 
@@ -27,7 +34,8 @@ export default function Navigation() {
 	>("closed");
 	const sidebarRef = useRef<HTMLDivElement>(null);
 	const navigate = useNavigate();
-	const { signOut } = useAuth();
+	const { signOut, user } = useAuth();
+	const { unreadCount } = useAnnouncementFeed(user?.id || "");
 
 	// Gestion du clavier (Escape pour fermer)
 	useEffect(() => {
@@ -193,6 +201,13 @@ export default function Navigation() {
 		() => [
 			{ path: "/", label: "Home", icon: Home },
 			{ path: "/messages", label: "Messages", icon: MessageSquare },
+			{ path: "/chat", label: "Chat", icon: MessagesSquare },
+			{ path: "/forum", label: "Forum", icon: MessageCircle },
+			{ path: "/associations", label: "Associations", icon: Users },
+			{ path: "/announcements", label: "Announcements", icon: Megaphone },
+			{ path: "/events", label: "Events", icon: CalendarDays },
+			{ path: "/polls", label: "Polls", icon: Vote },
+			{ path: "/documents", label: "Documents", icon: FolderOpen },
 			{ path: "/info", label: "Info", icon: Info },
 			{ path: "/marketplace", label: "Marketplace", icon: ShoppingCart },
 			{ path: "/games", label: "Games", icon: Gamepad2 },
@@ -207,7 +222,11 @@ export default function Navigation() {
 
 	return (
 		<>
-			<HamburgerButton onClick={toggleMenu} enableDrag={true} />
+			<HamburgerButton
+				onClick={toggleMenu}
+				enableDrag={true}
+				hasBadge={unreadCount > 0}
+			/>
 
 			{/* Overlay */}
 			{isOpen && (
@@ -302,6 +321,14 @@ export default function Navigation() {
 										>
 											<item.icon size={22} />
 											<span className="sidebar-label">{item.label}</span>
+											{item.path === "/announcements" && unreadCount > 0 && (
+												<span
+													className="sidebar-badge"
+													aria-label={`${unreadCount} unread`}
+												>
+													{unreadCount > 99 ? "99+" : unreadCount}
+												</span>
+											)}
 										</Link>
 									)}
 								</li>
@@ -0,0 +1,45 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import "./pagination.css";
+
+interface PaginationProps {
+	page: number;
+	pageCount: number;
+	onPageChange: (page: number) => void;
+}
+
+/**
+ * Previous / next controls with the current page
+ */
+export default function Pagination({
+	page,
+	pageCount,
+	onPageChange,
+}: PaginationProps) {
+	if (pageCount <= 1) return null;
+
+	return (
+		<nav className="pagination" aria-label="Pagination">
+			<button
+				type="button"
+				className="pagination__button"
+				onClick={() => onPageChange(page - 1)}
+				disabled={page <= 1}
+				aria-label="Previous page"
+			>
+				<ChevronLeft size={18} />
+			</button>
+			<span className="pagination__status">
+				Page {page} of {pageCount}
+			</span>
+			<button
+				type="button"
+				className="pagination__button"
+				onClick={() => onPageChange(page + 1)}
+				disabled={page >= pageCount}
+				aria-label="Next page"
+			>
+				<ChevronRight size={18} />
+			</button>
+		</nav>
+	);
+}
@@ -0,0 +1,124 @@
+import { Link } from "@tanstack/react-router";
+import { Heart, MessageSquare, Trash2 } from "lucide-react";
+import {
+	type PostWithDetails,
+	getLikeSummary,
+	useAuth,
+	usePostMutations,
+} from "../hooks";
+import Avatar from "./Avatar";
+import "./post-card.css";
+
+interface PostCardProps {
+	post: PostWithDetails;
+	// Show the whole post instead of a preview linking to it
+	isDetail?: boolean;
+	onDeleted?: () => void;
+}
+
+const formatPostDate = (date: string) =>
+	new Date(date).toLocaleString([], {
+		dateStyle: "medium",
+		timeStyle: "short",
+	});
+
+/**
+ * Community post with its author, image, likes and comment count
+ */
+export default function PostCard({
+	post,
+	isDetail = false,
+	onDeleted,
+}: PostCardProps) {
+	const { user } = useAuth();
+	const { toggleLike, deletePost, isTogglingLike, toggleLikeError } =
+		usePostMutations();
+	const { count, likedByMe } = getLikeSummary(post.likes, user?.id);
+	const isAuthor = post.author_id === user?.id;
+
+	const handleDelete = () => {
+		if (!window.confirm("Delete this post?")) return;
+		deletePost(post.id);
+		onDeleted?.();
+	};
+
+	return (
+		<article className={`post-card ${isDetail ? "post-card--detail" : ""}`}>
+			<header className="post-card__header">
+				<Avatar
+					size="sm"
+					avatar_url={post.author?.avatar_url}
+					username={post.author?.username}
+				/>
+				<div className="post-card__meta">
+					<span className="post-card__author">
+						{post.author?.username || "Resident"}
+					</span>
+					<span className="post-card__date">
+						{formatPostDate(post.created_at)}
+					</span>
+				</div>
+				{isAuthor && (
+					<button
+						type="button"
+						className="post-card__delete"
+						onClick={handleDelete}
+						aria-label="Delete post"
+					>
+						<Trash2 size={16} />
+					</button>
+				)}
+			</header>
+
+			<p
+				className={`post-card__content ${isDetail ? "" : "post-card__content--preview"}`}
+			>
+				{post.content}
+			</p>
+
+			{post.image_url && (
+				<img
+					className="post-card__image"
+					src={post.image_url}
+					alt=""
+					loading="lazy"
+				/>
+			)}
+
+			<footer className="post-card__actions">
+				<button
+					type="button"
+					className={`post-card__action ${likedByMe ? "post-card__action--liked" : ""}`}
+					onClick={() =>
+						user &&
+						toggleLike({ postId: post.id, userId: user.id, liked: likedByMe })
+					}
+					disabled={!user || isTogglingLike}
+					aria-pressed={likedByMe}
+				>
+					<Heart size={16} fill={likedByMe ? "currentColor" : "none"} />
+					{count}
+				</button>
+				{isDetail ? (
+					<span className="post-card__action">
+						<MessageSquare size={16} />
+						{post.comment_count}
+					</span>
+				) : (
+					<Link
+						to="/posts/$postId"
+						params={{ postId: post.id }}
+						className="post-card__action"
+					>
+						<MessageSquare size={16} />
+						{post.comment_count}
+					</Link>
+				)}
+			</footer>
+
+			{toggleLikeError && (
+				<p className="post-card__error">{toggleLikeError.message}</p>
+			)}
+		</article>
+	);
+}
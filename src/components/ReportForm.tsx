@@ -0,0 +1,97 @@
+import { Flag } from "lucide-react";
+import { useState } from "react";
+import {
+	REPORT_DETAILS_MAX_LENGTH,
+	REPORT_REASONS,
+	useAuth,
+	useForumReportMutation,
+} from "../hooks";
+import type { ForumReportReason } from "../types/database";
+import "./report-form.css";
+
+interface ReportFormProps {
+	threadId?: string;
+	postId?: string;
+	onClose: () => void;
+}
+
+/**
+ * Report a forum thread or post to the admins
+ */
+export default function ReportForm({
+	threadId,
+	postId,
+	onClose,
+}: ReportFormProps) {
+	const { user } = useAuth();
+	const { report, isReporting, reportResult, reportError } =
+		useForumReportMutation();
+
+	const [reason, setReason] = useState<ForumReportReason>("spam");
+	const [details, setDetails] = useState("");
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user) return;
+
+		report({ reporterId: user.id, threadId, postId, reason, details });
+	};
+
+	if (reportResult) {
+		return (
+			<aside className="report-form" aria-label="Report sent">
+				<p className="report-form__success">
+					Thanks, an admin will review your report.
+				</p>
+				<button
+					type="button"
+					className="forum-button secondary"
+					onClick={onClose}
+				>
+					Close
+				</button>
+			</aside>
+		);
+	}
+
+	return (
+		<form className="report-form" onSubmit={handleSubmit}>
+			<p className="report-form__title">
+				<Flag size={16} /> Report this {postId ? "post" : "thread"}
+			</p>
+			<select
+				className="forum-input"
+				value={reason}
+				onChange={(e) => setReason(e.target.value as ForumReportReason)}
+				aria-label="Reason"
+			>
+				{Object.entries(REPORT_REASONS).map(([value, label]) => (
+					<option key={value} value={value}>
+						{label}
+					</option>
+				))}
+			</select>
+			<textarea
+				className="forum-input"
+				value={details}
+				onChange={(e) => setDetails(e.target.value)}
+				placeholder="Add details for the admins (optional)"
+				maxLength={REPORT_DETAILS_MAX_LENGTH}
+				rows={2}
+			/>
+			{reportError && <p className="forum-error">{reportError.message}</p>}
+			<div className="forum-form-actions">
+				<button
+					type="button"
+					className="forum-button secondary"
+					onClick={onClose}
+				>
+					Cancel
+				</button>
+				<button type="submit" className="forum-button" disabled={isReporting}>
+					{isReporting ? "Sending..." : "Send report"}
+				</button>
+			</div>
+		</form>
+	);
+}
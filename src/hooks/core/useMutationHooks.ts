@@ -5,7 +5,11 @@
  * optimistic updates, and cache management for consistent behavior.
  */
 
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+	type MutateOptions,
+	useMutation,
+	useQueryClient,
+} from "@tanstack/react-query";
 import { useCallback } from "react";
 
 import type { QueryKeyFactory } from "../utils/queryKeys";
@@ -86,8 +90,11 @@ export interface DeleteMutationConfig extends BaseMutationConfig<void, string> {
  * Mutation result interface
  */
 export interface MutationResult<TData, TVariables> {
-	/** Execute mutation */
-	mutate: (variables: TVariables) => void;
+	/** Execute mutation, with optional callbacks for this call only */
+	mutate: (
+		variables: TVariables,
+		options?: MutateOptions<TData, Error, TVariables>,
+	) => void;
 	/** Execute mutation asynchronously */
 	mutateAsync: (variables: TVariables) => Promise<TData>;
 	/** Whether mutation is in progress */
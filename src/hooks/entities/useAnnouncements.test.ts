@@ -0,0 +1,95 @@
+/**
+ * Basic compatibility test for the unified useAnnouncements hook
+ */
+
+import { describe, it, expect } from "vitest";
+
+// Test that the hook can be imported and has the expected interface
+describe("useAnnouncements API Compatibility", () => {
+	it("should export useAnnouncements default function", async () => {
+		const { default: useAnnouncements } = await import("./useAnnouncements");
+		expect(typeof useAnnouncements).toBe("function");
+	});
+
+	it("should export feed, management and header hooks", async () => {
+		const {
+			useAnnouncementFeed,
+			useManagedAnnouncements,
+			useHeaderAnnouncements,
+			useAnnouncementMutations,
+		} = await import("./useAnnouncements");
+		expect(typeof useAnnouncementFeed).toBe("function");
+		expect(typeof useManagedAnnouncements).toBe("function");
+		expect(typeof useHeaderAnnouncements).toBe("function");
+		expect(typeof useAnnouncementMutations).toBe("function");
+	});
+
+	it("should export announcement query keys", async () => {
+		const { announcementQueryKeys } = await import("./useAnnouncements");
+		expect(announcementQueryKeys.all()).toEqual(["announcements"]);
+	});
+
+	it("should tell drafts, scheduled and published announcements apart", async () => {
+		const { getAnnouncementState } = await import("./useAnnouncements");
+		const now = new Date("2025-03-01T12:00:00Z");
+
+		expect(
+			getAnnouncementState(
+				{ status: "published", publish_at: "2025-03-01T08:00:00Z" },
+				now,
+			),
+		).toBe("published");
+		expect(
+			getAnnouncementState(
+				{ status: "published", publish_at: "2025-03-02T08:00:00Z" },
+				now,
+			),
+		).toBe("scheduled");
+		expect(
+			getAnnouncementState(
+				{ status: "draft", publish_at: "2025-02-01T08:00:00Z" },
+				now,
+			),
+		).toBe("draft");
+		expect(
+			getAnnouncementState(
+				{ status: "archived", publish_at: "2025-02-01T08:00:00Z" },
+				now,
+			),
+		).toBe("archived");
+	});
+
+	it("should keep urgent announcements in the header for two days", async () => {
+		const { isInHeader } = await import("./useAnnouncements");
+		const announcement = {
+			status: "published" as const,
+			publish_at: "2025-03-01T00:00:00Z",
+			is_urgent: true,
+			show_in_header: true,
+		};
+
+		expect(isInHeader(announcement, new Date("2025-02-28T23:00:00Z"))).toBe(
+			false,
+		);
+		expect(isInHeader(announcement, new Date("2025-03-02T23:59:59Z"))).toBe(
+			true,
+		);
+		expect(isInHeader(announcement, new Date("2025-03-03T00:00:00Z"))).toBe(
+			false,
+		);
+		expect(
+			isInHeader(
+				{ ...announcement, show_in_header: false },
+				new Date("2025-03-01T12:00:00Z"),
+			),
+		).toBe(false);
+	});
+
+	it("should count unread announcements", async () => {
+		const { countUnread } = await import("./useAnnouncements");
+		expect(
+			countUnread([{ is_read: true }, { is_read: false }, { is_read: false }]),
+		).toBe(2);
+		expect(countUnread([])).toBe(0);
+	});
+});
@@ -0,0 +1,397 @@
+/**
+ * Unified Announcements Hook
+ *
+ * Association announcements: the feed of the user's associations
+ * with per-user read state, officer drafts and scheduling, and
+ * urgent announcements relayed to the header banner.
+ */
+
+import { supabase } from "../../lib/supabase";
+import type {
+	Announcement,
+	AnnouncementStatus,
+	Association,
+} from "../../types/database";
+
+// Import new architecture
+import { EntityQueryKeys } from "../utils/queryKeys";
+import { useGenericQuery } from "../core/useGenericQuery";
+import { useCustomMutation } from "../core/useMutationHooks";
+
+/**
+ * Announcement of the feed with its association and read state
+ */
+export interface FeedAnnouncement extends Announcement {
+	association?: Pick<Association, "id" | "name">;
+	is_read: boolean;
+}
+
+/**
+ * Announcement as listed to the officers managing it
+ */
+export interface ManagedAnnouncement extends Announcement {
+	association?: Pick<Association, "id" | "name">;
+}
+
+export type AnnouncementSaveData = Pick<
+	Announcement,
+	| "association_id"
+	| "title"
+	| "content"
+	| "status"
+	| "publish_at"
+	| "is_urgent"
+	| "show_in_header"
+> & {
+	id?: string;
+	created_by: string;
+};
+
+export type AnnouncementState =
+	| "draft"
+	| "scheduled"
+	| "published"
+	| "archived";
+
+export const ANNOUNCEMENT_STATE_LABELS: Record<AnnouncementState, string> = {
+	draft: "Draft",
+	scheduled: "Scheduled",
+	published: "Published",
+	archived: "Archived",
+};
+
+export const ANNOUNCEMENT_CONTENT_MAX_LENGTH = 5000;
+
+/**
+ * How long an urgent announcement stays in the header banner (ms)
+ */
+export const URGENT_HEADER_DURATION = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * How often the feed is refetched so scheduled announcements show up (ms)
+ */
+const ANNOUNCEMENT_REFRESH_INTERVAL = 60 * 1000;
+
+const ANNOUNCEMENT_SELECT = "*, association:associations(id, name)";
+
+/**
+ * Announcement query keys using the new unified system
+ */
+const announcementQueryKeys = new EntityQueryKeys("announcements");
+
+/**
+ * Where an announcement stands for its officers
+ * A published announcement with a future date is scheduled
+ */
+export function getAnnouncementState(
+	announcement: Pick<Announcement, "status" | "publish_at">,
+	now: Date = new Date(),
+): AnnouncementState {
+	if (announcement.status !== "published") return announcement.status;
+	return new Date(announcement.publish_at) > now ? "scheduled" : "published";
+}
+
+/**
+ * Whether an urgent announcement is currently relayed to the header banner
+ */
+export function isInHeader(
+	announcement: Pick<
+		Announcement,
+		"status" | "publish_at" | "is_urgent" | "show_in_header"
+	>,
+	now: Date = new Date(),
+): boolean {
+	const publishedAt = new Date(announcement.publish_at).getTime();
+	return (
+		announcement.status === "published" &&
+		announcement.is_urgent &&
+		announcement.show_in_header &&
+		publishedAt <= now.getTime() &&
+		now.getTime() < publishedAt + URGENT_HEADER_DURATION
+	);
+}
+
+/**
+ * Number of announcements the user has not opened yet
+ */
+export function countUnread(
+	announcements: Pick<FeedAnnouncement, "is_read">[],
+): number {
+	return announcements.filter((announcement) => !announcement.is_read).length;
+}
+
+/**
+ * Fetch the associations a user belongs to
+ */
+async function fetchMemberAssociationIds(userId: string): Promise<string[]> {
+	const { data, error } = await supabase
+		.from("association_members")
+		.select("association_id")
+		.eq("user_id", userId);
+
+	if (error) throw error;
+	return (data || []).map((membership) => membership.association_id);
+}
+
+/**
+ * Fetch the published announcements of the user's associations, latest first
+ */
+async function fetchAnnouncementFeed(
+	userId: string,
+): Promise<FeedAnnouncement[]> {
+	if (!userId) return [];
+
+	const associationIds = await fetchMemberAssociationIds(userId);
+	if (associationIds.length === 0) return [];
+
+	const { data, error } = await supabase
+		.from("announcements")
+		.select(`${ANNOUNCEMENT_SELECT}, reads:announcement_reads(user_id)`)
+		.in("association_id", associationIds)
+		.eq("status", "published")
+		.lte("publish_at", new Date().toISOString())
+		// Only the user's own read receipt is embedded
+		.eq("reads.user_id", userId)
+		.order("publish_at", { ascending: false });
+
+	if (error) throw error;
+	return (data || []).map(({ reads, ...announcement }) => ({
+		...announcement,
+		is_read: (reads || []).length > 0,
+	}));
+}
+
+/**
+ * Fetch every announcement of the associations an officer manages
+ */
+async function fetchManagedAnnouncements(
+	associationIds: string[],
+): Promise<ManagedAnnouncement[]> {
+	if (associationIds.length === 0) return [];
+
+	const { data, error } = await supabase
+		.from("announcements")
+		.select(ANNOUNCEMENT_SELECT)
+		.in("association_id", associationIds)
+		.order("publish_at", { ascending: false });
+
+	if (error) throw error;
+	return data || [];
+}
+
+/**
+ * Fetch the urgent announcements relayed to the header
+ * (announcements_select_members limits them to members)
+ */
+async function fetchHeaderAnnouncements(): Promise<ManagedAnnouncement[]> {
+	const now = new Date();
+
+	const { data, error } = await supabase
+		.from("announcements")
+		.select(ANNOUNCEMENT_SELECT)
+		.eq("status", "published")
+		.eq("is_urgent", true)
+		.eq("show_in_header", true)
+		.lte("publish_at", now.toISOString())
+		.gt(
+			"publish_at",
+			new Date(now.getTime() - URGENT_HEADER_DURATION).toISOString(),
+		)
+		.order("publish_at", { ascending: false });
+
+	if (error) throw error;
+	return data || [];
+}
+
+/**
+ * Hook for the announcements feed of a user
+ */
+export function useAnnouncementFeed(userId: string) {
+	const feedQuery = useGenericQuery<FeedAnnouncement[]>({
+		queryKey: announcementQueryKeys.byUser(userId),
+		queryFn: () => fetchAnnouncementFeed(userId),
+		entityName: "announcements",
+		operationName: "fetchFeed",
+		additionalOptions: {
+			enabled: !!userId,
+		},
+		// Scheduled announcements appear without reloading the page
+		cacheOverrides: {
+			refetchInterval: ANNOUNCEMENT_REFRESH_INTERVAL,
+		},
+	});
+	const announcements = feedQuery.data || [];
+
+	return {
+		announcements,
+		unreadCount: countUnread(announcements),
+		isLoading: feedQuery.isLoading,
+		error: feedQuery.error,
+		errorMessage: feedQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for the announcements of the associations an officer manages
+ */
+export function useManagedAnnouncements(associationIds: string[]) {
+	const managedQuery = useGenericQuery<ManagedAnnouncement[]>({
+		queryKey: announcementQueryKeys.byFilter({ associationIds }),
+		queryFn: () => fetchManagedAnnouncements(associationIds),
+		entityName: "announcements",
+		operationName: "fetchManaged",
+		additionalOptions: {
+			enabled: associationIds.length > 0,
+		},
+	});
+
+	return {
+		announcements: managedQuery.data || [],
+		isLoading: managedQuery.isLoading,
+		error: managedQuery.error,
+		errorMessage: managedQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for the urgent announcements shown in the header banner
+ */
+export function useHeaderAnnouncements() {
+	return useGenericQuery<ManagedAnnouncement[]>({
+		queryKey: [...announcementQueryKeys.lists(), "header"],
+		queryFn: fetchHeaderAnnouncements,
+		entityName: "announcements",
+		operationName: "fetchHeader",
+		cacheOverrides: {
+			refetchInterval: ANNOUNCEMENT_REFRESH_INTERVAL,
+		},
+	});
+}
+
+/**
+ * Hook for writing, publishing and reading announcements
+ */
+export function useAnnouncementMutations() {
+	// Only the officers of the association can write its announcements
+	// (announcements_insert_officers, announcements_update_officers)
+	const saveAnnouncementMutation = useCustomMutation(
+		async ({
+			id,
+			...announcementData
+		}: AnnouncementSaveData): Promise<Announcement> => {
+			const { data, error } = id
+				? await supabase
+						.from("announcements")
+						.update({
+							...announcementData,
+							updated_at: new Date().toISOString(),
+						})
+						.eq("id", id)
+						.select()
+						.single()
+				: await supabase
+						.from("announcements")
+						.insert([announcementData])
+						.select()
+						.single();
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: announcementQueryKeys,
+			entityName: "announcements",
+			operationName: "save",
+		},
+	);
+
+	// Publish a draft, archive or restore an announcement
+	const setStatusMutation = useCustomMutation(
+		async ({
+			id,
+			status,
+		}: {
+			id: string;
+			status: AnnouncementStatus;
+		}): Promise<Announcement> => {
+			const now = new Date().toISOString();
+			const { data, error } = await supabase
+				.from("announcements")
+				.update({
+					status,
+					updated_at: now,
+					// A draft published from the list goes out right away
+					...(status === "published" ? { publish_at: now } : {}),
+				})
+				.eq("id", id)
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: announcementQueryKeys,
+			entityName: "announcements",
+			operationName: "setStatus",
+		},
+	);
+
+	// Receipts already recorded are left untouched
+	const markAsReadMutation = useCustomMutation(
+		async ({
+			announcementIds,
+			userId,
+		}: {
+			announcementIds: string[];
+			userId: string;
+		}) => {
+			if (announcementIds.length === 0) return;
+
+			const { error } = await supabase.from("announcement_reads").upsert(
+				announcementIds.map((announcementId) => ({
+					announcement_id: announcementId,
+					user_id: userId,
+				})),
+				{ onConflict: "announcement_id,user_id", ignoreDuplicates: true },
+			);
+
+			if (error) throw error;
+		},
+		{
+			queryKeys: announcementQueryKeys,
+			entityName: "announcement_reads",
+			operationName: "markAsRead",
+		},
+	);
+
+	return {
+		saveAnnouncement: saveAnnouncementMutation.mutate,
+		setAnnouncementStatus: setStatusMutation.mutate,
+		markAsRead: markAsReadMutation.mutate,
+
+		isSavingAnnouncement: saveAnnouncementMutation.isPending,
+		isSettingStatus: setStatusMutation.isPending,
+		isMarkingAsRead: markAsReadMutation.isPending,
+
+		saveAnnouncementError: saveAnnouncementMutation.error,
+		setStatusError: setStatusMutation.error,
+		markAsReadError: markAsReadMutation.error,
+
+		reset: () => {
+			saveAnnouncementMutation.reset();
+			setStatusMutation.reset();
+			markAsReadMutation.reset();
+		},
+	};
+}
+
+/**
+ * Export query keys for external use
+ */
+export { announcementQueryKeys };
+
+/**
+ * Default export - announcements feed of a user
+ */
+export default useAnnouncementFeed;
@@ -0,0 +1,87 @@
+/**
+ * Basic compatibility test for the unified useAssociations hook
+ */
+
+import { describe, it, expect } from "vitest";
+
+// Test that the hook can be imported and has the expected interface
+describe("useAssociations API Compatibility", () => {
+	it("should export useAssociations default function", async () => {
+		const { default: useAssociations } = await import("./useAssociations");
+		expect(typeof useAssociations).toBe("function");
+	});
+
+	it("should export association and membership hooks", async () => {
+		const {
+			useAssociationsCRUD,
+			useAssociationList,
+			useAssociation,
+			useAssociationMembers,
+			useUserMemberships,
+			useAssociationMembershipMutations,
+		} = await import("./useAssociations");
+		expect(typeof useAssociationsCRUD).toBe("function");
+		expect(typeof useAssociationList).toBe("function");
+		expect(typeof useAssociation).toBe("function");
+		expect(typeof useAssociationMembers).toBe("function");
+		expect(typeof useUserMemberships).toBe("function");
+		expect(typeof useAssociationMembershipMutations).toBe("function");
+	});
+
+	it("should export association query keys", async () => {
+		const { associationQueryKeys, associationMemberQueryKeys } = await import(
+			"./useAssociations"
+		);
+		expect(associationQueryKeys.all()).toEqual(["associations"]);
+		expect(associationMemberQueryKeys.all()).toEqual(["association_members"]);
+	});
+
+	it("should only let officers manage roles", async () => {
+		const { isOfficer, getAssignableRoles } = await import("./useAssociations");
+
+		expect(isOfficer("president")).toBe(true);
+		expect(isOfficer("secretary")).toBe(true);
+		expect(isOfficer("member")).toBe(false);
+		expect(isOfficer(undefined)).toBe(false);
+
+		expect(getAssignableRoles("president", "member")).toEqual([
+			"president",
+			"secretary",
+			"member",
+		]);
+		expect(getAssignableRoles("secretary", "member")).toEqual([
+			"secretary",
+			"member",
+		]);
+		expect(getAssignableRoles("secretary", "president")).toEqual([]);
+		expect(getAssignableRoles("member", "member")).toEqual([]);
+	});
+
+	it("should list officers first, then by join date", async () => {
+		const { sortMembersByRole } = await import("./useAssociations");
+		const members = [
+			{ id: "a", role: "member", joined_at: "2025-01-01T00:00:00.000Z" },
+			{ id: "b", role: "secretary", joined_at: "2025-02-01T00:00:00.000Z" },
+			{ id: "c", role: "member", joined_at: "2024-12-01T00:00:00.000Z" },
+			{ id: "d", role: "president", joined_at: "2025-03-01T00:00:00.000Z" },
+		] as const;
+
+		expect(sortMembersByRole([...members]).map((member) => member.id)).toEqual([
+			"d",
+			"b",
+			"c",
+			"a",
+		]);
+	});
+
+	it("should read role change error codes", async () => {
+		const { getAssociationRoleErrorCode } = await import("./useAssociations");
+
+		expect(
+			getAssociationRoleErrorCode({
+				details: "last_president",
+			} as Parameters<typeof getAssociationRoleErrorCode>[0]),
+		).toBe("last_president");
+		expect(getAssociationRoleErrorCode(null)).toBeUndefined();
+	});
+});
@@ -0,0 +1,482 @@
+/**
+ * Unified Associations Hook
+ *
+ * Neighbourhood associations: directory, membership
+ * and officer roles (president, secretary, member).
+ */
+
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "../../lib/supabase";
+import type {
+	Association,
+	AssociationMember,
+	AssociationRole,
+	Profile,
+} from "../../types/database";
+
+// Import new architecture
+import { EntityQueryKeys } from "../utils/queryKeys";
+import { useGenericQuery } from "../core/useGenericQuery";
+import { type CRUDConfig, useGenericCRUD } from "../core/useGenericCRUD";
+import { useCustomMutation } from "../core/useMutationHooks";
+import type { AppError } from "../utils/errorHandling";
+
+/**
+ * Association with its number of members
+ */
+export interface AssociationSummary extends Association {
+	member_count: number;
+}
+
+/**
+ * Member with their profile
+ */
+export interface AssociationMemberWithProfile extends AssociationMember {
+	profile?: Pick<Profile, "id" | "username" | "full_name" | "avatar_url">;
+}
+
+export type AssociationCreateData = Pick<
+	Association,
+	"name" | "description" | "category" | "website" | "phone" | "email"
+> & {
+	created_by: string;
+};
+
+export const ASSOCIATION_ROLES: Record<AssociationRole, string> = {
+	president: "President",
+	secretary: "Secretary",
+	member: "Member",
+};
+
+export const ASSOCIATION_CATEGORIES = [
+	"community",
+	"sports",
+	"culture",
+	"environment",
+	"security",
+	"religious",
+	"other",
+] as const;
+
+export type AssociationRoleErrorCode =
+	| "not_officer"
+	| "president_only"
+	| "last_president"
+	| "member_not_found"
+	| "invalid_role";
+
+export const ASSOCIATION_ROLE_ERRORS: Record<AssociationRoleErrorCode, string> =
+	{
+		not_officer: "Only association officers can change roles",
+		president_only: "Only the president can change this role",
+		last_president: "Name another president first",
+		member_not_found: "This resident is not a member",
+		invalid_role: "Unknown role",
+	};
+
+// Officers first, then by join date
+const ROLE_ORDER: AssociationRole[] = ["president", "secretary", "member"];
+
+const MEMBER_PROFILE_SELECT = "id, username, full_name, avatar_url";
+
+/**
+ * Association query keys using the new unified system
+ */
+const associationQueryKeys = new EntityQueryKeys("associations");
+const associationMemberQueryKeys = new EntityQueryKeys("association_members");
+
+/**
+ * Whether a role can manage the roles of other members
+ */
+export function isOfficer(role?: AssociationRole): boolean {
+	return role === "president" || role === "secretary";
+}
+
+/**
+ * Roles an officer can give to a member
+ * Only a president can name or demote a president
+ */
+export function getAssignableRoles(
+	actorRole: AssociationRole | undefined,
+	memberRole: AssociationRole,
+): AssociationRole[] {
+	if (actorRole === "president") return ROLE_ORDER;
+	if (actorRole === "secretary" && memberRole !== "president") {
+		return ["secretary", "member"];
+	}
+	return [];
+}
+
+/**
+ * Sort members with officers first, then by join date
+ */
+export function sortMembersByRole<
+	T extends Pick<AssociationMember, "role" | "joined_at">,
+>(members: T[]): T[] {
+	return [...members].sort(
+		(a, b) =>
+			ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role) ||
+			a.joined_at.localeCompare(b.joined_at),
+	);
+}
+
+/**
+ * Read the code of a failed role change
+ */
+export function getAssociationRoleErrorCode(
+	error: AppError | null | undefined,
+): AssociationRoleErrorCode | undefined {
+	const code = error?.details;
+	return typeof code === "string" && code in ASSOCIATION_ROLE_ERRORS
+		? (code as AssociationRoleErrorCode)
+		: undefined;
+}
+
+/**
+ * Flatten the embedded member count returned by PostgREST
+ */
+function withMemberCount({
+	members,
+	...association
+}: Association & { members?: { count: number }[] }): AssociationSummary {
+	return { ...association, member_count: members?.[0]?.count ?? 0 };
+}
+
+/**
+ * Fetch the active associations with their member count
+ */
+async function fetchAssociations(): Promise<AssociationSummary[]> {
+	const { data, error } = await supabase
+		.from("associations")
+		.select("*, members:association_members(count)")
+		.eq("is_active", true)
+		.order("name", { ascending: true });
+
+	if (error) throw error;
+	return (data || []).map(withMemberCount);
+}
+
+/**
+ * Fetch an association by ID
+ */
+async function fetchAssociationById(id: string): Promise<AssociationSummary> {
+	const { data, error } = await supabase
+		.from("associations")
+		.select("*, members:association_members(count)")
+		.eq("id", id)
+		.single();
+
+	if (error) throw error;
+	return withMemberCount(data);
+}
+
+/**
+ * Fetch the associations a user belongs to
+ */
+async function fetchAssociationsByUser(
+	userId: string,
+): Promise<AssociationSummary[]> {
+	const { data, error } = await supabase
+		.from("associations")
+		.select(
+			"*, members:association_members(count), membership:association_members!inner(user_id)",
+		)
+		.eq("membership.user_id", userId)
+		.order("name", { ascending: true });
+
+	if (error) throw error;
+	return (data || []).map(({ membership: _, ...association }) =>
+		withMemberCount(association),
+	);
+}
+
+/**
+ * CRUD configuration of associations (creation is restricted to admins,
+ * associations_insert_admins)
+ */
+const associationsCRUDConfig: CRUDConfig<
+	AssociationSummary,
+	AssociationCreateData,
+	Partial<Association>
+> = {
+	entityName: "associations",
+	queryKeys: associationQueryKeys,
+	tableName: "associations",
+	queryFn: fetchAssociations,
+	queryByIdFn: fetchAssociationById,
+	queryByUserFn: fetchAssociationsByUser,
+	createFn: async (associationData) => {
+		const { data, error } = await supabase
+			.from("associations")
+			.insert([associationData])
+			.select()
+			.single();
+
+		if (error) throw error;
+		// The creator is added as president by a trigger
+		return { ...data, member_count: 1 };
+	},
+	updateFn: async (id, associationData) => {
+		const { data, error } = await supabase
+			.from("associations")
+			.update(associationData)
+			.eq("id", id)
+			.select("*, members:association_members(count)")
+			.single();
+
+		if (error) throw error;
+		return withMemberCount(data);
+	},
+	deleteFn: async (id) => {
+		const { error } = await supabase.from("associations").delete().eq("id", id);
+
+		if (error) throw error;
+	},
+};
+
+/**
+ * Fetch the members of an association with their profile
+ */
+async function fetchAssociationMembers(
+	associationId: string,
+): Promise<AssociationMemberWithProfile[]> {
+	if (!associationId) return [];
+
+	const { data, error } = await supabase
+		.from("association_members")
+		.select(
+			`*, profile:profiles!association_members_user_id_fkey(${MEMBER_PROFILE_SELECT})`,
+		)
+		.eq("association_id", associationId);
+
+	if (error) throw error;
+	return sortMembersByRole(data || []);
+}
+
+/**
+ * Fetch the memberships of a user
+ */
+async function fetchUserMemberships(
+	userId: string,
+): Promise<AssociationMember[]> {
+	if (!userId) return [];
+
+	const { data, error } = await supabase
+		.from("association_members")
+		.select("*")
+		.eq("user_id", userId);
+
+	if (error) throw error;
+	return data || [];
+}
+
+/**
+ * Generic CRUD hooks for associations
+ */
+export function useAssociationsCRUD() {
+	return useGenericCRUD(associationsCRUDConfig);
+}
+
+/**
+ * Hook for the associations directory
+ */
+export function useAssociationList() {
+	return useAssociationsCRUD().useList();
+}
+
+/**
+ * Hook for a single association
+ */
+export function useAssociation(associationId: string) {
+	return useAssociationsCRUD().useById(associationId);
+}
+
+/**
+ * Hook for the members of an association
+ */
+export function useAssociationMembers(associationId: string) {
+	const membersQuery = useGenericQuery<AssociationMemberWithProfile[]>({
+		queryKey: associationMemberQueryKeys.byFilter({ associationId }),
+		queryFn: () => fetchAssociationMembers(associationId),
+		entityName: "association_members",
+		operationName: "fetchByAssociation",
+		additionalOptions: {
+			enabled: !!associationId,
+		},
+	});
+
+	return {
+		members: membersQuery.data || [],
+		isLoading: membersQuery.isLoading,
+		error: membersQuery.error,
+		errorMessage: membersQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for the memberships of a user, keyed by association
+ */
+export function useUserMemberships(userId: string) {
+	const membershipsQuery = useGenericQuery<AssociationMember[]>({
+		queryKey: associationMemberQueryKeys.byUser(userId),
+		queryFn: () => fetchUserMemberships(userId),
+		entityName: "association_members",
+		operationName: "fetchByUser",
+		additionalOptions: {
+			enabled: !!userId,
+		},
+	});
+	const memberships = membershipsQuery.data || [];
+
+	return {
+		memberships,
+		getRole: (associationId: string) =>
+			memberships.find(
+				(membership) => membership.association_id === associationId,
+			)?.role,
+		isLoading: membershipsQuery.isLoading,
+		error: membershipsQuery.error,
+	};
+}
+
+/**
+ * Hook for joining, leaving and managing the roles of an association
+ */
+export function useAssociationMembershipMutations() {
+	const queryClient = useQueryClient();
+	// Refresh the member counts of the directory
+	const refreshAssociations = () =>
+		queryClient.invalidateQueries({ queryKey: associationQueryKeys.all() });
+
+	const joinMutation = useCustomMutation(
+		async ({
+			associationId,
+			userId,
+		}: {
+			associationId: string;
+			userId: string;
+		}): Promise<AssociationMember> => {
+			const { data, error } = await supabase
+				.from("association_members")
+				.insert([
+					{ association_id: associationId, user_id: userId, role: "member" },
+				])
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: associationMemberQueryKeys,
+			entityName: "association_members",
+			operationName: "join",
+			onSuccess: refreshAssociations,
+		},
+	);
+
+	const leaveMutation = useCustomMutation(
+		async ({
+			associationId,
+			userId,
+		}: {
+			associationId: string;
+			userId: string;
+		}) => {
+			const { error } = await supabase
+				.from("association_members")
+				.delete()
+				.eq("association_id", associationId)
+				.eq("user_id", userId);
+
+			if (error) throw error;
+		},
+		{
+			queryKeys: associationMemberQueryKeys,
+			entityName: "association_members",
+			operationName: "leave",
+			onSuccess: refreshAssociations,
+		},
+	);
+
+	// Role changes are checked server side against the officer's own role
+	const setRoleMutation = useCustomMutation(
+		async ({
+			associationId,
+			userId,
+			role,
+		}: {
+			associationId: string;
+			userId: string;
+			role: AssociationRole;
+		}) => {
+			const { data, error } = await supabase.rpc(
+				"set_association_member_role",
+				{
+					p_association_id: associationId,
+					p_user_id: userId,
+					p_role: role,
+				},
+			);
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: associationMemberQueryKeys,
+			entityName: "association_members",
+			operationName: "setRole",
+		},
+	);
+
+	const setRoleErrorCode = getAssociationRoleErrorCode(setRoleMutation.error);
+
+	return {
+		join: joinMutation.mutate,
+		leave: leaveMutation.mutate,
+		setRole: setRoleMutation.mutate,
+
+		isJoining: joinMutation.isPending,
+		isLeaving: leaveMutation.isPending,
+		isSettingRole: setRoleMutation.isPending,
+
+		joinError: joinMutation.error,
+		leaveError: leaveMutation.error,
+		setRoleError: setRoleMutation.error,
+		setRoleErrorMessage: setRoleErrorCode
+			? ASSOCIATION_ROLE_ERRORS[setRoleErrorCode]
+			: setRoleMutation.error?.message,
+
+		reset: () => {
+			joinMutation.reset();
+			leaveMutation.reset();
+			setRoleMutation.reset();
+		},
+	};
+}
+
+/**
+ * Export query keys for external use
+ */
+export { associationQueryKeys, associationMemberQueryKeys };
+
+/**
+ * Default export - associations directory with its CRUD operations
+ */
+export default function useAssociations() {
+	const associationsCRUD = useAssociationsCRUD();
+	const associationsQuery = associationsCRUD.useList();
+	const createAssociationMutation = associationsCRUD.useCreate();
+
+	return {
+		associations: associationsQuery.data || [],
+		isLoading: associationsQuery.isLoading,
+		error: associationsQuery.error,
+		errorMessage: associationsQuery.errorMessage,
+
+		createAssociation: createAssociationMutation.mutate,
+		isCreatingAssociation: createAssociationMutation.isPending,
+		createAssociationError: createAssociationMutation.error,
+		resetCreateAssociation: createAssociationMutation.reset,
+	};
+}
@@ -0,0 +1,81 @@
+/**
+ * Basic compatibility test for the unified useBoosts hook
+ */
+
+import { describe, it, expect } from "vitest";
+
+// Test that the hook can be imported and has the expected interface
+describe("useBoosts API Compatibility", () => {
+	it("should export useBoostMutation function", async () => {
+		const { useBoostMutation, default: useBoosts } = await import(
+			"./useBoosts"
+		);
+		expect(typeof useBoostMutation).toBe("function");
+		expect(useBoosts).toBe(useBoostMutation);
+	});
+
+	it("should export boost query keys", async () => {
+		const { boostQueryKeys } = await import("./useBoosts");
+		expect(boostQueryKeys).toBeDefined();
+		expect(typeof boostQueryKeys.all).toBe("function");
+	});
+
+	it("should only treat unexpired boosts as featured", async () => {
+		const { isFeaturedActive } = await import("./useBoosts");
+		const now = new Date("2025-03-01T12:00:00.000Z");
+
+		expect(isFeaturedActive({ is_featured: false }, now)).toBe(false);
+		expect(isFeaturedActive({ is_featured: true }, now)).toBe(true);
+		expect(
+			isFeaturedActive(
+				{ is_featured: true, featured_until: "2025-03-02T00:00:00.000Z" },
+				now,
+			),
+		).toBe(true);
+		expect(
+			isFeaturedActive(
+				{ is_featured: true, featured_until: "2025-03-01T00:00:00.000Z" },
+				now,
+			),
+		).toBe(false);
+	});
+
+	it("should pin featured items and keep the order of the others", async () => {
+		const { sortFeaturedFirst } = await import("./useBoosts");
+		const now = new Date("2025-03-01T12:00:00.000Z");
+		const items = [
+			{ id: "a", is_featured: false },
+			{
+				id: "b",
+				is_featured: true,
+				featured_until: "2025-02-28T00:00:00.000Z",
+			},
+			{ id: "c", is_featured: false },
+			{
+				id: "d",
+				is_featured: true,
+				featured_until: "2025-03-05T00:00:00.000Z",
+			},
+		];
+
+		expect(sortFeaturedFirst(items, now).map((item) => item.id)).toEqual([
+			"d",
+			"a",
+			"b",
+			"c",
+		]);
+	});
+
+	it("should extend a running boost instead of restarting it", async () => {
+		const { getBoostExpiry } = await import("./useBoosts");
+		const now = new Date("2025-03-01T12:00:00.000Z");
+
+		expect(getBoostExpiry(1, undefined, now)).toBe("2025-03-02T12:00:00.000Z");
+		expect(getBoostExpiry(1, "2025-03-03T00:00:00.000Z", now)).toBe(
+			"2025-03-04T00:00:00.000Z",
+		);
+		expect(getBoostExpiry(3, "2025-02-01T00:00:00.000Z", now)).toBe(
+			"2025-03-04T12:00:00.000Z",
+		);
+	});
+});
@@ -0,0 +1,168 @@
+/**
+ * Unified Boosts Hook
+ *
+ * Coin-paid featured periods for marketplace listings and businesses.
+ * Boosted items are pinned at the top of their list until the period ends.
+ */
+
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "../../lib/supabase";
+import type { BoostResult } from "../../types/database";
+
+// Import new architecture
+import { EntityQueryKeys, queryKeys } from "../utils/queryKeys";
+import { useCustomMutation } from "../core/useMutationHooks";
+import { ErrorHandler } from "../utils/errorHandling";
+import { marketplaceQueryKeys } from "./useMarketplace";
+import {
+	businessInsideQueryKeys,
+	businessOutsideQueryKeys,
+} from "./useBusinesses";
+import { coinTransactionQueryKeys } from "./useCoins";
+
+/**
+ * Items that can be boosted, by the table they live in
+ */
+export type BoostTarget =
+	| "marketplace_listings"
+	| "user_business_inside"
+	| "user_business_outside";
+
+/**
+ * Boost durations and their price in coins (mirrors boost_featured())
+ */
+export const BOOST_DURATIONS = [
+	{ id: "1d", label: "1 day", days: 1, coins: 3 },
+	{ id: "3d", label: "3 days", days: 3, coins: 7 },
+	{ id: "1w", label: "1 week", days: 7, coins: 15 },
+] as const;
+
+export type BoostDurationId = (typeof BOOST_DURATIONS)[number]["id"];
+
+/**
+ * Query keys of the lists showing each target
+ */
+const boostTargetQueryKeys: Record<BoostTarget, EntityQueryKeys> = {
+	marketplace_listings: marketplaceQueryKeys,
+	user_business_inside: businessInsideQueryKeys,
+	user_business_outside: businessOutsideQueryKeys,
+};
+
+/**
+ * Boost query keys using the new unified system
+ */
+const boostQueryKeys = new EntityQueryKeys("boosts");
+
+/**
+ * Whether an item is currently featured
+ * Like header announcements, an item without end date stays featured
+ */
+export function isFeaturedActive(
+	item: { is_featured?: boolean; featured_until?: string | null },
+	now: Date = new Date(),
+): boolean {
+	if (!item.is_featured) return false;
+	return !item.featured_until || new Date(item.featured_until) > now;
+}
+
+/**
+ * Pin featured items at the top, keeping the original order otherwise
+ */
+export function sortFeaturedFirst<
+	T extends { is_featured?: boolean; featured_until?: string | null },
+>(items: T[], now: Date = new Date()): T[] {
+	const featured = items.filter((item) => isFeaturedActive(item, now));
+	const others = items.filter((item) => !isFeaturedActive(item, now));
+	return [...featured, ...others];
+}
+
+/**
+ * End of the featured period once boosted for a number of days
+ * A running boost is extended rather than restarted
+ */
+export function getBoostExpiry(
+	days: number,
+	currentUntil?: string | null,
+	from: Date = new Date(),
+): string {
+	const start =
+		currentUntil && new Date(currentUntil) > from
+			? new Date(currentUntil)
+			: from;
+	return new Date(start.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Hook for boosting a listing or business
+ * Ownership, price and the coin debit are checked by the RPC
+ */
+export function useBoostMutation() {
+	const queryClient = useQueryClient();
+
+	const boostMutation = useCustomMutation(
+		async ({
+			userId,
+			target,
+			targetId,
+			durationId,
+		}: {
+			userId: string;
+			target: BoostTarget;
+			targetId: string;
+			durationId: BoostDurationId;
+		}): Promise<BoostResult> => {
+			const duration = BOOST_DURATIONS.find((d) => d.id === durationId);
+			if (!duration) throw new Error("Unknown boost duration");
+
+			const { data, error } = await supabase.rpc("boost_featured", {
+				p_user_id: userId,
+				p_target_table: target,
+				p_target_id: targetId,
+				p_days: duration.days,
+			});
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: boostQueryKeys,
+			entityName: "boosts",
+			operationName: "boost",
+			// Re-sort the boosted list and refresh the balance and the ledger
+			onSuccess: (_data, { target }) => {
+				queryClient.invalidateQueries({
+					queryKey: boostTargetQueryKeys[target].all(),
+				});
+				queryClient.invalidateQueries({ queryKey: queryKeys.auth.lists() });
+				queryClient.invalidateQueries({
+					queryKey: coinTransactionQueryKeys.all(),
+				});
+			},
+		},
+	);
+
+	const boostError = boostMutation.error
+		? ErrorHandler.handleQueryError(boostMutation.error, "boosts", "boost")
+		: null;
+
+	return {
+		boost: boostMutation.mutate,
+		isBoosting: boostMutation.isPending,
+		boostResult: boostMutation.data,
+		boostError,
+		boostErrorMessage: boostError
+			? ErrorHandler.getUserFriendlyMessage(boostError)
+			: undefined,
+		reset: boostMutation.reset,
+	};
+}
+
+/**
+ * Export query keys for external use
+ */
+export { boostQueryKeys };
+
+/**
+ * Default export - boost mutation
+ */
+export default useBoostMutation;
@@ -19,7 +19,7 @@ import { supabase } from "../../lib/supabase";
 export const businessesQueries = {
 	getInside: async () => {
 		const { data, error } = await supabase
-			.from("businesses_inside")
+			.from("user_business_inside")
 			.select("*")
 			.eq("is_active", true)
 			.order("created_at", { ascending: false });
@@ -30,7 +30,7 @@ export const businessesQueries = {
 
 	getOutside: async () => {
 		const { data, error } = await supabase
-			.from("businesses_outside")
+			.from("user_business_outside")
 			.select("*")
 			.eq("is_active", true)
 			.order("created_at", { ascending: false });
@@ -41,7 +41,7 @@ export const businessesQueries = {
 
 	getUserInside: async (userId: string) => {
 		const { data, error } = await supabase
-			.from("businesses_inside")
+			.from("user_business_inside")
 			.select("*")
 			.eq("profile_id", userId)
 			.order("created_at", { ascending: false });
@@ -52,7 +52,7 @@ export const businessesQueries = {
 
 	getUserOutside: async (userId: string) => {
 		const { data, error } = await supabase
-			.from("businesses_outside")
+			.from("user_business_outside")
 			.select("*")
 			.eq("profile_id", userId)
 			.order("created_at", { ascending: false });
@@ -296,7 +296,7 @@ export function useBusinesses(): UseBusinessesResult {
 			// Use supabase directly for update since queryFunctions doesn't have update
 			const { supabase } = await import("../../lib/supabase");
 			const { data, error } = await supabase
-				.from("businesses_outside")
+				.from("user_business_outside")
 				.update({
 					...updates,
 					updated_at: new Date().toISOString(),
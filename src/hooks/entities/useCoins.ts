@@ -0,0 +1,427 @@
+/**
+ * Unified Coins Hook
+ *
+ * Coin wallet of a user: ledger of credits and debits
+ * with running balance and totals, the daily check-in and transfers
+ * between residents.
+ */
+
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "../../lib/supabase";
+import type {
+	CoinTransaction,
+	CoinTransactionType,
+	CoinTransferResult,
+	DailyCheckinResult,
+} from "../../types/database";
+
+// Import new architecture
+import { EntityQueryKeys, queryKeys } from "../utils/queryKeys";
+import { useGenericQuery } from "../core/useGenericQuery";
+import { useCustomMutation } from "../core/useMutationHooks";
+import { type AppError, ErrorHandler } from "../utils/errorHandling";
+
+/**
+ * Ledger entry with the balance right after it
+ */
+export interface CoinLedgerEntry extends CoinTransaction {
+	balance: number;
+}
+
+/**
+ * Human readable label of each transaction type
+ */
+export const COIN_TRANSACTION_LABELS: Record<CoinTransactionType, string> = {
+	welcome_bonus: "Welcome bonus",
+	monthly_grant: "Monthly grant",
+	daily_checkin: "Daily check-in",
+	header_spend: "Header announcement",
+	streak_bonus: "Check-in streak bonus",
+	transfer_sent: "Sent to a resident",
+	transfer_received: "Received from a resident",
+	boost_spend: "Featured boost",
+};
+
+/**
+ * Check-in days follow the community's calendar, not the device's
+ */
+export const CHECKIN_TIME_ZONE = "Asia/Manila";
+
+/**
+ * Coins awarded by the daily check-in (mirrors daily_checkin())
+ */
+export const DAILY_CHECKIN_COINS = 1;
+
+/**
+ * Extra coins on every Nth consecutive day, largest streak first
+ */
+export const CHECKIN_STREAK_BONUSES = [
+	{ days: 30, coins: 10 },
+	{ days: 7, coins: 3 },
+] as const;
+
+/**
+ * Typed reasons a coin transfer can be rejected
+ * Raised by transfer_coins() in the error details, checked early on the client
+ */
+export type CoinTransferErrorCode =
+	| "insufficient_balance"
+	| "self_transfer"
+	| "invalid_amount"
+	| "recipient_not_found";
+
+export const COIN_TRANSFER_ERRORS: Record<CoinTransferErrorCode, string> = {
+	insufficient_balance: "You don't have enough coins for this transfer",
+	self_transfer: "You can't send coins to yourself",
+	invalid_amount: "Enter a whole number of coins greater than zero",
+	recipient_not_found: "No resident found with this username",
+};
+
+export const COIN_TRANSFER_NOTE_MAX_LENGTH = 80;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const manilaDateFormat = new Intl.DateTimeFormat("en-CA", {
+	timeZone: CHECKIN_TIME_ZONE,
+	year: "numeric",
+	month: "2-digit",
+	day: "2-digit",
+});
+
+/**
+ * Coin transaction query keys using the new unified system
+ */
+const coinTransactionQueryKeys = new EntityQueryKeys("coin_transactions");
+
+/**
+ * Fetch the coin transactions of a user, newest first
+ */
+async function fetchCoinTransactions(
+	userId: string,
+): Promise<CoinTransaction[]> {
+	if (!userId) return [];
+
+	const { data, error } = await supabase
+		.from("coin_transactions")
+		.select("*")
+		.eq("user_id", userId)
+		.order("created_at", { ascending: false });
+
+	if (error) throw error;
+	return data || [];
+}
+
+/**
+ * Attach the running balance to each transaction (newest first),
+ * walking back from the current balance when the server did not record it
+ */
+export function withRunningBalance(
+	transactions: CoinTransaction[],
+	currentBalance: number,
+): CoinLedgerEntry[] {
+	let balance = currentBalance;
+
+	return transactions.map((transaction) => {
+		const entry = {
+			...transaction,
+			balance: transaction.balance_after ?? balance,
+		};
+		balance = entry.balance - transaction.amount;
+		return entry;
+	});
+}
+
+/**
+ * Total credits, debits and net change of a set of transactions
+ */
+export function summarizeTransactions(
+	transactions: Pick<CoinTransaction, "amount">[],
+) {
+	let credits = 0;
+	let debits = 0;
+
+	for (const { amount } of transactions) {
+		if (amount > 0) credits += amount;
+		else debits -= amount;
+	}
+
+	return { credits, debits, net: credits - debits };
+}
+
+/**
+ * Manila calendar day of a date, as YYYY-MM-DD
+ */
+export function getManilaDateKey(date: Date | string = new Date()): string {
+	return manilaDateFormat.format(new Date(date));
+}
+
+/**
+ * Whether the last check-in falls on the current Manila day
+ * Only used to decide whether to prompt, the server has the final say
+ */
+export function hasCheckedInToday(
+	lastCheckin: string | undefined | null,
+	now: Date = new Date(),
+): boolean {
+	if (!lastCheckin) return false;
+	return getManilaDateKey(lastCheckin) === getManilaDateKey(now);
+}
+
+/**
+ * Bonus coins earned when reaching a given streak day
+ */
+export function getStreakBonus(streak: number): number {
+	if (streak <= 0) return 0;
+	const bonus = CHECKIN_STREAK_BONUSES.find(({ days }) => streak % days === 0);
+	return bonus?.coins ?? 0;
+}
+
+/**
+ * Closest upcoming streak bonus after the given streak
+ */
+export function getNextStreakBonus(streak: number) {
+	let next = { daysLeft: Number.POSITIVE_INFINITY, days: 0, coins: 0 };
+
+	for (const { days, coins } of CHECKIN_STREAK_BONUSES) {
+		const target = (Math.floor(streak / days) + 1) * days;
+		const daysLeft = target - streak;
+		if (daysLeft < next.daysLeft) next = { daysLeft, days, coins };
+	}
+
+	return next;
+}
+
+/**
+ * Current and longest streak of consecutive Manila days with a check-in
+ * The current streak is kept alive until the end of the day after
+ * the last check-in
+ */
+export function computeCheckinStreaks(
+	checkins: string[],
+	now: Date = new Date(),
+) {
+	const days = [...new Set(checkins.map((date) => getManilaDateKey(date)))]
+		.map((key) => Date.parse(`${key}T00:00:00Z`) / DAY_MS)
+		.sort((a, b) => a - b);
+
+	let longest = 0;
+	let run = 0;
+	for (let i = 0; i < days.length; i++) {
+		run = i > 0 && days[i] - days[i - 1] === 1 ? run + 1 : 1;
+		longest = Math.max(longest, run);
+	}
+
+	const today = Date.parse(`${getManilaDateKey(now)}T00:00:00Z`) / DAY_MS;
+	const last = days[days.length - 1];
+	const current = last !== undefined && today - last <= 1 ? run : 0;
+
+	return { current, longest };
+}
+
+/**
+ * Check a transfer before sending it
+ * The balance is optional since the server checks it again atomically
+ */
+export function validateCoinTransfer({
+	senderId,
+	recipientId,
+	amount,
+	balance,
+}: {
+	senderId: string;
+	recipientId?: string;
+	amount: number;
+	balance?: number;
+}): CoinTransferErrorCode | null {
+	if (!recipientId) return "recipient_not_found";
+	if (recipientId === senderId) return "self_transfer";
+	if (!Number.isInteger(amount) || amount <= 0) return "invalid_amount";
+	if (balance !== undefined && amount > balance) return "insufficient_balance";
+	return null;
+}
+
+/**
+ * Typed reason of a failed transfer, if it is a known one
+ */
+export function getCoinTransferErrorCode(
+	error: AppError | null | undefined,
+): CoinTransferErrorCode | undefined {
+	const code = error?.details;
+	return typeof code === "string" && code in COIN_TRANSFER_ERRORS
+		? (code as CoinTransferErrorCode)
+		: undefined;
+}
+
+/**
+ * Hook for the coin transactions of a user
+ */
+export function useCoinTransactions(userId: string) {
+	return useGenericQuery<CoinTransaction[]>({
+		queryKey: coinTransactionQueryKeys.byUser(userId),
+		queryFn: () => fetchCoinTransactions(userId),
+		entityName: "coin_transactions",
+		operationName: "fetchByUser",
+		additionalOptions: {
+			enabled: !!userId,
+		},
+	});
+}
+
+/**
+ * Hook for the check-in history of a user, with streaks
+ */
+export function useCheckinHistory(userId: string) {
+	const transactionsQuery = useCoinTransactions(userId);
+	const checkins = (transactionsQuery.data || [])
+		.filter((transaction) => transaction.type === "daily_checkin")
+		.map((transaction) => transaction.created_at);
+
+	return {
+		checkins,
+		checkinDays: new Set(checkins.map((date) => getManilaDateKey(date))),
+		...computeCheckinStreaks(checkins),
+		isLoading: transactionsQuery.isLoading,
+		error: transactionsQuery.error,
+		errorMessage: transactionsQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for the daily check-in
+ * The day and the streak are validated against the server clock
+ */
+export function useDailyCheckinMutation() {
+	const queryClient = useQueryClient();
+
+	const checkinMutation = useCustomMutation(
+		async (userId: string): Promise<DailyCheckinResult> => {
+			const { data, error } = await supabase.rpc("daily_checkin", {
+				p_user_id: userId,
+			});
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: coinTransactionQueryKeys,
+			entityName: "coin_transactions",
+			operationName: "dailyCheckin",
+			// Refresh the balance and last_daily_checkin of the profile
+			onSuccess: () => {
+				queryClient.invalidateQueries({ queryKey: queryKeys.auth.lists() });
+			},
+		},
+	);
+
+	const checkInError = checkinMutation.error
+		? ErrorHandler.handleQueryError(
+				checkinMutation.error,
+				"coin_transactions",
+				"dailyCheckin",
+			)
+		: null;
+
+	return {
+		checkIn: checkinMutation.mutate,
+		isCheckingIn: checkinMutation.isPending,
+		checkInResult: checkinMutation.data,
+		checkInError,
+		checkInErrorMessage: checkInError
+			? ErrorHandler.getUserFriendlyMessage(checkInError)
+			: undefined,
+		reset: checkinMutation.reset,
+	};
+}
+
+/**
+ * Hook for coin transfers between residents
+ * Debit, credit and both ledger entries happen in a single RPC
+ */
+export function useCoinTransferMutation() {
+	const queryClient = useQueryClient();
+
+	const transferMutation = useCustomMutation(
+		async ({
+			senderId,
+			recipientId,
+			amount,
+			note,
+		}: {
+			senderId: string;
+			recipientId: string;
+			amount: number;
+			note?: string;
+		}): Promise<CoinTransferResult> => {
+			const invalid = validateCoinTransfer({ senderId, recipientId, amount });
+			if (invalid) {
+				// Same shape as the errors raised by transfer_coins()
+				throw Object.assign(new Error(COIN_TRANSFER_ERRORS[invalid]), {
+					code: "P0001",
+					details: invalid,
+				});
+			}
+
+			const { data, error } = await supabase.rpc("transfer_coins", {
+				p_sender_id: senderId,
+				p_recipient_id: recipientId,
+				p_amount: amount,
+				p_note: note?.trim().slice(0, COIN_TRANSFER_NOTE_MAX_LENGTH) || null,
+			});
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: coinTransactionQueryKeys,
+			entityName: "coin_transactions",
+			operationName: "transfer",
+			// Refresh the balance shown from the profile
+			onSuccess: () => {
+				queryClient.invalidateQueries({ queryKey: queryKeys.auth.lists() });
+			},
+		},
+	);
+
+	const transferError = transferMutation.error
+		? ErrorHandler.handleQueryError(
+				transferMutation.error,
+				"coin_transactions",
+				"transfer",
+			)
+		: null;
+	const transferErrorCode = getCoinTransferErrorCode(transferError);
+
+	return {
+		transferCoins: transferMutation.mutate,
+		isTransferring: transferMutation.isPending,
+		transferResult: transferMutation.data,
+		transferError,
+		transferErrorCode,
+		transferErrorMessage: transferErrorCode
+			? COIN_TRANSFER_ERRORS[transferErrorCode]
+			: transferError
+				? ErrorHandler.getUserFriendlyMessage(transferError)
+				: undefined,
+		reset: transferMutation.reset,
+	};
+}
+
+/**
+ * Export query keys for external use
+ */
+export { coinTransactionQueryKeys };
+
+/**
+ * Default export - ledger of a user with running balance
+ */
+export default function useCoins(userId: string, currentBalance: number) {
+	const transactionsQuery = useCoinTransactions(userId);
+
+	return {
+		ledger: withRunningBalance(transactionsQuery.data || [], currentBalance),
+		isLoading: transactionsQuery.isLoading,
+		error: transactionsQuery.error,
+		errorMessage: transactionsQuery.errorMessage,
+		refetch: transactionsQuery.refetch,
+	};
+}
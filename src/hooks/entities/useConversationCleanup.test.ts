@@ -0,0 +1,43 @@
+/**
+ * Basic compatibility test for the unified useConversationCleanup hook
+ */
+
+import { describe, it, expect } from "vitest";
+
+// Test that the hook can be imported and has the expected interface
+describe("useConversationCleanup API Compatibility", () => {
+	it("should export useConversationCleanup default function", async () => {
+		const { default: useConversationCleanup } = await import(
+			"./useConversationCleanup"
+		);
+		expect(typeof useConversationCleanup).toBe("function");
+	});
+
+	it("should export useConversationCleanupNotification function", async () => {
+		const { useConversationCleanupNotification } = await import(
+			"./useConversationCleanup"
+		);
+		expect(typeof useConversationCleanupNotification).toBe("function");
+	});
+
+	it("should export useInactiveConversations function", async () => {
+		const { useInactiveConversations } = await import(
+			"./useConversationCleanup"
+		);
+		expect(typeof useInactiveConversations).toBe("function");
+	});
+
+	it("should export useConversationCleanupMutations function", async () => {
+		const { useConversationCleanupMutations } = await import(
+			"./useConversationCleanup"
+		);
+		expect(typeof useConversationCleanupMutations).toBe("function");
+	});
+
+	it("should export cleanup query keys", async () => {
+		const { cleanupQueryKeys } = await import("./useConversationCleanup");
+		expect(cleanupQueryKeys).toBeDefined();
+		expect(typeof cleanupQueryKeys.all).toBe("function");
+		expect(typeof cleanupQueryKeys.byUser).toBe("function");
+	});
+});
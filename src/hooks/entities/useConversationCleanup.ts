@@ -0,0 +1,194 @@
+/**
+ * Unified Conversation Cleanup Hook
+ *
+ * Warns users before their inactive private conversations are purged:
+ * pending cleanup notification, affected conversations and export.
+ */
+
+import { supabase } from "../../lib/supabase";
+import type {
+	ConversationCleanupNotification,
+	Profile,
+} from "../../types/database";
+
+// Import new architecture
+import { EntityQueryKeys } from "../utils/queryKeys";
+import { useGenericQuery } from "../core/useGenericQuery";
+import { useCustomMutation } from "../core/useMutationHooks";
+import { useMessagingConversationMutations } from "./useMessaging";
+
+/**
+ * Conversations without messages for this many days are purged
+ */
+export const CONVERSATION_INACTIVITY_DAYS = 30;
+
+/**
+ * Conversation affected by an upcoming cleanup
+ */
+export interface InactiveConversation {
+	partner: Pick<Profile, "id" | "username" | "avatar_url">;
+	last_message_date: string;
+}
+
+/**
+ * Cleanup query keys using the new unified system
+ */
+const cleanupQueryKeys = new EntityQueryKeys("conversation_cleanup");
+
+/**
+ * Fetch the next unacknowledged cleanup notification of a user
+ */
+async function fetchPendingCleanupNotification(
+	userId: string,
+): Promise<ConversationCleanupNotification | null> {
+	if (!userId) return null;
+
+	const { data, error } = await supabase
+		.from("conversation_cleanup_notifications")
+		.select("*")
+		.eq("user_id", userId)
+		.eq("is_acknowledged", false)
+		.gte("cleanup_scheduled_at", new Date().toISOString())
+		.order("cleanup_scheduled_at", { ascending: true })
+		.limit(1)
+		.maybeSingle();
+
+	if (error) throw error;
+	return data;
+}
+
+/**
+ * Fetch the conversations of a user that will be purged at the cleanup date
+ */
+async function fetchInactiveConversations(
+	userId: string,
+	cleanupDate: string,
+): Promise<InactiveConversation[]> {
+	if (!userId || !cleanupDate) return [];
+
+	const cutoffDate = new Date(
+		new Date(cleanupDate).getTime() -
+			CONVERSATION_INACTIVITY_DAYS * 24 * 60 * 60 * 1000,
+	).toISOString();
+
+	// Scoped to the signed-in user on the server
+	const { data, error } = await supabase.rpc(
+		"get_inactive_conversations_for_user",
+		{
+			p_user_id: userId,
+			cutoff_date: cutoffDate,
+		},
+	);
+
+	if (error) throw error;
+
+	return (
+		(data || []) as {
+			partner_id: string;
+			partner_username?: string;
+			partner_avatar_url?: string;
+			last_message_date: string;
+		}[]
+	).map((row) => ({
+		partner: {
+			id: row.partner_id,
+			username: row.partner_username,
+			avatar_url: row.partner_avatar_url,
+		},
+		last_message_date: row.last_message_date,
+	}));
+}
+
+/**
+ * Hook for the pending cleanup notification of a user
+ */
+export function useConversationCleanupNotification(userId: string) {
+	return useGenericQuery<ConversationCleanupNotification | null>({
+		queryKey: cleanupQueryKeys.byUser(userId),
+		queryFn: () => fetchPendingCleanupNotification(userId),
+		entityName: "conversation_cleanup",
+		operationName: "fetchPendingNotification",
+		additionalOptions: {
+			enabled: !!userId,
+		},
+	});
+}
+
+/**
+ * Hook for the conversations affected by a cleanup
+ */
+export function useInactiveConversations(userId: string, cleanupDate: string) {
+	return useGenericQuery<InactiveConversation[]>({
+		queryKey: [...cleanupQueryKeys.lists(), userId, cleanupDate],
+		queryFn: () => fetchInactiveConversations(userId, cleanupDate),
+		entityName: "conversation_cleanup",
+		operationName: "fetchInactiveConversations",
+		additionalOptions: {
+			enabled: !!userId && !!cleanupDate,
+		},
+	});
+}
+
+/**
+ * Hook for cleanup mutations
+ */
+export function useConversationCleanupMutations() {
+	// Acknowledge cleanup notification mutation
+	const acknowledgeMutation = useCustomMutation(
+		async (notificationId: string) => {
+			const { error } = await supabase
+				.from("conversation_cleanup_notifications")
+				.update({ is_acknowledged: true })
+				.eq("id", notificationId);
+
+			if (error) throw error;
+		},
+		{
+			queryKeys: cleanupQueryKeys,
+			entityName: "conversation_cleanup",
+			operationName: "acknowledge",
+		},
+	);
+
+	return {
+		acknowledge: acknowledgeMutation.mutate,
+		isAcknowledging: acknowledgeMutation.isPending,
+		acknowledgeError: acknowledgeMutation.error,
+		reset: acknowledgeMutation.reset,
+	};
+}
+
+/**
+ * Export query keys for external use
+ */
+export { cleanupQueryKeys };
+
+/**
+ * Default export - pending cleanup with its affected conversations
+ */
+export default function useConversationCleanup(userId: string) {
+	const notificationQuery = useConversationCleanupNotification(userId);
+	const notification = notificationQuery.data || null;
+	const conversationsQuery = useInactiveConversations(
+		userId,
+		notification?.cleanup_scheduled_at || "",
+	);
+
+	const { acknowledge, isAcknowledging, acknowledgeError } =
+		useConversationCleanupMutations();
+	const { exportConversation, isExporting, exportError } =
+		useMessagingConversationMutations();
+
+	return {
+		notification,
+		conversations: conversationsQuery.data || [],
+		isLoading: notificationQuery.isLoading || conversationsQuery.isLoading,
+		error: notificationQuery.error || conversationsQuery.error,
+		acknowledge,
+		exportConversation,
+		isAcknowledging,
+		isExporting,
+		acknowledgeError,
+		exportError,
+	};
+}
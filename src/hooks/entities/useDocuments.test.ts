@@ -0,0 +1,67 @@
+/**
+ * Basic compatibility test for the unified useDocuments hook
+ */
+
+import { describe, it, expect } from "vitest";
+
+// Test that the hook can be imported and has the expected interface
+describe("useDocuments API Compatibility", () => {
+	it("should export useDocuments default function", async () => {
+		const { default: useDocuments } = await import("./useDocuments");
+		expect(typeof useDocuments).toBe("function");
+	});
+
+	it("should export library, version and file hooks", async () => {
+		const {
+			useDocumentList,
+			useDocument,
+			useDocumentVersions,
+			useDocumentFileUrl,
+			useDocumentMutations,
+		} = await import("./useDocuments");
+		expect(typeof useDocumentList).toBe("function");
+		expect(typeof useDocument).toBe("function");
+		expect(typeof useDocumentVersions).toBe("function");
+		expect(typeof useDocumentFileUrl).toBe("function");
+		expect(typeof useDocumentMutations).toBe("function");
+	});
+
+	it("should export document query keys", async () => {
+		const { documentQueryKeys, documentVersionQueryKeys } = await import(
+			"./useDocuments"
+		);
+		expect(documentQueryKeys.all()).toEqual(["documents"]);
+		expect(documentVersionQueryKeys.all()).toEqual(["document_versions"]);
+	});
+
+	it("should only preview PDFs and images", async () => {
+		const { getPreviewKind } = await import("./useDocuments");
+		expect(getPreviewKind("application/pdf")).toBe("pdf");
+		expect(getPreviewKind("image/jpeg")).toBe("image");
+		expect(
+			getPreviewKind(
+				"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+			),
+		).toBeNull();
+	});
+
+	it("should name downloads after the title and version", async () => {
+		const { getDocumentFilename } = await import("./useDocuments");
+		expect(
+			getDocumentFilename(
+				{ title: "House Rules (2025)" },
+				{ version: 3, file_url: "assoc-id/1700000000000-uuid.pdf" },
+			),
+		).toBe("house-rules-2025-v3.pdf");
+		expect(
+			getDocumentFilename({ title: "!!" }, { version: 1, file_url: "a/b" }),
+		).toBe("document-v1");
+	});
+
+	it("should format file sizes", async () => {
+		const { formatFileSize } = await import("../../lib/storage");
+		expect(formatFileSize(512)).toBe("512 B");
+		expect(formatFileSize(2048)).toBe("2 KB");
+		expect(formatFileSize(1.5 * 1024 * 1024)).toBe("1.5 MB");
+	});
+});
@@ -0,0 +1,413 @@
+/**
+ * Unified Documents Hook
+ *
+ * Association document library: bylaws, minutes and forms stored in a
+ * private bucket, with version history and members-only documents.
+ */
+
+import { useQueryClient } from "@tanstack/react-query";
+import {
+	STORAGE_BUCKETS,
+	getSignedFileUrl,
+	removeFile,
+	uploadFile,
+} from "../../lib/storage";
+import { supabase } from "../../lib/supabase";
+import type {
+	Association,
+	Document,
+	DocumentCategory,
+	DocumentVersion,
+	Profile,
+} from "../../types/database";
+
+// Import new architecture
+import { EntityQueryKeys, queryKeys } from "../utils/queryKeys";
+import { useGenericQuery } from "../core/useGenericQuery";
+import { useCustomMutation } from "../core/useMutationHooks";
+
+/**
+ * Document with its association
+ */
+export interface DocumentWithAssociation extends Document {
+	association?: Pick<Association, "id" | "name">;
+}
+
+/**
+ * Version of a document with the officer who uploaded it
+ */
+export interface DocumentVersionWithUploader extends DocumentVersion {
+	uploader?: Pick<Profile, "id" | "username">;
+}
+
+export interface DocumentFilters {
+	associationId?: string;
+	category?: DocumentCategory;
+	search?: string;
+}
+
+export type DocumentCreateData = Pick<
+	Document,
+	"association_id" | "title" | "description" | "category" | "is_public"
+> & {
+	file: File;
+	userId: string;
+};
+
+export type DocumentPreviewKind = "pdf" | "image";
+
+export const DOCUMENT_CATEGORIES: Record<DocumentCategory, string> = {
+	bylaws: "Bylaws",
+	minutes: "Minutes",
+	forms: "Forms",
+	other: "Other",
+};
+
+const DOCUMENT_SELECT = "*, association:associations(id, name)";
+
+/**
+ * Document query keys using the new unified system
+ */
+const documentQueryKeys = new EntityQueryKeys("documents");
+const documentVersionQueryKeys = new EntityQueryKeys("document_versions");
+
+/**
+ * How a file can be previewed in the app, if at all
+ */
+export function getPreviewKind(fileType: string): DocumentPreviewKind | null {
+	if (fileType === "application/pdf") return "pdf";
+	if (fileType.startsWith("image/")) return "image";
+	return null;
+}
+
+/**
+ * Download name of a document version, e.g. "house-rules-v2.pdf"
+ */
+export function getDocumentFilename(
+	document: Pick<Document, "title">,
+	version: Pick<DocumentVersion, "version" | "file_url">,
+): string {
+	const slug = document.title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+	const fileName = version.file_url.split("/").pop() || "";
+	const extension = fileName.includes(".") ? fileName.split(".").pop() : "";
+	return `${slug || "document"}-v${version.version}${extension ? `.${extension}` : ""}`;
+}
+
+/**
+ * Fetch the documents the user can see
+ * (documents_select_public_or_members hides other associations' private ones)
+ */
+async function fetchDocuments(
+	filters: DocumentFilters,
+): Promise<DocumentWithAssociation[]> {
+	let query = supabase
+		.from("documents")
+		.select(DOCUMENT_SELECT)
+		.eq("is_active", true)
+		.order("updated_at", { ascending: false });
+
+	if (filters.associationId) {
+		query = query.eq("association_id", filters.associationId);
+	}
+	if (filters.category) query = query.eq("category", filters.category);
+
+	const search = filters.search?.trim();
+	if (search) query = query.ilike("title", `%${search}%`);
+
+	const { data, error } = await query;
+
+	if (error) throw error;
+	return data || [];
+}
+
+/**
+ * Fetch a document by ID
+ */
+async function fetchDocumentById(
+	documentId: string,
+): Promise<DocumentWithAssociation | null> {
+	if (!documentId) return null;
+
+	const { data, error } = await supabase
+		.from("documents")
+		.select(DOCUMENT_SELECT)
+		.eq("id", documentId)
+		.single();
+
+	if (error) {
+		if (error.code === "PGRST116") return null; // Not found
+		throw error;
+	}
+	return data;
+}
+
+/**
+ * Fetch the versions of a document, latest first
+ */
+async function fetchDocumentVersions(
+	documentId: string,
+): Promise<DocumentVersionWithUploader[]> {
+	if (!documentId) return [];
+
+	const { data, error } = await supabase
+		.from("document_versions")
+		.select(
+			"*, uploader:profiles!document_versions_uploaded_by_fkey(id, username)",
+		)
+		.eq("document_id", documentId)
+		.order("version", { ascending: false });
+
+	if (error) throw error;
+	return data || [];
+}
+
+/**
+ * Hook for the document library
+ */
+export function useDocumentList(filters: DocumentFilters = {}) {
+	const documentsQuery = useGenericQuery<DocumentWithAssociation[]>({
+		queryKey: documentQueryKeys.byFilter(filters),
+		queryFn: () => fetchDocuments(filters),
+		entityName: "documents",
+		operationName: "fetchAll",
+	});
+
+	return {
+		documents: documentsQuery.data || [],
+		isLoading: documentsQuery.isLoading,
+		error: documentsQuery.error,
+		errorMessage: documentsQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for a single document
+ */
+export function useDocument(documentId: string) {
+	return useGenericQuery<DocumentWithAssociation | null>({
+		queryKey: documentQueryKeys.byId(documentId),
+		queryFn: () => fetchDocumentById(documentId),
+		entityName: "documents",
+		operationName: "fetchById",
+		additionalOptions: {
+			enabled: !!documentId,
+		},
+	});
+}
+
+/**
+ * Hook for the version history of a document
+ */
+export function useDocumentVersions(documentId: string) {
+	const versionsQuery = useGenericQuery<DocumentVersionWithUploader[]>({
+		queryKey: documentVersionQueryKeys.byFilter({ documentId }),
+		queryFn: () => fetchDocumentVersions(documentId),
+		entityName: "document_versions",
+		operationName: "fetchAll",
+		additionalOptions: {
+			enabled: !!documentId,
+		},
+	});
+
+	return {
+		versions: versionsQuery.data || [],
+		isLoading: versionsQuery.isLoading,
+		error: versionsQuery.error,
+		errorMessage: versionsQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for a temporary URL of a stored document file
+ * Pass a filename to get a download link instead of an inline one
+ */
+export function useDocumentFileUrl(path: string, download?: string) {
+	return useGenericQuery<string>({
+		queryKey: queryKeys.storage.byFilter({
+			bucket: STORAGE_BUCKETS.DOCUMENTS,
+			path,
+			download,
+		}),
+		queryFn: () => getSignedFileUrl(STORAGE_BUCKETS.DOCUMENTS, path, download),
+		entityName: "storage",
+		operationName: "signDocumentUrl",
+		additionalOptions: {
+			enabled: !!path,
+		},
+		// Keep the URL while it is valid so the preview does not reload
+		cacheOverrides: {
+			staleTime: 30 * 60 * 1000,
+			gcTime: 30 * 60 * 1000,
+		},
+	});
+}
+
+/**
+ * Hook for adding documents and new versions (association officers only,
+ * documents_insert_officers and document_versions_insert_officers)
+ */
+export function useDocumentMutations() {
+	const queryClient = useQueryClient();
+
+	// Upload the file, then record the document and its first version
+	const createDocumentMutation = useCustomMutation(
+		async ({
+			file,
+			userId,
+			...documentData
+		}: DocumentCreateData): Promise<Document> => {
+			const upload = await uploadFile(
+				STORAGE_BUCKETS.DOCUMENTS,
+				documentData.association_id,
+				file,
+			);
+			const fileData = {
+				file_url: upload.path,
+				file_type: upload.type,
+				file_size: upload.size,
+			};
+
+			const { data, error } = await supabase
+				.from("documents")
+				.insert([{ ...documentData, ...fileData, created_by: userId }])
+				.select()
+				.single();
+
+			if (error) {
+				await removeFile(STORAGE_BUCKETS.DOCUMENTS, upload.path);
+				throw error;
+			}
+
+			const { error: versionError } = await supabase
+				.from("document_versions")
+				.insert([{ document_id: data.id, ...fileData, uploaded_by: userId }]);
+
+			if (versionError) {
+				// A document without history cannot be versioned later
+				await supabase.from("documents").delete().eq("id", data.id);
+				await removeFile(STORAGE_BUCKETS.DOCUMENTS, upload.path);
+				throw versionError;
+			}
+			return data;
+		},
+		{
+			queryKeys: documentQueryKeys,
+			entityName: "documents",
+			operationName: "create",
+		},
+	);
+
+	// The version number and the document's current file are set by trigger
+	const uploadVersionMutation = useCustomMutation(
+		async ({
+			document,
+			file,
+			notes,
+			userId,
+		}: {
+			document: Pick<Document, "id" | "association_id">;
+			file: File;
+			notes?: string;
+			userId: string;
+		}): Promise<DocumentVersion> => {
+			const upload = await uploadFile(
+				STORAGE_BUCKETS.DOCUMENTS,
+				document.association_id,
+				file,
+			);
+
+			const { data, error } = await supabase
+				.from("document_versions")
+				.insert([
+					{
+						document_id: document.id,
+						file_url: upload.path,
+						file_type: upload.type,
+						file_size: upload.size,
+						notes: notes?.trim() || null,
+						uploaded_by: userId,
+					},
+				])
+				.select()
+				.single();
+
+			if (error) {
+				await removeFile(STORAGE_BUCKETS.DOCUMENTS, upload.path);
+				throw error;
+			}
+			return data;
+		},
+		{
+			queryKeys: documentQueryKeys,
+			entityName: "document_versions",
+			operationName: "upload",
+			onSuccess: () => {
+				queryClient.invalidateQueries({
+					queryKey: documentVersionQueryKeys.all(),
+				});
+			},
+		},
+	);
+
+	// Change the visibility or take a document out of the library
+	const updateDocumentMutation = useCustomMutation(
+		async ({
+			id,
+			...updates
+		}: Partial<
+			Pick<
+				Document,
+				"title" | "description" | "category" | "is_public" | "is_active"
+			>
+		> & { id: string }): Promise<Document> => {
+			const { data, error } = await supabase
+				.from("documents")
+				.update({ ...updates, updated_at: new Date().toISOString() })
+				.eq("id", id)
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: documentQueryKeys,
+			entityName: "documents",
+			operationName: "update",
+		},
+	);
+
+	return {
+		createDocument: createDocumentMutation.mutate,
+		uploadVersion: uploadVersionMutation.mutate,
+		updateDocument: updateDocumentMutation.mutate,
+
+		createdDocument: createDocumentMutation.data,
+		isCreatingDocument: createDocumentMutation.isPending,
+		isUploadingVersion: uploadVersionMutation.isPending,
+		isUpdatingDocument: updateDocumentMutation.isPending,
+
+		createDocumentError: createDocumentMutation.error,
+		uploadVersionError: uploadVersionMutation.error,
+		updateDocumentError: updateDocumentMutation.error,
+
+		reset: () => {
+			createDocumentMutation.reset();
+			uploadVersionMutation.reset();
+			updateDocumentMutation.reset();
+		},
+	};
+}
+
+/**
+ * Export query keys for external use
+ */
+export { documentQueryKeys, documentVersionQueryKeys };
+
+/**
+ * Default export - document library
+ */
+export default useDocumentList;
@@ -0,0 +1,138 @@
+/**
+ * Basic compatibility test for the unified useEvents hook
+ */
+
+import { describe, it, expect } from "vitest";
+
+// Test that the hook can be imported and has the expected interface
+describe("useEvents API Compatibility", () => {
+	it("should export useEvents default function", async () => {
+		const { default: useEvents } = await import("./useEvents");
+		expect(typeof useEvents).toBe("function");
+	});
+
+	it("should export event and RSVP hooks", async () => {
+		const {
+			useEventsInRange,
+			useEvent,
+			useEventAttendees,
+			useUserRsvpEvents,
+			useEventMutations,
+		} = await import("./useEvents");
+		expect(typeof useEventsInRange).toBe("function");
+		expect(typeof useEvent).toBe("function");
+		expect(typeof useEventAttendees).toBe("function");
+		expect(typeof useUserRsvpEvents).toBe("function");
+		expect(typeof useEventMutations).toBe("function");
+	});
+
+	it("should export event query keys", async () => {
+		const { eventQueryKeys, eventParticipantQueryKeys } = await import(
+			"./useEvents"
+		);
+		expect(eventQueryKeys.all()).toEqual(["events"]);
+		expect(eventParticipantQueryKeys.all()).toEqual(["event_participants"]);
+	});
+
+	it("should build full weeks around a month", async () => {
+		const { getMonthGrid, getWeekDays, toDateKey } = await import(
+			"./useEvents"
+		);
+
+		// March 2025 starts on a Saturday and ends on a Monday
+		const grid = getMonthGrid(new Date(2025, 2, 15));
+		expect(grid).toHaveLength(42);
+		expect(toDateKey(grid[0])).toBe("2025-02-23");
+		expect(toDateKey(grid[41])).toBe("2025-04-05");
+
+		expect(getWeekDays(new Date(2025, 2, 12)).map(toDateKey)).toEqual([
+			"2025-03-09",
+			"2025-03-10",
+			"2025-03-11",
+			"2025-03-12",
+			"2025-03-13",
+			"2025-03-14",
+			"2025-03-15",
+		]);
+	});
+
+	it("should place multi-day events on each of their days", async () => {
+		const { getEventsOnDay } = await import("./useEvents");
+		const events = [
+			{
+				id: "fair",
+				start_date: new Date(2025, 2, 10, 9).toISOString(),
+				end_date: new Date(2025, 2, 12, 17).toISOString(),
+			},
+			{ id: "meeting", start_date: new Date(2025, 2, 11, 19).toISOString() },
+		];
+
+		const onDay = (day: number) =>
+			getEventsOnDay(events, new Date(2025, 2, day)).map((event) => event.id);
+
+		expect(onDay(9)).toEqual([]);
+		expect(onDay(10)).toEqual(["fair"]);
+		expect(onDay(11)).toEqual(["fair", "meeting"]);
+		expect(onDay(12)).toEqual(["fair"]);
+		expect(onDay(13)).toEqual([]);
+	});
+
+	it("should count RSVPs and find the user's answer", async () => {
+		const { getRsvpCounts, getUserRsvp } = await import("./useEvents");
+		const participants = [
+			{ user_id: "a", status: "going" },
+			{ user_id: "b", status: "interested" },
+			{ user_id: "c", status: "going" },
+			{ user_id: "d", status: "declined" },
+		] as const;
+
+		expect(getRsvpCounts([...participants])).toEqual({
+			going: 2,
+			interested: 1,
+			declined: 1,
+		});
+		expect(getUserRsvp([...participants], "b")).toBe("interested");
+		expect(getUserRsvp([...participants], "z")).toBeUndefined();
+		expect(getUserRsvp([...participants])).toBeUndefined();
+	});
+
+	it("should export events as an iCalendar file", async () => {
+		const { buildIcsCalendar, getIcsFilename } = await import(
+			"../../lib/calendarExport"
+		);
+		const event = {
+			id: "event-1",
+			title: "Clean-up day, phase 2",
+			description: "Bring gloves;\nbags are provided",
+			start_date: "2025-03-01T01:30:00.000Z",
+			location: "Clubhouse",
+		};
+
+		const ics = buildIcsCalendar([event], new Date("2025-02-01T00:00:00Z"));
+		const lines = ics.split("\r\n");
+
+		expect(lines[0]).toBe("BEGIN:VCALENDAR");
+		expect(lines).toContain("UID:event-1@myggv");
+		expect(lines).toContain("DTSTAMP:20250201T000000Z");
+		expect(lines).toContain("DTSTART:20250301T013000Z");
+		// Events without an end last one hour
+		expect(lines).toContain("DTEND:20250301T023000Z");
+		expect(lines).toContain("SUMMARY:Clean-up day\\, phase 2");
+		expect(lines).toContain("DESCRIPTION:Bring gloves\\;\\nbags are provided");
+		expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+
+		expect(getIcsFilename([event])).toBe("clean-up-day-phase-2.ics");
+		expect(getIcsFilename([event, event])).toBe("myggv-events.ics");
+	});
+
+	it("should fold long iCalendar lines", async () => {
+		const { foldIcsLine } = await import("../../lib/calendarExport");
+		const line = `DESCRIPTION:${"a".repeat(100)}`;
+		const folded = foldIcsLine(line).split("\r\n");
+
+		expect(folded).toHaveLength(2);
+		expect(folded[0]).toHaveLength(75);
+		expect(folded[1].startsWith(" ")).toBe(true);
+		expect(folded.join("").replace(" ", "")).toBe(line);
+	});
+});
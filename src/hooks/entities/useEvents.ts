@@ -0,0 +1,460 @@
+/**
+ * Unified Events Hook
+ *
+ * Community events calendar: events by date range, RSVPs
+ * (going, interested, declined) and calendar helpers.
+ */
+
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "../../lib/supabase";
+import type {
+	Association,
+	Event,
+	EventParticipant,
+	EventRsvpStatus,
+	Profile,
+} from "../../types/database";
+
+// Import new architecture
+import { EntityQueryKeys } from "../utils/queryKeys";
+import { useGenericQuery } from "../core/useGenericQuery";
+import { useCustomMutation } from "../core/useMutationHooks";
+
+type EventRsvp = Pick<EventParticipant, "user_id" | "status">;
+
+/**
+ * Event with its association and RSVPs
+ */
+export interface EventWithDetails extends Event {
+	association?: Pick<Association, "id" | "name">;
+	participants: EventRsvp[];
+}
+
+/**
+ * RSVP with the resident's profile
+ */
+export interface EventAttendee extends EventParticipant {
+	profile?: Pick<Profile, "id" | "username" | "avatar_url">;
+}
+
+export type EventCreateData = Pick<
+	Event,
+	| "title"
+	| "description"
+	| "start_date"
+	| "end_date"
+	| "location"
+	| "association_id"
+> & {
+	created_by: string;
+};
+
+export type EventRange = {
+	from: string;
+	to?: string;
+	associationId?: string;
+};
+
+export type CalendarView = "month" | "week" | "list";
+
+export const EVENT_RSVP_LABELS: Record<EventRsvpStatus, string> = {
+	going: "Going",
+	interested: "Interested",
+	declined: "Can't go",
+};
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EVENT_SELECT =
+	"*, association:associations(id, name), participants:event_participants(user_id, status)";
+
+/**
+ * Event query keys using the new unified system
+ */
+const eventQueryKeys = new EntityQueryKeys("events");
+const eventParticipantQueryKeys = new EntityQueryKeys("event_participants");
+
+/**
+ * Local calendar day of a date (YYYY-MM-DD)
+ */
+export function toDateKey(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD key as a local date
+ */
+export function fromDateKey(key: string): Date {
+	const [year, month, day] = key.split("-").map(Number);
+	return new Date(year, month - 1, day);
+}
+
+/**
+ * Days shown for a week, starting on Sunday
+ */
+export function getWeekDays(date: Date): Date[] {
+	const start = new Date(
+		date.getFullYear(),
+		date.getMonth(),
+		date.getDate() - date.getDay(),
+	);
+	return Array.from(
+		{ length: 7 },
+		(_, index) =>
+			new Date(start.getFullYear(), start.getMonth(), start.getDate() + index),
+	);
+}
+
+/**
+ * Days shown for a month, as full weeks around it
+ */
+export function getMonthGrid(date: Date): Date[] {
+	const first = new Date(date.getFullYear(), date.getMonth(), 1);
+	const last = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+	const weeks = Math.ceil((first.getDay() + last.getDate()) / 7);
+
+	return Array.from({ length: weeks }, (_, week) =>
+		getWeekDays(new Date(first.getFullYear(), first.getMonth(), 1 + week * 7)),
+	).flat();
+}
+
+/**
+ * Date range loaded for a calendar view
+ */
+export function getViewRange(
+	view: CalendarView,
+	date: Date,
+): { from: Date; to?: Date } {
+	if (view === "list") {
+		return {
+			from: new Date(date.getFullYear(), date.getMonth(), date.getDate()),
+		};
+	}
+
+	const days = view === "month" ? getMonthGrid(date) : getWeekDays(date);
+	const last = days[days.length - 1];
+	return {
+		from: days[0],
+		to: new Date(last.getFullYear(), last.getMonth(), last.getDate() + 1),
+	};
+}
+
+/**
+ * Move the calendar by one month or week
+ */
+export function shiftViewDate(
+	view: CalendarView,
+	date: Date,
+	direction: 1 | -1,
+): Date {
+	if (view === "month") {
+		return new Date(date.getFullYear(), date.getMonth() + direction, 1);
+	}
+	return new Date(
+		date.getFullYear(),
+		date.getMonth(),
+		date.getDate() + direction * 7,
+	);
+}
+
+/**
+ * Events taking place on a calendar day
+ */
+export function getEventsOnDay<
+	T extends Pick<Event, "start_date" | "end_date">,
+>(events: T[], day: Date): T[] {
+	const dayStart = new Date(
+		day.getFullYear(),
+		day.getMonth(),
+		day.getDate(),
+	).getTime();
+	const dayEnd = dayStart + DAY_MS;
+
+	return events.filter((event) => {
+		const start = new Date(event.start_date).getTime();
+		const end = event.end_date ? new Date(event.end_date).getTime() : start;
+		return start < dayEnd && end >= dayStart;
+	});
+}
+
+/**
+ * Count the RSVPs of an event by status
+ */
+export function getRsvpCounts(
+	participants: EventRsvp[],
+): Record<EventRsvpStatus, number> {
+	const counts: Record<EventRsvpStatus, number> = {
+		going: 0,
+		interested: 0,
+		declined: 0,
+	};
+	for (const participant of participants) {
+		counts[participant.status] += 1;
+	}
+	return counts;
+}
+
+/**
+ * RSVP of a user for an event
+ */
+export function getUserRsvp(
+	participants: EventRsvp[],
+	userId?: string,
+): EventRsvpStatus | undefined {
+	if (!userId) return undefined;
+	return participants.find((participant) => participant.user_id === userId)
+		?.status;
+}
+
+/**
+ * Fetch the active events overlapping a date range, soonest first
+ */
+async function fetchEvents({
+	from,
+	to,
+	associationId,
+}: EventRange): Promise<EventWithDetails[]> {
+	let query = supabase
+		.from("events")
+		.select(EVENT_SELECT)
+		.eq("is_active", true)
+		// Still running at the start of the range
+		.or(`end_date.gte.${from},and(end_date.is.null,start_date.gte.${from})`)
+		.order("start_date", { ascending: true });
+
+	if (to) query = query.lt("start_date", to);
+	if (associationId) query = query.eq("association_id", associationId);
+
+	const { data, error } = await query;
+
+	if (error) throw error;
+	return data || [];
+}
+
+/**
+ * Fetch an event by ID
+ */
+async function fetchEventById(
+	eventId: string,
+): Promise<EventWithDetails | null> {
+	if (!eventId) return null;
+
+	const { data, error } = await supabase
+		.from("events")
+		.select(EVENT_SELECT)
+		.eq("id", eventId)
+		.single();
+
+	if (error) {
+		if (error.code === "PGRST116") return null; // Not found
+		throw error;
+	}
+	return data;
+}
+
+/**
+ * Fetch the residents who answered an event
+ */
+async function fetchEventAttendees(eventId: string): Promise<EventAttendee[]> {
+	if (!eventId) return [];
+
+	const { data, error } = await supabase
+		.from("event_participants")
+		.select(
+			"*, profile:profiles!event_participants_user_id_fkey(id, username, avatar_url)",
+		)
+		.eq("event_id", eventId)
+		.order("created_at", { ascending: true });
+
+	if (error) throw error;
+	return data || [];
+}
+
+/**
+ * Fetch the events a user is going to or interested in
+ */
+async function fetchUserRsvpEvents(userId: string): Promise<Event[]> {
+	if (!userId) return [];
+
+	const { data, error } = await supabase
+		.from("event_participants")
+		.select("event:events(*)")
+		.eq("user_id", userId)
+		.in("status", ["going", "interested"]);
+
+	if (error) throw error;
+	return (data || [])
+		.map(({ event }) => event as unknown as Event | null)
+		.filter((event): event is Event => !!event?.is_active)
+		.sort((a, b) => a.start_date.localeCompare(b.start_date));
+}
+
+/**
+ * Hook for the events of a date range
+ */
+export function useEventsInRange(range: EventRange) {
+	const eventsQuery = useGenericQuery<EventWithDetails[]>({
+		queryKey: eventQueryKeys.byFilter(range),
+		queryFn: () => fetchEvents(range),
+		entityName: "events",
+		operationName: "fetchRange",
+	});
+
+	return {
+		events: eventsQuery.data || [],
+		isLoading: eventsQuery.isLoading,
+		error: eventsQuery.error,
+		errorMessage: eventsQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for a single event
+ */
+export function useEvent(eventId: string) {
+	return useGenericQuery<EventWithDetails | null>({
+		queryKey: eventQueryKeys.byId(eventId),
+		queryFn: () => fetchEventById(eventId),
+		entityName: "events",
+		operationName: "fetchById",
+		additionalOptions: {
+			enabled: !!eventId,
+		},
+	});
+}
+
+/**
+ * Hook for the RSVPs of an event with the residents' profiles
+ */
+export function useEventAttendees(eventId: string) {
+	const attendeesQuery = useGenericQuery<EventAttendee[]>({
+		queryKey: eventParticipantQueryKeys.byFilter({ eventId }),
+		queryFn: () => fetchEventAttendees(eventId),
+		entityName: "event_participants",
+		operationName: "fetchByEvent",
+		additionalOptions: {
+			enabled: !!eventId,
+		},
+	});
+
+	return {
+		attendees: attendeesQuery.data || [],
+		isLoading: attendeesQuery.isLoading,
+		error: attendeesQuery.error,
+	};
+}
+
+/**
+ * Hook for the events a user RSVP'd to, used by the calendar export
+ */
+export function useUserRsvpEvents(userId: string) {
+	const eventsQuery = useGenericQuery<Event[]>({
+		queryKey: eventParticipantQueryKeys.byUser(userId),
+		queryFn: () => fetchUserRsvpEvents(userId),
+		entityName: "event_participants",
+		operationName: "fetchByUser",
+		additionalOptions: {
+			enabled: !!userId,
+		},
+	});
+
+	return {
+		events: eventsQuery.data || [],
+		isLoading: eventsQuery.isLoading,
+		error: eventsQuery.error,
+	};
+}
+
+/**
+ * Hook for creating events and answering them
+ */
+export function useEventMutations() {
+	const queryClient = useQueryClient();
+
+	// Association events can only be created by its officers or an admin
+	// (events_insert_organizers)
+	const createEventMutation = useCustomMutation(
+		async (eventData: EventCreateData): Promise<Event> => {
+			const { data, error } = await supabase
+				.from("events")
+				.insert([eventData])
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: eventQueryKeys,
+			entityName: "events",
+			operationName: "create",
+		},
+	);
+
+	// One answer per resident, changing it replaces the previous one
+	const rsvpMutation = useCustomMutation(
+		async ({
+			eventId,
+			userId,
+			status,
+		}: {
+			eventId: string;
+			userId: string;
+			status: EventRsvpStatus;
+		}): Promise<EventParticipant> => {
+			const { data, error } = await supabase
+				.from("event_participants")
+				.upsert([{ event_id: eventId, user_id: userId, status }], {
+					onConflict: "event_id,user_id",
+				})
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: eventParticipantQueryKeys,
+			entityName: "event_participants",
+			operationName: "rsvp",
+			// Refresh the attendee counts of the calendar
+			onSuccess: () => {
+				queryClient.invalidateQueries({ queryKey: eventQueryKeys.all() });
+			},
+		},
+	);
+
+	return {
+		createEvent: createEventMutation.mutate,
+		rsvp: rsvpMutation.mutate,
+
+		createdEvent: createEventMutation.data,
+		isCreatingEvent: createEventMutation.isPending,
+		isAnswering: rsvpMutation.isPending,
+
+		createEventError: createEventMutation.error,
+		rsvpError: rsvpMutation.error,
+
+		reset: () => {
+			createEventMutation.reset();
+			rsvpMutation.reset();
+		},
+	};
+}
+
+/**
+ * Export query keys for external use
+ */
+export { eventQueryKeys, eventParticipantQueryKeys };
+
+/**
+ * Default export - upcoming events
+ */
+export default function useEvents(associationId?: string) {
+	const from = toDateKey(new Date());
+	return useEventsInRange({ from, associationId });
+}
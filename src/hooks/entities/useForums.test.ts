@@ -0,0 +1,56 @@
+/**
+ * Basic compatibility test for the unified useForums hook
+ */
+
+import { describe, it, expect } from "vitest";
+
+// Test that the hook can be imported and has the expected interface
+describe("useForums API Compatibility", () => {
+	it("should export useForums default function", async () => {
+		const { default: useForums } = await import("./useForums");
+		expect(typeof useForums).toBe("function");
+	});
+
+	it("should export forum, thread and post hooks", async () => {
+		const {
+			useForumsCRUD,
+			useForumList,
+			useForum,
+			useForumThreads,
+			useThread,
+			useThreadPosts,
+			useForumMutations,
+		} = await import("./useForums");
+		expect(typeof useForumsCRUD).toBe("function");
+		expect(typeof useForumList).toBe("function");
+		expect(typeof useForum).toBe("function");
+		expect(typeof useForumThreads).toBe("function");
+		expect(typeof useThread).toBe("function");
+		expect(typeof useThreadPosts).toBe("function");
+		expect(typeof useForumMutations).toBe("function");
+	});
+
+	it("should export forum query keys", async () => {
+		const { forumQueryKeys, threadQueryKeys, forumPostQueryKeys } =
+			await import("./useForums");
+		expect(forumQueryKeys.all()).toEqual(["forums"]);
+		expect(threadQueryKeys.all()).toEqual(["threads"]);
+		expect(forumPostQueryKeys.all()).toEqual(["forum_posts"]);
+	});
+
+	it("should count pages, keeping at least one", async () => {
+		const { getPageCount } = await import("./useForums");
+
+		expect(getPageCount(0, 20)).toBe(1);
+		expect(getPageCount(20, 20)).toBe(1);
+		expect(getPageCount(21, 20)).toBe(2);
+	});
+
+	it("should map a page to an inclusive row range", async () => {
+		const { getPageRange } = await import("./useForums");
+
+		expect(getPageRange(1, 20)).toEqual([0, 19]);
+		expect(getPageRange(3, 20)).toEqual([40, 59]);
+		expect(getPageRange(0, 20)).toEqual([0, 19]);
+	});
+});
@@ -0,0 +1,521 @@
+/**
+ * Unified Forums Hook
+ *
+ * Neighbourhood forum: forums (created by admins), their threads
+ * and the posts of each thread, with page based pagination.
+ */
+
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "../../lib/supabase";
+import type { Forum, ForumPost, Profile, Thread } from "../../types/database";
+
+// Import new architecture
+import { EntityQueryKeys } from "../utils/queryKeys";
+import { useGenericQuery } from "../core/useGenericQuery";
+import { type CRUDConfig, useGenericCRUD } from "../core/useGenericCRUD";
+import { useCustomMutation } from "../core/useMutationHooks";
+
+type ForumAuthor = Pick<Profile, "id" | "username" | "avatar_url">;
+
+/**
+ * Forum with its number of threads
+ */
+export interface ForumSummary extends Forum {
+	thread_count: number;
+}
+
+/**
+ * Thread with its author and number of posts
+ */
+export interface ThreadSummary extends Thread {
+	author?: ForumAuthor;
+	post_count: number;
+}
+
+/**
+ * Thread with the forum it belongs to
+ */
+export interface ThreadDetail extends Thread {
+	author?: ForumAuthor;
+	forum?: Pick<Forum, "id" | "title">;
+}
+
+export interface ForumPostWithAuthor extends ForumPost {
+	author?: ForumAuthor;
+}
+
+/**
+ * One page of a paginated list with the total count
+ */
+export interface ForumPage<T> {
+	items: T[];
+	total: number;
+}
+
+export type ForumCreateData = Pick<Forum, "title" | "description" | "icon"> & {
+	created_by: string;
+};
+
+export const FORUM_THREADS_PAGE_SIZE = 20;
+export const THREAD_POSTS_PAGE_SIZE = 20;
+export const FORUM_POST_MAX_LENGTH = 5000;
+export const THREAD_TITLE_MAX_LENGTH = 150;
+
+const AUTHOR_SELECT = "id, username, avatar_url";
+
+/**
+ * Forum query keys using the new unified system
+ */
+const forumQueryKeys = new EntityQueryKeys("forums");
+const threadQueryKeys = new EntityQueryKeys("threads");
+const forumPostQueryKeys = new EntityQueryKeys("forum_posts");
+
+/**
+ * Number of pages needed for a total count
+ */
+export function getPageCount(total: number, pageSize: number): number {
+	return Math.max(1, Math.ceil(total / pageSize));
+}
+
+/**
+ * Inclusive row range of a page (1-based) for PostgREST
+ */
+export function getPageRange(page: number, pageSize: number): [number, number] {
+	const from = (Math.max(1, page) - 1) * pageSize;
+	return [from, from + pageSize - 1];
+}
+
+/**
+ * Flatten the embedded count returned by PostgREST
+ */
+function readCount(relation: unknown): number {
+	return Array.isArray(relation) ? (relation[0]?.count ?? 0) : 0;
+}
+
+/**
+ * Fetch all forums with their thread count (hidden threads are not counted)
+ */
+async function fetchForums(): Promise<ForumSummary[]> {
+	const { data, error } = await supabase
+		.from("forums")
+		.select("*, threads(count)")
+		.eq("threads.is_hidden", false)
+		.order("title", { ascending: true });
+
+	if (error) throw error;
+	return (data || []).map(({ threads, ...forum }) => ({
+		...forum,
+		thread_count: readCount(threads),
+	}));
+}
+
+/**
+ * Fetch a forum by ID
+ */
+async function fetchForumById(id: string): Promise<ForumSummary> {
+	const { data, error } = await supabase
+		.from("forums")
+		.select("*, threads(count)")
+		.eq("threads.is_hidden", false)
+		.eq("id", id)
+		.single();
+
+	if (error) throw error;
+	const { threads, ...forum } = data;
+	return { ...forum, thread_count: readCount(threads) };
+}
+
+/**
+ * Fetch the forums created by a user
+ */
+async function fetchForumsByUser(userId: string): Promise<ForumSummary[]> {
+	const { data, error } = await supabase
+		.from("forums")
+		.select("*, threads(count)")
+		.eq("threads.is_hidden", false)
+		.eq("created_by", userId)
+		.order("title", { ascending: true });
+
+	if (error) throw error;
+	return (data || []).map(({ threads, ...forum }) => ({
+		...forum,
+		thread_count: readCount(threads),
+	}));
+}
+
+/**
+ * CRUD configuration of forums (writes are restricted to admins, forums_write_admins)
+ */
+const forumsCRUDConfig: CRUDConfig<
+	ForumSummary,
+	ForumCreateData,
+	Partial<Forum>
+> = {
+	entityName: "forums",
+	queryKeys: forumQueryKeys,
+	tableName: "forums",
+	queryFn: fetchForums,
+	queryByIdFn: fetchForumById,
+	queryByUserFn: fetchForumsByUser,
+	createFn: async (forumData) => {
+		const { data, error } = await supabase
+			.from("forums")
+			.insert([forumData])
+			.select()
+			.single();
+
+		if (error) throw error;
+		return { ...data, thread_count: 0 };
+	},
+	updateFn: async (id, forumData) => {
+		const { error } = await supabase
+			.from("forums")
+			.update(forumData)
+			.eq("id", id);
+
+		if (error) throw error;
+		// Re-read it so the count leaves hidden threads out
+		return fetchForumById(id);
+	},
+	deleteFn: async (id) => {
+		const { error } = await supabase.from("forums").delete().eq("id", id);
+
+		if (error) throw error;
+	},
+};
+
+/**
+ * Fetch one page of the visible threads of a forum, newest first
+ */
+async function fetchForumThreads(
+	forumId: string,
+	page: number,
+): Promise<ForumPage<ThreadSummary>> {
+	if (!forumId) return { items: [], total: 0 };
+
+	const [from, to] = getPageRange(page, FORUM_THREADS_PAGE_SIZE);
+	const { data, error, count } = await supabase
+		.from("threads")
+		.select(
+			`*, author:profiles!threads_created_by_fkey(${AUTHOR_SELECT}), posts:forum_posts(count)`,
+			{ count: "exact" },
+		)
+		.eq("forum_id", forumId)
+		.eq("is_hidden", false)
+		// Pinned threads stay on top
+		.order("is_pinned", { ascending: false })
+		.order("created_at", { ascending: false })
+		.range(from, to);
+
+	if (error) throw error;
+	return {
+		items: (data || []).map(({ posts, ...thread }) => ({
+			...thread,
+			post_count: readCount(posts),
+		})),
+		total: count ?? 0,
+	};
+}
+
+/**
+ * Fetch a thread with its forum and author
+ */
+async function fetchThread(threadId: string): Promise<ThreadDetail | null> {
+	if (!threadId) return null;
+
+	const { data, error } = await supabase
+		.from("threads")
+		.select(
+			`*, author:profiles!threads_created_by_fkey(${AUTHOR_SELECT}), forum:forums(id, title)`,
+		)
+		.eq("id", threadId)
+		.single();
+
+	if (error) {
+		if (error.code === "PGRST116") return null; // Not found
+		throw error;
+	}
+	return data;
+}
+
+/**
+ * Fetch one page of the visible posts of a thread, oldest first
+ */
+async function fetchThreadPosts(
+	threadId: string,
+	page: number,
+): Promise<ForumPage<ForumPostWithAuthor>> {
+	if (!threadId) return { items: [], total: 0 };
+
+	const [from, to] = getPageRange(page, THREAD_POSTS_PAGE_SIZE);
+	const { data, error, count } = await supabase
+		.from("forum_posts")
+		.select(`*, author:profiles!forum_posts_author_id_fkey(${AUTHOR_SELECT})`, {
+			count: "exact",
+		})
+		.eq("thread_id", threadId)
+		.eq("is_hidden", false)
+		.order("created_at", { ascending: true })
+		.range(from, to);
+
+	if (error) throw error;
+	return { items: data || [], total: count ?? 0 };
+}
+
+/**
+ * Generic CRUD hooks for forums
+ */
+export function useForumsCRUD() {
+	return useGenericCRUD(forumsCRUDConfig);
+}
+
+/**
+ * Hook for the list of forums
+ */
+export function useForumList() {
+	return useForumsCRUD().useList();
+}
+
+/**
+ * Hook for a single forum
+ */
+export function useForum(forumId: string) {
+	return useForumsCRUD().useById(forumId);
+}
+
+/**
+ * Hook for a page of the threads of a forum
+ */
+export function useForumThreads(forumId: string, page = 1) {
+	const threadsQuery = useGenericQuery<ForumPage<ThreadSummary>>({
+		queryKey: threadQueryKeys.byFilter({ forumId, page }),
+		queryFn: () => fetchForumThreads(forumId, page),
+		entityName: "threads",
+		operationName: "fetchByForum",
+		additionalOptions: {
+			enabled: !!forumId,
+		},
+	});
+	const total = threadsQuery.data?.total ?? 0;
+
+	return {
+		threads: threadsQuery.data?.items || [],
+		total,
+		pageCount: getPageCount(total, FORUM_THREADS_PAGE_SIZE),
+		isLoading: threadsQuery.isLoading,
+		error: threadsQuery.error,
+		errorMessage: threadsQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for a single thread
+ */
+export function useThread(threadId: string) {
+	return useGenericQuery<ThreadDetail | null>({
+		queryKey: threadQueryKeys.byId(threadId),
+		queryFn: () => fetchThread(threadId),
+		entityName: "threads",
+		operationName: "fetchById",
+		additionalOptions: {
+			enabled: !!threadId,
+		},
+	});
+}
+
+/**
+ * Hook for a page of the posts of a thread
+ */
+export function useThreadPosts(threadId: string, page = 1) {
+	const postsQuery = useGenericQuery<ForumPage<ForumPostWithAuthor>>({
+		queryKey: forumPostQueryKeys.byFilter({ threadId, page }),
+		queryFn: () => fetchThreadPosts(threadId, page),
+		entityName: "forum_posts",
+		operationName: "fetchByThread",
+		additionalOptions: {
+			enabled: !!threadId,
+		},
+	});
+	const total = postsQuery.data?.total ?? 0;
+
+	return {
+		posts: postsQuery.data?.items || [],
+		total,
+		pageCount: getPageCount(total, THREAD_POSTS_PAGE_SIZE),
+		isLoading: postsQuery.isLoading,
+		error: postsQuery.error,
+		errorMessage: postsQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for thread and post mutations
+ */
+export function useForumMutations() {
+	const queryClient = useQueryClient();
+
+	// Start a thread with its first post
+	const createThreadMutation = useCustomMutation(
+		async ({
+			forumId,
+			userId,
+			title,
+			content,
+		}: {
+			forumId: string;
+			userId: string;
+			title: string;
+			content: string;
+		}): Promise<Thread> => {
+			const { data: thread, error } = await supabase
+				.from("threads")
+				.insert([
+					{ forum_id: forumId, created_by: userId, title: title.trim() },
+				])
+				.select()
+				.single();
+
+			if (error) throw error;
+
+			const { error: postError } = await supabase
+				.from("forum_posts")
+				.insert([{ thread_id: thread.id, author_id: userId, content }]);
+
+			if (postError) {
+				// Don't leave an empty thread behind
+				await supabase.from("threads").delete().eq("id", thread.id);
+				throw postError;
+			}
+
+			return thread;
+		},
+		{
+			queryKeys: threadQueryKeys,
+			entityName: "threads",
+			operationName: "create",
+			// Refresh the thread counts of the forum index
+			onSuccess: () => {
+				queryClient.invalidateQueries({ queryKey: forumQueryKeys.all() });
+			},
+		},
+	);
+
+	// Reply to a thread
+	const createPostMutation = useCustomMutation(
+		async (postData: {
+			thread_id: string;
+			author_id: string;
+			content: string;
+		}): Promise<ForumPost> => {
+			const { data, error } = await supabase
+				.from("forum_posts")
+				.insert([postData])
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: forumPostQueryKeys,
+			entityName: "forum_posts",
+			operationName: "create",
+			// Refresh the post counts of the thread list
+			onSuccess: () => {
+				queryClient.invalidateQueries({ queryKey: threadQueryKeys.all() });
+			},
+		},
+	);
+
+	// Edit one of the user's posts
+	const updatePostMutation = useCustomMutation(
+		async ({ id, content }: { id: string; content: string }) => {
+			const { data, error } = await supabase
+				.from("forum_posts")
+				.update({
+					content,
+					is_edited: true,
+					updated_at: new Date().toISOString(),
+				})
+				.eq("id", id)
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: forumPostQueryKeys,
+			entityName: "forum_posts",
+			operationName: "update",
+		},
+	);
+
+	// Delete one of the user's posts
+	const deletePostMutation = useCustomMutation(
+		async (id: string) => {
+			const { error } = await supabase
+				.from("forum_posts")
+				.delete()
+				.eq("id", id);
+
+			if (error) throw error;
+		},
+		{
+			queryKeys: forumPostQueryKeys,
+			entityName: "forum_posts",
+			operationName: "delete",
+		},
+	);
+
+	return {
+		createThread: createThreadMutation.mutate,
+		createPost: createPostMutation.mutate,
+		updatePost: updatePostMutation.mutate,
+		deletePost: deletePostMutation.mutate,
+
+		createdThread: createThreadMutation.data,
+		isCreatingThread: createThreadMutation.isPending,
+		isCreatingPost: createPostMutation.isPending,
+		isUpdatingPost: updatePostMutation.isPending,
+		isDeletingPost: deletePostMutation.isPending,
+
+		createThreadError: createThreadMutation.error,
+		createPostError: createPostMutation.error,
+		updatePostError: updatePostMutation.error,
+		deletePostError: deletePostMutation.error,
+
+		reset: () => {
+			createThreadMutation.reset();
+			createPostMutation.reset();
+			updatePostMutation.reset();
+			deletePostMutation.reset();
+		},
+	};
+}
+
+/**
+ * Export query keys for external use
+ */
+export { forumQueryKeys, threadQueryKeys, forumPostQueryKeys };
+
+/**
+ * Default export - forums with their CRUD operations
+ */
+export default function useForums() {
+	const forumsCRUD = useForumsCRUD();
+	const forumsQuery = forumsCRUD.useList();
+	const createForumMutation = forumsCRUD.useCreate();
+
+	return {
+		forums: forumsQuery.data || [],
+		isLoading: forumsQuery.isLoading,
+		error: forumsQuery.error,
+		errorMessage: forumsQuery.errorMessage,
+
+		createForum: createForumMutation.mutate,
+		isCreatingForum: createForumMutation.isPending,
+		createForumError: createForumMutation.error,
+		resetCreateForum: createForumMutation.reset,
+	};
+}
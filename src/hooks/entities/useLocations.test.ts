@@ -31,11 +31,163 @@ describe("useLocations API Compatibility", () => {
 		expect(typeof useAssociatedLocationsWithCoords).toBe("function");
 	});
 
+	it("should export useLocationsInBounds function", async () => {
+		const { useLocationsInBounds } = await import("./useLocations");
+		expect(typeof useLocationsInBounds).toBe("function");
+	});
+
+	it("should widen bounds to the surrounding grid cells", async () => {
+		const { snapBounds } = await import("./useLocations");
+		expect(
+			snapBounds(
+				{
+					minLng: 120.9512,
+					minLat: 14.3471,
+					maxLng: 120.9538,
+					maxLat: 14.3489,
+				},
+				0.005,
+			),
+		).toEqual({
+			minLng: 120.95,
+			minLat: 14.345,
+			maxLng: 120.955,
+			maxLat: 14.35,
+		});
+	});
+
+	it("should keep the same bounds for small pans", async () => {
+		const { snapBounds } = await import("./useLocations");
+		const first = snapBounds({
+			minLng: 120.9512,
+			minLat: 14.3471,
+			maxLng: 120.9538,
+			maxLat: 14.3489,
+		});
+		const second = snapBounds({
+			minLng: 120.9514,
+			minLat: 14.3472,
+			maxLng: 120.954,
+			maxLat: 14.3488,
+		});
+		expect(second).toEqual(first);
+	});
+
+	it("should build map features with house and pin icons", async () => {
+		const { toLocationFeatures } = await import("../../lib/mapFeatures");
+		const collection = toLocationFeatures(
+			[
+				{ id: "home", lng: 120.95, lat: 14.34 },
+				{ id: "other", lng: 120.96, lat: 14.35 },
+				{ id: "missing", lng: Number.NaN, lat: 14.35 },
+			],
+			["home"],
+		);
+		expect(collection.features).toHaveLength(2);
+		expect(collection.features[0].properties).toEqual({
+			id: "home",
+			icon: "house",
+			layer: "home",
+		});
+		expect(collection.features[1].geometry.coordinates).toEqual([
+			120.96, 14.35,
+		]);
+		expect(collection.features[1].properties.icon).toBe("pin");
+	});
+
+	it("should export useMapPlaces function", async () => {
+		const { useMapPlaces } = await import("./useLocations");
+		expect(typeof useMapPlaces).toBe("function");
+	});
+
+	it("should build map layer features filtered by layer and category", async () => {
+		const { DEFAULT_MAP_LAYER_FILTERS, toMapFeatures } = await import(
+			"../../lib/mapFeatures"
+		);
+		const locations = [
+			{ id: "home", lng: 120.95, lat: 14.34, users: [{ id: "me" }] },
+			{ id: "shop", lng: 120.96, lat: 14.35, users: [{ id: "seller" }] },
+		] as unknown as Parameters<typeof toMapFeatures>[0];
+		const places = {
+			businesses: [
+				{
+					id: "b1",
+					business_name: "Bakery",
+					location_id: "shop",
+					category: { name: "Food", icon: "🍞" },
+				},
+			],
+			services: [
+				{
+					id: "s1",
+					description: "Plumbing",
+					location_id: "shop",
+					category: { name: "Repairs" },
+				},
+			],
+			marketplace: [
+				{ id: "m1", title: "Bike", profile_id: "seller", category: "Sports" },
+			],
+		};
+
+		const all = toMapFeatures(
+			locations,
+			["home"],
+			places,
+			DEFAULT_MAP_LAYER_FILTERS,
+		);
+		expect(all.features.map((feature) => feature.properties)).toEqual([
+			{ id: "home", icon: "house", layer: "home" },
+			{ id: "shop", icon: "pin", layer: "lots" },
+			{ id: "shop", icon: "emoji:🍞", layer: "businesses" },
+			{ id: "shop", icon: "emoji:🔧", layer: "services" },
+			{ id: "shop", icon: "emoji:🛒", layer: "marketplace" },
+		]);
+
+		const filtered = toMapFeatures(locations, ["home"], places, {
+			...DEFAULT_MAP_LAYER_FILTERS,
+			businesses: { visible: true, category: "Clothes" },
+			services: { visible: false, category: "" },
+			home: { visible: false, category: "" },
+		});
+		expect(
+			filtered.features.map((feature) => feature.properties.layer),
+		).toEqual(["lots", "marketplace"]);
+	});
+
+	it("should list layer categories with fallback icons", async () => {
+		const { getLayerCategories } = await import("../../lib/mapFeatures");
+		const categories = getLayerCategories({
+			businesses: [],
+			services: [
+				{ id: "s1", location_id: "a", category: { name: "Repairs" } },
+				{
+					id: "s2",
+					location_id: "b",
+					category: { name: "Cleaning", icon: "🧹" },
+				},
+				{ id: "s3", location_id: "c", category: { name: "Repairs" } },
+			],
+			marketplace: [{ id: "m1", title: "Bike", profile_id: "p" }],
+		});
+		expect(categories.businesses).toEqual([]);
+		expect(categories.services).toEqual([
+			{ name: "Cleaning", icon: "🧹" },
+			{ name: "Repairs", icon: "🔧" },
+		]);
+		expect(categories.marketplace).toEqual([]);
+	});
+
 	it("should export useUserLocationIds function", async () => {
 		const { useUserLocationIds } = await import("./useLocations");
 		expect(typeof useUserLocationIds).toBe("function");
 	});
 
+	it("should export useLocationPlaces function", async () => {
+		const { useLocationPlaces } = await import("./useLocations");
+		expect(typeof useLocationPlaces).toBe("function");
+	});
+
 	it("should export useGeolocation function", async () => {
 		const { useGeolocation } = await import("./useLocations");
 		expect(typeof useGeolocation).toBe("function");
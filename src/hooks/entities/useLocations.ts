@@ -7,9 +7,14 @@
 
 import { supabase } from "../../lib/supabase";
 import type {
+	BusinessInside,
+	BusinessInsideCategory,
 	Location,
 	LocationAssociationRequest,
+	MarketplaceListing,
 	ProfileLocationAssociation,
+	Service,
+	ServiceCategory,
 } from "../../types/database";
 
 // Import new architecture
@@ -22,6 +27,67 @@ import {
 	useCustomMutation,
 } from "../core/useMutationHooks";
 
+/**
+ * Location returned by `get_associated_locations_with_coords()`
+ * (coordinates flattened to lng/lat, with its verified residents)
+ */
+export interface LocationWithCoords extends Location {
+	lng: number;
+	lat: number;
+	users: {
+		id: string;
+		name?: string;
+		avatar_url?: string;
+		is_owner: boolean;
+	}[];
+}
+
+/**
+ * Viewport of the map, in degrees
+ */
+export interface MapBounds {
+	minLng: number;
+	minLat: number;
+	maxLng: number;
+	maxLat: number;
+}
+
+/**
+ * Grid the viewport is snapped to, so small pans reuse the cached query (degrees)
+ */
+const BOUNDS_GRID_STEP = 0.005;
+
+/**
+ * Businesses and services found at a block/lot
+ */
+export interface LocationPlaces {
+	businesses: (Pick<BusinessInside, "id" | "business_name" | "profile_id"> & {
+		category?: Pick<BusinessInsideCategory, "name" | "icon">;
+	})[];
+	services: (Pick<Service, "id" | "description" | "profile_id"> & {
+		category?: Pick<ServiceCategory, "name" | "icon">;
+	})[];
+}
+
+/**
+ * Businesses, services and items for sale shown as map layers
+ * (items for sale are placed at their seller's lot)
+ */
+export interface MapPlaces {
+	businesses: (Pick<BusinessInside, "id" | "business_name"> & {
+		location_id: string;
+		category?: Pick<BusinessInsideCategory, "name" | "icon">;
+	})[];
+	services: (Pick<Service, "id" | "description"> & {
+		location_id: string;
+		category?: Pick<ServiceCategory, "name" | "icon">;
+	})[];
+	marketplace: Pick<
+		MarketplaceListing,
+		"id" | "title" | "profile_id" | "category"
+	>[];
+}
+
 /**
  * Location query keys using the new unified system
  */
@@ -33,6 +99,24 @@ const profileAssociationQueryKeys = new EntityQueryKeys(
 	"profile_location_associations",
 );
 
+/**
+ * Widen a viewport to the surrounding grid cells
+ */
+export function snapBounds(
+	bounds: MapBounds,
+	step: number = BOUNDS_GRID_STEP,
+): MapBounds {
+	const snap = (value: number, round: (value: number) => number) =>
+		Number((round(value / step) * step).toFixed(6));
+
+	return {
+		minLng: snap(bounds.minLng, Math.floor),
+		minLat: snap(bounds.minLat, Math.floor),
+		maxLng: snap(bounds.maxLng, Math.ceil),
+		maxLat: snap(bounds.maxLat, Math.ceil),
+	};
+}
+
 /**
  * Fetch all locations
  */
@@ -103,13 +187,32 @@ async function fetchNearbyLocations(
 /**
  * Fetch associated locations with coordinates
  */
-async function fetchAssociatedLocationsWithCoords(): Promise<Location[]> {
+async function fetchAssociatedLocationsWithCoords(): Promise<
+	LocationWithCoords[]
+> {
 	const { data, error } = await supabase.rpc(
 		"get_associated_locations_with_coords",
 	);
 
 	if (error) throw error;
-	return data as Location[];
+	return (data || []) as LocationWithCoords[];
+}
+
+/**
+ * Fetch the associated locations inside the map viewport
+ */
+async function fetchLocationsInBounds(
+	bounds: MapBounds,
+): Promise<LocationWithCoords[]> {
+	const { data, error } = await supabase.rpc("get_locations_in_bounds", {
+		min_lng: bounds.minLng,
+		min_lat: bounds.minLat,
+		max_lng: bounds.maxLng,
+		max_lat: bounds.maxLat,
+	});
+
+	if (error) throw error;
+	return (data || []) as LocationWithCoords[];
 }
 
 /**
@@ -126,6 +229,95 @@ async function fetchUserLocationIds(userId: string): Promise<string[]> {
 	return data?.map((item) => item.location_id) || [];
 }
 
+/**
+ * Fetch the active businesses and services of a block/lot
+ */
+async function fetchLocationPlaces(
+	locationId: string,
+): Promise<LocationPlaces> {
+	if (!locationId) return { businesses: [], services: [] };
+
+	const [businessesResult, servicesResult] = await Promise.all([
+		supabase
+			.from("user_business_inside")
+			.select(
+				"id, business_name, profile_id, category:business_inside_categories(name, icon)",
+			)
+			.eq("location_id", locationId)
+			.eq("is_active", true)
+			.order("business_name", { ascending: true }),
+		supabase
+			.from("user_services")
+			.select(
+				"id, description, profile_id, category:service_categories(name, icon)",
+			)
+			.eq("location_id", locationId)
+			.eq("is_active", true)
+			.order("created_at", { ascending: true }),
+	]);
+
+	if (businessesResult.error) throw businessesResult.error;
+	if (servicesResult.error) throw servicesResult.error;
+	// Category embeds are to-one relations
+	return {
+		businesses: (businessesResult.data ||
+			[]) as unknown as LocationPlaces["businesses"],
+		services: (servicesResult.data ||
+			[]) as unknown as LocationPlaces["services"],
+	};
+}
+
+/**
+ * Fetch the map layer places of the given lots and residents
+ */
+async function fetchMapPlaces(
+	locationIds: string[],
+	residentIds: string[],
+): Promise<MapPlaces> {
+	if (locationIds.length === 0) {
+		return { businesses: [], services: [], marketplace: [] };
+	}
+
+	const [businessesResult, servicesResult, marketplaceResult] =
+		await Promise.all([
+			supabase
+				.from("user_business_inside")
+				.select(
+					"id, business_name, location_id, category:business_inside_categories(name, icon)",
+				)
+				.in("location_id", locationIds)
+				.eq("is_active", true),
+			supabase
+				.from("user_services")
+				.select(
+					"id, description, location_id, category:service_categories(name, icon)",
+				)
+				.in("location_id", locationIds)
+				.eq("is_active", true),
+			// Only residents who appear on the map can have their items placed
+			residentIds.length > 0
+				? supabase
+						.from("marketplace_listings")
+						.select("id, title, profile_id, category")
+						.in("profile_id", residentIds)
+						.eq("is_active", true)
+						.eq("listing_type", "selling")
+						.eq("status", "available")
+				: Promise.resolve({ data: [], error: null }),
+		]);
+
+	if (businessesResult.error) throw businessesResult.error;
+	if (servicesResult.error) throw servicesResult.error;
+	if (marketplaceResult.error) throw marketplaceResult.error;
+	// Category embeds are to-one relations
+	return {
+		businesses: (businessesResult.data ||
+			[]) as unknown as MapPlaces["businesses"],
+		services: (servicesResult.data || []) as unknown as MapPlaces["services"],
+		marketplace: (marketplaceResult.data || []) as MapPlaces["marketplace"],
+	};
+}
+
 /**
  * Fetch location association requests
  */
@@ -362,7 +554,7 @@ export function useNearbyLocations(
  * Hook for associated locations with coordinates
  */
 export function useAssociatedLocationsWithCoords() {
-	return useGenericQuery<Location[]>({
+	return useGenericQuery<LocationWithCoords[]>({
 		queryKey: [...locationQueryKeys.lists(), "with-coords"],
 		queryFn: fetchAssociatedLocationsWithCoords,
 		entityName: "location",
@@ -370,6 +562,23 @@ export function useAssociatedLocationsWithCoords() {
 	});
 }
 
+/**
+ * Hook for the associated locations inside the map viewport
+ * Pass snapped bounds so panning within the same cells hits the cache
+ */
+export function useLocationsInBounds(bounds: MapBounds | null) {
+	return useGenericQuery<LocationWithCoords[]>({
+		queryKey: locationQueryKeys.byFilter({ bounds }),
+		queryFn: () =>
+			bounds ? fetchLocationsInBounds(bounds) : Promise.resolve([]),
+		entityName: "location",
+		operationName: "inBounds",
+		additionalOptions: {
+			enabled: !!bounds,
+		},
+	});
+}
+
 /**
  * Hook for user location IDs
  */
@@ -385,6 +594,56 @@ export function useUserLocationIds(userId: string) {
 	});
 }
 
+/**
+ * Hook for the businesses and services of a block/lot
+ */
+export function useLocationPlaces(locationId: string) {
+	return useGenericQuery<LocationPlaces>({
+		queryKey: [...locationQueryKeys.byId(locationId), "places"],
+		queryFn: () => fetchLocationPlaces(locationId),
+		entityName: "location",
+		operationName: "places",
+		additionalOptions: {
+			enabled: !!locationId,
+		},
+	});
+}
+
+/**
+ * Hook for the map layer places of the lots loaded in a viewport
+ */
+export function useMapPlaces(
+	bounds: MapBounds | null,
+	locations: LocationWithCoords[] | undefined,
+) {
+	// Sorted so the same lots give the same cache entry whatever their order
+	const locationIds = locations?.map((location) => location.id).sort() || [];
+	const residentIds = [
+		...new Set(
+			locations?.flatMap((location) =>
+				location.users.map((resident) => resident.id),
+			),
+		),
+	].sort();
+
+	return useGenericQuery<MapPlaces>({
+		// Lots and residents are part of the key: the same bounds can gain new ones
+		queryKey: [
+			...locationQueryKeys.byFilter({ bounds }),
+			"places",
+			...locationIds,
+			"residents",
+			...residentIds,
+		],
+		queryFn: () => fetchMapPlaces(locationIds, residentIds),
+		entityName: "location",
+		operationName: "mapPlaces",
+		additionalOptions: {
+			enabled: !!bounds && !!locations,
+		},
+	});
+}
+
 /**
  * Hook for location mutations
  */
@@ -823,7 +1082,7 @@ export function useProfileLocationAssociationById(associationId: string) {
  */
 export function useProfileLocationAssociationsByProfile(profileId: string) {
 	return useGenericQuery<ProfileLocationAssociation[]>({
-		queryKey: profileAssociationQueryKeys,
+		queryKey: [...profileAssociationQueryKeys.lists(), "profile", profileId],
 		queryFn: () => fetchProfileLocationAssociationsByProfile(profileId),
 		entityName: "profileLocationAssociations",
 		operationName: "fetchByProfile",
@@ -48,6 +48,16 @@ describe("useMessaging API Compatibility", () => {
 		expect(typeof useMessagingPrivateMessagesBetweenUsers).toBe("function");
 	});
 
+	it("should export useMessagingConversations function", async () => {
+		const { useMessagingConversations } = await import("./useMessaging");
+		expect(typeof useMessagingConversations).toBe("function");
+	});
+
+	it("should export useMessagingAttachmentUrl function", async () => {
+		const { useMessagingAttachmentUrl } = await import("./useMessaging");
+		expect(typeof useMessagingAttachmentUrl).toBe("function");
+	});
+
 	it("should export useMessagingHeaderMutations function", async () => {
 		const { useMessagingHeaderMutations } = await import("./useMessaging");
 		expect(typeof useMessagingHeaderMutations).toBe("function");
@@ -63,6 +73,13 @@ describe("useMessaging API Compatibility", () => {
 		expect(typeof useMessagingMessageMutations).toBe("function");
 	});
 
+	it("should export useMessagingConversationMutations function", async () => {
+		const { useMessagingConversationMutations } = await import(
+			"./useMessaging"
+		);
+		expect(typeof useMessagingConversationMutations).toBe("function");
+	});
+
 	it("should export header query keys", async () => {
 		const { headerQueryKeys } = await import("./useMessaging");
 		expect(headerQueryKeys).toBeDefined();
@@ -90,4 +107,286 @@ describe("useMessaging API Compatibility", () => {
 		expect(typeof privateMessageQueryKeys.all).toBe("function");
 		expect(typeof privateMessageQueryKeys.byId).toBe("function");
 	});
+
+	it("should export useMessagingChatChannels function", async () => {
+		const { useMessagingChatChannels } = await import("./useMessaging");
+		expect(typeof useMessagingChatChannels).toBe("function");
+	});
+
+	it("should export useMessagingChannelMessages function", async () => {
+		const { useMessagingChannelMessages } = await import("./useMessaging");
+		expect(typeof useMessagingChannelMessages).toBe("function");
+	});
+
+	it("should export useBlockChannelMembership function", async () => {
+		const { useBlockChannelMembership } = await import("./useMessaging");
+		expect(typeof useBlockChannelMembership).toBe("function");
+	});
+
+	it("should resolve one channel per verified block", async () => {
+		const { resolveBlockChannels } = await import("./useMessaging");
+		const locations = [
+			{ id: "loc-1", block: "10" },
+			{ id: "loc-2", block: "10" },
+			{ id: "loc-3", block: "2" },
+			{ id: "loc-4", block: "7" },
+		];
+
+		const channels = resolveBlockChannels(
+			[
+				{ location_id: "loc-1", is_verified: true },
+				{ location_id: "loc-2", is_verified: true },
+				{ location_id: "loc-3", is_verified: true },
+				{ location_id: "loc-4", is_verified: false },
+			],
+			locations,
+		);
+
+		expect(channels.map((channel) => channel.id)).toEqual([
+			"block-2",
+			"block-10",
+		]);
+		expect(resolveBlockChannels([], locations)).toEqual([]);
+	});
+
+	it("should only move the channel read marker forward", async () => {
+		const { getChannelLastRead, setChannelLastRead } = await import(
+			"./useMessaging"
+		);
+
+		setChannelLastRead("user-1", "general", "2025-01-02T10:00:00.000Z");
+		setChannelLastRead("user-1", "general", "2025-01-01T10:00:00.000Z");
+
+		expect(getChannelLastRead("user-1", "general")).toBe(
+			"2025-01-02T10:00:00.000Z",
+		);
+		expect(getChannelLastRead("user-1", "lost-and-found")).toBeNull();
+	});
+
+	it("should price longer header announcements higher", async () => {
+		const { HEADER_DURATIONS, getHeaderExpiry } = await import(
+			"./useMessaging"
+		);
+
+		for (let i = 1; i < HEADER_DURATIONS.length; i++) {
+			expect(HEADER_DURATIONS[i].hours).toBeGreaterThan(
+				HEADER_DURATIONS[i - 1].hours,
+			);
+			expect(HEADER_DURATIONS[i].coins).toBeGreaterThan(
+				HEADER_DURATIONS[i - 1].coins,
+			);
+		}
+
+		const from = Date.parse("2025-01-01T00:00:00.000Z");
+		expect(getHeaderExpiry(24, from)).toBe("2025-01-02T00:00:00.000Z");
+	});
+
+	it("should treat headers without expiry or expiring later as active", async () => {
+		const { isHeaderActive } = await import("./useMessaging");
+		const now = Date.parse("2025-01-01T12:00:00.000Z");
+
+		expect(isHeaderActive({}, now)).toBe(true);
+		expect(
+			isHeaderActive({ expires_at: "2025-01-02T00:00:00.000Z" }, now),
+		).toBe(true);
+		expect(
+			isHeaderActive({ expires_at: "2025-01-01T11:59:00.000Z" }, now),
+		).toBe(false);
+	});
+
+	it("should only allow editing within the edit window", async () => {
+		const { isMessageEditable, MESSAGE_EDIT_WINDOW_MS } = await import(
+			"./useMessaging"
+		);
+		const now = Date.now();
+		const recent = new Date(now - 60 * 1000).toISOString();
+		const old = new Date(now - MESSAGE_EDIT_WINDOW_MS - 1000).toISOString();
+
+		expect(isMessageEditable({ created_at: recent }, now)).toBe(true);
+		expect(isMessageEditable({ created_at: old }, now)).toBe(false);
+		expect(
+			isMessageEditable({ created_at: recent, deleted_at: recent }, now),
+		).toBe(false);
+	});
+
+	it("should build message previews per message type", async () => {
+		const { getMessagePreview } = await import("./useMessaging");
+
+		expect(getMessagePreview({ message: "Hi", message_type: "text" })).toBe(
+			"Hi",
+		);
+		expect(
+			getMessagePreview({ message: "photo.jpg", message_type: "image" }),
+		).toBe("📷 Photo");
+		expect(
+			getMessagePreview({
+				message: "Hi",
+				message_type: "text",
+				deleted_at: new Date().toISOString(),
+			}),
+		).toBe("Message deleted");
+	});
+
+	it("should accept attachments by type and size", async () => {
+		const { validateUpload, UPLOAD_LIMITS } = await import("../../lib/storage");
+		const fileOf = (type: string, size: number) =>
+			new File([new Uint8Array(size)], "upload", { type });
+
+		expect(validateUpload(fileOf("image/png", 1024))).toBe("image");
+		expect(validateUpload(fileOf("application/pdf", 1024))).toBe("file");
+		expect(() =>
+			validateUpload(fileOf("image/jpeg", UPLOAD_LIMITS.MAX_IMAGE_SIZE + 1)),
+		).toThrow("Image is too large (max 15 MB)");
+		expect(() =>
+			validateUpload(fileOf("text/csv", UPLOAD_LIMITS.MAX_FILE_SIZE + 1)),
+		).toThrow("File is too large (max 10 MB)");
+		expect(() =>
+			validateUpload(fileOf("application/x-msdownload", 10)),
+		).toThrow("This file type is not supported");
+	});
+
+	it("should round-trip shared locations as geo URIs", async () => {
+		const { parseGeoUri, toGeoUri } = await import("../../lib/geo");
+
+		expect(toGeoUri(14.347873, 120.951349)).toBe("geo:14.347873,120.951349");
+		expect(parseGeoUri(toGeoUri(-33.5, -70.25))).toEqual({
+			lat: -33.5,
+			lng: -70.25,
+		});
+		// Optional RFC 5870 parameters after the coordinates are ignored
+		expect(parseGeoUri("geo:14.35,120.95;u=35")).toEqual({
+			lat: 14.35,
+			lng: 120.95,
+		});
+	});
+
+	it("should reject invalid geo URIs", async () => {
+		const { parseGeoUri } = await import("../../lib/geo");
+
+		expect(parseGeoUri(undefined)).toBeNull();
+		expect(parseGeoUri("")).toBeNull();
+		expect(parseGeoUri("https://maps.example.com/?q=14,120")).toBeNull();
+		expect(parseGeoUri("geo:abc,def")).toBeNull();
+		expect(parseGeoUri("geo:91,120")).toBeNull();
+		expect(parseGeoUri("geo:14,181")).toBeNull();
+	});
+
+	it("should export a conversation and read it back", async () => {
+		const {
+			buildConversationExport,
+			buildTranscript,
+			parseConversationExport,
+		} = await import("../../lib/conversationExport");
+		// Local times, so the transcript does not depend on the time zone
+		const at = (minutes: number) =>
+			new Date(2026, 0, 5, 9, minutes).toISOString();
+		const message = (id: string, minutes: number, changes = {}) => ({
+			id,
+			sender_id: "u1",
+			receiver_id: "u2",
+			message: `Message ${id}`,
+			created_at: at(minutes),
+			updated_at: at(minutes),
+			message_type: "text" as const,
+			is_edited: false,
+			...changes,
+		});
+
+		const conversation = buildConversationExport(
+			[
+				message("m1", 0),
+				message("m2", 5, {
+					sender_id: "u2",
+					reply_to: "m1",
+					is_edited: true,
+					updated_at: at(7),
+				}),
+				message("m3", 10, {
+					message_type: "location",
+					attachment_url: "geo:14.35,120.95",
+				}),
+				message("m4", 15, { sender_id: "u3", deleted_at: at(20) }),
+			],
+			[
+				{ id: "u1", username: "alice" },
+				{ id: "u2", username: "bob" },
+			],
+		);
+
+		expect(conversation.messages[1]).toMatchObject({
+			sender_username: "bob",
+			is_edited: true,
+			edited_at: at(7),
+		});
+		expect(conversation.messages[3]).toMatchObject({
+			sender_username: "Unknown user",
+			message: "",
+			is_deleted: true,
+		});
+		expect(parseConversationExport(JSON.stringify(conversation))).toEqual(
+			conversation,
+		);
+
+		const transcript = buildTranscript(conversation).split("\n");
+		expect(transcript[0]).toBe("Conversation between alice & bob");
+		expect(transcript.slice(3)).toEqual([
+			"[2026-01-05 09:00] alice: Message m1",
+			'  ↪ replying to alice: "Message m1"',
+			"[2026-01-05 09:05] bob: Message m2 (edited 2026-01-05 09:07)",
+			"[2026-01-05 09:10] alice: [location] Message m3 <geo:14.35,120.95>",
+			"[2026-01-05 09:15] Unknown user: (message deleted)",
+			"",
+		]);
+	});
+
+	it("should reject files that are not conversation exports", async () => {
+		const { parseConversationExport } = await import(
+			"../../lib/conversationExport"
+		);
+		const valid = {
+			version: 1,
+			exported_at: "2026-01-05T09:00:00.000Z",
+			participants: [{ id: "u1", username: "alice" }],
+			messages: [
+				{
+					id: "m1",
+					sent_at: "2026-01-05T09:00:00.000Z",
+					sender_id: "u1",
+					message: "Hello",
+				},
+			],
+		};
+		const invalid = [
+			"not json",
+			"null",
+			JSON.stringify({ ...valid, version: 2 }),
+			JSON.stringify({ ...valid, participants: undefined }),
+			JSON.stringify({ ...valid, messages: "m1" }),
+			JSON.stringify({ ...valid, messages: [null] }),
+			JSON.stringify({
+				...valid,
+				messages: [{ ...valid.messages[0], sender_id: 42 }],
+			}),
+		];
+
+		expect(
+			parseConversationExport(JSON.stringify(valid)).messages,
+		).toHaveLength(1);
+		for (const content of invalid) {
+			expect(() => parseConversationExport(content)).toThrow(
+				"This file is not a valid conversation export",
+			);
+		}
+	});
+
+	it("should name export files after the partner and the day", async () => {
+		const { getExportFilename } = await import("../../lib/conversationExport");
+
+		expect(getExportFilename("Jean Dupont", "txt")).toMatch(
+			/^conversation-jean-dupont-\d{4}-\d{2}-\d{2}\.txt$/,
+		);
+		expect(getExportFilename(undefined, "json")).toMatch(
+			/^conversation-conversation-\d{4}-\d{2}-\d{2}\.json$/,
+		);
+	});
 });
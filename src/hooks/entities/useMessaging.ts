@@ -5,16 +5,37 @@
  * into a single, cohesive API following the new entity architecture.
  */
 
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import {
+	type InfiniteData,
+	useInfiniteQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
 import { useEffect } from "react";
 import { supabase } from "../../lib/supabase";
+import {
+	STORAGE_BUCKETS,
+	getSignedFileUrl,
+	uploadFile,
+} from "../../lib/storage";
+import {
+	type ExportFormat,
+	buildConversationExport,
+	buildTranscript,
+	downloadFile,
+	getExportFilename,
+} from "../../lib/conversationExport";
 import type {
 	Chat,
+	Location,
 	PrivateMessage,
 	MessagesHeader,
+	Profile,
+	ProfileLocationAssociation,
 } from "../../types/database";
 
 // Import new architecture
-import { EntityQueryKeys } from "../utils/queryKeys";
+import { EntityQueryKeys, queryKeys } from "../utils/queryKeys";
 import { useGenericQuery } from "../core/useGenericQuery";
 import {
 	useCreateMutation,
@@ -22,56 +43,257 @@ import {
 	useDeleteMutation,
 	useCustomMutation,
 } from "../core/useMutationHooks";
+import { useOptimisticUpdate } from "../core/useOptimistic";
+import { CacheConfigManager } from "../utils/queryConfig";
+import { type AppError, ErrorHandler } from "../utils/errorHandling";
+import { useProfileLocationAssociationsByProfile } from "./useLocations";
+import { coinTransactionQueryKeys } from "./useCoins";
+
+/**
+ * Header announcement durations and their price in coins
+ * Shown in the composer, publish_header_message() applies the same table
+ */
+export const HEADER_DURATIONS = [
+	{ id: "6h", label: "6 hours", hours: 6, coins: 1 },
+	{ id: "1d", label: "1 day", hours: 24, coins: 2 },
+	{ id: "3d", label: "3 days", hours: 72, coins: 5 },
+	{ id: "1w", label: "1 week", hours: 168, coins: 10 },
+] as const;
+
+export type HeaderDurationId = (typeof HEADER_DURATIONS)[number]["id"];
+
+/**
+ * How often the active announcements are refetched (ms)
+ */
+const HEADER_REFRESH_INTERVAL = 60 * 1000;
+
+/**
+ * Whether an announcement is still shown in the header
+ */
+export function isHeaderActive(
+	header: Pick<MessagesHeader, "expires_at">,
+	now = Date.now(),
+): boolean {
+	return !header.expires_at || new Date(header.expires_at).getTime() > now;
+}
+
+/**
+ * Max length of a header announcement (it has to fit the banner)
+ */
+export const HEADER_MESSAGE_MAX_LENGTH = 120;
+
+/**
+ * Expiry date of an announcement published now for a duration
+ */
+export function getHeaderExpiry(hours: number, from = Date.now()): string {
+	return new Date(from + hours * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Community chat channel (messages live in `chat` under its `channel_id`)
+ */
+export interface ChatChannel {
+	id: string;
+	name: string;
+	description: string;
+	block?: string;
+}
+
+/**
+ * Chat message with its author profile
+ */
+export interface ChannelMessage extends Chat {
+	author?: Pick<Profile, "id" | "username" | "avatar_url">;
+}
+
+/**
+ * Channels available to every resident (block channels are private
+ * to the verified residents of the block)
+ */
+export const COMMUNITY_CHANNELS: ChatChannel[] = [
+	{
+		id: "general",
+		name: "General",
+		description: "Everything about life in the community",
+	},
+	{
+		id: "lost-and-found",
+		name: "Lost & Found",
+		description: "Lost something? Found something? Post it here",
+	},
+];
+
+/**
+ * Number of chat messages loaded per page
+ */
+export const CHAT_PAGE_SIZE = 30;
+
+/**
+ * Channel id of a block channel
+ */
+export function getBlockChannelId(block: string): string {
+	return `block-${block}`;
+}
+
+/**
+ * Whether a channel id is a (private) block channel
+ */
+export function isBlockChannelId(channelId: string): boolean {
+	return channelId.startsWith("block-");
+}
+
+/**
+ * Resolve the block channels of a resident from their location
+ * associations: one channel per block with a verified association
+ */
+export function resolveBlockChannels(
+	associations: Pick<
+		ProfileLocationAssociation,
+		"location_id" | "is_verified"
+	>[],
+	locations: Pick<Location, "id" | "block">[],
+): ChatChannel[] {
+	const blocksByLocation = new Map(
+		locations.map((location) => [location.id, location.block]),
+	);
+
+	const blocks = new Set<string>();
+	for (const association of associations) {
+		if (!association.is_verified || !association.location_id) continue;
+
+		const block = blocksByLocation.get(association.location_id);
+		if (block) blocks.add(block);
+	}
+
+	return [...blocks]
+		.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+		.map((block) => ({
+			id: getBlockChannelId(block),
+			name: `Block ${block}`,
+			description: `Private channel for residents of block ${block}`,
+			block,
+		}));
+}
+
+/**
+ * Last message a user has seen in a channel, stored on the device
+ */
+export function getChannelLastRead(
+	userId: string,
+	channelId: string,
+): string | null {
+	try {
+		return localStorage.getItem(`chat-last-read:${userId}:${channelId}`);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Remember the last message a user has seen in a channel
+ */
+export function setChannelLastRead(
+	userId: string,
+	channelId: string,
+	date: string,
+): void {
+	try {
+		const current = getChannelLastRead(userId, channelId);
+		if (current && current >= date) return;
+		localStorage.setItem(`chat-last-read:${userId}:${channelId}`, date);
+	} catch {
+		// Storage unavailable (private mode), the marker is best effort
+	}
+}
+
+/**
+ * Conversation summary shown in the messaging inbox
+ */
+export interface Conversation {
+	partner: Pick<Profile, "id" | "username" | "full_name" | "avatar_url">;
+	lastMessage: PrivateMessage;
+	unreadCount: number;
+}
+
+/**
+ * How long after sending a message (private or chat) it can still be edited
+ */
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Whether a message is still within its edit window
+ */
+export function isMessageEditable(
+	message: { created_at: string; deleted_at?: string },
+	now: number = Date.now(),
+): boolean {
+	if (message.deleted_at) return false;
+	return now - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MS;
+}
+
+/**
+ * One-line preview of a private message, depending on its type
+ */
+export function getMessagePreview(
+	message: Pick<PrivateMessage, "message" | "message_type" | "deleted_at">,
+): string {
+	if (message.deleted_at) return "Message deleted";
+
+	switch (message.message_type) {
+		case "image":
+			return "📷 Photo";
+		case "file":
+			return `📎 ${message.message}`;
+		case "location":
+			return "📍 Location";
+		default:
+			return message.message;
+	}
+}
 
 // Query functions (previously in queryFunctions.ts)
 const messagesQueries = {
-	getHeaders: async () => {
+	getHeaders: async (): Promise<MessagesHeader[]> => {
 		const { data, error } = await supabase
-			.from("messages_headers")
+			.from("messages_header")
 			.select("*")
 			.order("created_at", { ascending: false });
 
 		if (error) throw error;
-		return data;
+		return data || [];
 	},
 
-	getActiveHeaders: async () => {
+	// Expired rows are filtered here, not left to the insert-time cleanup
+	getActiveHeaders: async (): Promise<MessagesHeader[]> => {
 		const { data, error } = await supabase
-			.from("messages_headers")
+			.from("messages_header")
 			.select("*")
-			.eq("is_active", true)
+			.or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
 			.order("created_at", { ascending: false });
 
 		if (error) throw error;
-		return data;
+		return data || [];
 	},
 
-	getUserHeaders: async (userId: string) => {
+	getUserHeaders: async (userId: string): Promise<MessagesHeader[]> => {
 		const { data, error } = await supabase
-			.from("messages_headers")
+			.from("messages_header")
 			.select("*")
-			.or(`sender_id.eq.${userId},receiver_id.eq.${userId}`)
+			.eq("user_id", userId)
 			.order("created_at", { ascending: false });
 
 		if (error) throw error;
-		return data;
+		return data || [];
 	},
 
-	createHeader: async (headerData: any) => {
+	// Only the text can change: price and expiry are set by publish_header_message()
+	updateHeader: async (
+		id: string,
+		updates: Pick<MessagesHeader, "message">,
+	): Promise<MessagesHeader> => {
 		const { data, error } = await supabase
-			.from("messages_headers")
-			.insert(headerData)
-			.select()
-			.single();
-
-		if (error) throw error;
-		return data;
-	},
-
-	updateHeader: async (id: string, updates: any) => {
-		const { data, error } = await supabase
-			.from("messages_headers")
-			.update(updates)
+			.from("messages_header")
+			.update({ ...updates, updated_at: new Date().toISOString() })
 			.eq("id", id)
 			.select()
 			.single();
@@ -80,9 +302,9 @@ const messagesQueries = {
 		return data;
 	},
 
-	deleteHeader: async (id: string) => {
+	deleteHeader: async (id: string): Promise<void> => {
 		const { error } = await supabase
-			.from("messages_headers")
+			.from("messages_header")
 			.delete()
 			.eq("id", id);
 
@@ -151,6 +373,107 @@ async function fetchChatById(id: string): Promise<Chat | null> {
 	return data;
 }
 
+/**
+ * Fetch the block of each given location
+ */
+async function fetchLocationBlocks(
+	locationIds: string[],
+): Promise<Pick<Location, "id" | "block">[]> {
+	if (locationIds.length === 0) return [];
+
+	const { data, error } = await supabase
+		.from("locations")
+		.select("id, block")
+		.in("id", locationIds)
+		.is("deleted_at", null);
+
+	if (error) throw error;
+	return data || [];
+}
+
+const CHANNEL_MESSAGE_SELECT =
+	"*, author:profiles!messages_user_id_fkey(id, username, avatar_url)";
+
+/**
+ * Fetch a page of channel messages, newest first, older than `before`
+ */
+async function fetchChannelMessages(
+	channelId: string,
+	before?: string,
+): Promise<ChannelMessage[]> {
+	let query = supabase
+		.from("chat")
+		.select(CHANNEL_MESSAGE_SELECT)
+		.eq("channel_id", channelId)
+		.order("created_at", { ascending: false })
+		.limit(CHAT_PAGE_SIZE);
+
+	if (before) {
+		query = query.lt("created_at", before);
+	}
+
+	const { data, error } = await query;
+
+	if (error) throw error;
+	return data || [];
+}
+
+/**
+ * Fetch a single channel message with its author
+ */
+async function fetchChannelMessageById(
+	id: string,
+): Promise<ChannelMessage | null> {
+	const { data, error } = await supabase
+		.from("chat")
+		.select(CHANNEL_MESSAGE_SELECT)
+		.eq("id", id)
+		.maybeSingle();
+
+	if (error) throw error;
+	return data;
+}
+
+/**
+ * Query key of the paginated messages of a channel
+ * (kept outside lists(): the generic optimistic helpers expect flat arrays)
+ */
+function getChannelQueryKey(channelId: string) {
+	return [...chatQueryKeys.all(), "channel", channelId];
+}
+
+/**
+ * Apply a change to the loaded pages of a channel
+ */
+function updateChannelPages(
+	queryClient: ReturnType<typeof useQueryClient>,
+	channelId: string,
+	update: (pages: ChannelMessage[][]) => ChannelMessage[][],
+) {
+	queryClient.setQueryData<InfiniteData<ChannelMessage[], string | undefined>>(
+		getChannelQueryKey(channelId),
+		(data) => (data ? { ...data, pages: update(data.pages) } : data),
+	);
+}
+
+/**
+ * Merge changes into one message of the loaded pages of its channel
+ */
+function updateChannelMessage(
+	queryClient: ReturnType<typeof useQueryClient>,
+	channelId: string,
+	id: string,
+	changes: Partial<ChannelMessage>,
+) {
+	updateChannelPages(queryClient, channelId, (pages) =>
+		pages.map((page) =>
+			page.map((message) =>
+				message.id === id ? { ...message, ...changes } : message,
+			),
+		),
+	);
+}
+
 /**
  * Fetch messages by chat ID
  */
@@ -168,32 +491,99 @@ async function fetchMessagesByChat(chatId: string): Promise<PrivateMessage[]> {
 }
 
 /**
- * Fetch private messages between users
+ * Fetch the conversation deletion cut-offs of a user, keyed by participant
  */
-async function fetchPrivateMessagesBetweenUsers(
+async function fetchConversationDeletions(
+	userId: string,
+): Promise<Map<string, string>> {
+	const { data, error } = await supabase
+		.from("conversation_deletions")
+		.select("participant_id, deleted_at")
+		.eq("user_id", userId);
+
+	if (error) throw error;
+
+	// Keep only the latest deletion per participant
+	const deletions = new Map<string, string>();
+	for (const deletion of data || []) {
+		const current = deletions.get(deletion.participant_id);
+		if (!current || deletion.deleted_at > current) {
+			deletions.set(deletion.participant_id, deletion.deleted_at);
+		}
+	}
+	return deletions;
+}
+
+/**
+ * Fetch private messages between users, as seen by userId1
+ */
+export async function fetchPrivateMessagesBetweenUsers(
 	userId1: string,
 	userId2: string,
 ): Promise<PrivateMessage[]> {
 	if (!userId1 || !userId2) return [];
 
-	const { data, error } = await supabase
+	const deletions = await fetchConversationDeletions(userId1);
+	const deletedAt = deletions.get(userId2);
+
+	let query = supabase
 		.from("private_messages")
 		.select("*")
 		.or(
-			`(sender_id.eq.${userId1},receiver_id.eq.${userId2}),(sender_id.eq.${userId2},receiver_id.eq.${userId1})`,
-		)
-		.order("created_at", { ascending: true });
+			`and(sender_id.eq.${userId1},receiver_id.eq.${userId2}),and(sender_id.eq.${userId2},receiver_id.eq.${userId1})`,
+		);
+
+	// Hide messages from before userId1 deleted the conversation
+	if (deletedAt) {
+		query = query.gt("created_at", deletedAt);
+	}
+
+	const { data, error } = await query.order("created_at", { ascending: true });
 
 	if (error) throw error;
 	return data || [];
 }
 
+/**
+ * Fetch the inbox of a user, one entry per conversation partner
+ * (grouped by `get_conversations()`, newest conversation first)
+ */
+async function fetchConversations(userId: string): Promise<Conversation[]> {
+	if (!userId) return [];
+
+	const { data, error } = await supabase.rpc("get_conversations", {
+		p_user_id: userId,
+	});
+
+	if (error) throw error;
+
+	return (
+		(data || []) as {
+			partner_id: string;
+			partner_username?: string;
+			partner_full_name?: string;
+			partner_avatar_url?: string;
+			last_message: PrivateMessage;
+			unread_count: number;
+		}[]
+	).map((row) => ({
+		partner: {
+			id: row.partner_id,
+			username: row.partner_username,
+			full_name: row.partner_full_name,
+			avatar_url: row.partner_avatar_url,
+		},
+		lastMessage: row.last_message,
+		unreadCount: row.unread_count,
+	}));
+}
+
 /**
  * Hook for all message headers
  */
 export function useMessagingHeaders() {
 	return useGenericQuery<MessagesHeader[]>({
-		queryKey: headerQueryKeys,
+		queryKey: headerQueryKeys.lists(),
 		queryFn: fetchHeaders,
 		entityName: "headers",
 		operationName: "fetchAll",
@@ -201,23 +591,27 @@ export function useMessagingHeaders() {
 }
 
 /**
- * Hook for active message headers
+ * Hook for active (not yet expired) message headers
  */
 export function useMessagingActiveHeaders() {
 	return useGenericQuery<MessagesHeader[]>({
-		queryKey: headerQueryKeys,
+		queryKey: [...headerQueryKeys.lists(), "active"],
 		queryFn: fetchActiveHeaders,
 		entityName: "headers",
 		operationName: "fetchActive",
+		// Drop announcements from the banner soon after they expire
+		cacheOverrides: {
+			refetchInterval: HEADER_REFRESH_INTERVAL,
+		},
 	});
 }
 
 /**
- * Hook for user message headers
+ * Hook for the announcements published by a user, expired ones included
  */
 export function useMessagingUserHeaders(userId: string) {
 	return useGenericQuery<MessagesHeader[]>({
-		queryKey: headerQueryKeys,
+		queryKey: headerQueryKeys.byUser(userId),
 		queryFn: () => fetchUserHeaders(userId),
 		entityName: "headers",
 		operationName: "fetchByUser",
@@ -254,6 +648,210 @@ export function useMessagingChatById(chatId: string) {
 	});
 }
 
+/**
+ * Hook resolving the private block channels a resident belongs to
+ * Follows association changes in realtime, so channels appear on approval
+ * and disappear on revocation
+ */
+export function useBlockChannelMembership(profileId: string) {
+	const associationsQuery = useProfileLocationAssociationsByProfile(profileId);
+	const { refetch: refetchAssociations } = associationsQuery;
+
+	const verifiedLocationIds = (associationsQuery.data || [])
+		.filter((association) => association.is_verified && association.location_id)
+		.map((association) => association.location_id as string)
+		.sort();
+
+	const locationsQuery = useGenericQuery<Pick<Location, "id" | "block">[]>({
+		queryKey: [...chatQueryKeys.all(), "blocks", ...verifiedLocationIds],
+		queryFn: () => fetchLocationBlocks(verifiedLocationIds),
+		entityName: "chats",
+		operationName: "fetchChannelBlocks",
+		additionalOptions: {
+			enabled: verifiedLocationIds.length > 0,
+		},
+	});
+
+	useEffect(() => {
+		if (!profileId) return;
+
+		const channel = supabase
+			.channel(`block-membership:${profileId}`)
+			.on(
+				"postgres_changes",
+				{
+					event: "*",
+					schema: "public",
+					table: "profile_location_associations",
+					filter: `profile_id=eq.${profileId}`,
+				},
+				() => {
+					refetchAssociations();
+				},
+			)
+			// Delete events cannot be filtered, refetching is cheap
+			.on(
+				"postgres_changes",
+				{
+					event: "DELETE",
+					schema: "public",
+					table: "profile_location_associations",
+				},
+				() => {
+					refetchAssociations();
+				},
+			)
+			.subscribe();
+
+		return () => {
+			supabase.removeChannel(channel);
+		};
+	}, [profileId, refetchAssociations]);
+
+	return {
+		channels: resolveBlockChannels(
+			associationsQuery.data || [],
+			verifiedLocationIds.length > 0 ? locationsQuery.data || [] : [],
+		),
+		isLoading:
+			associationsQuery.isLoading ||
+			(verifiedLocationIds.length > 0 && locationsQuery.isLoading),
+		error: associationsQuery.error || locationsQuery.error,
+		errorMessage: associationsQuery.errorMessage || locationsQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for the chat channels of a user: community channels first,
+ * then the private channels of their blocks
+ */
+export function useMessagingChatChannels(userId: string) {
+	const { channels, isLoading, error, errorMessage } =
+		useBlockChannelMembership(userId);
+
+	return {
+		data: [...COMMUNITY_CHANNELS, ...channels],
+		isLoading,
+		error,
+		errorMessage,
+	};
+}
+
+/**
+ * Hook for the messages of a channel, paginated backwards through history
+ * and kept up to date in realtime
+ */
+export function useMessagingChannelMessages(channelId: string) {
+	const queryClient = useQueryClient();
+	const queryKey = getChannelQueryKey(channelId);
+
+	const query = useInfiniteQuery<
+		ChannelMessage[],
+		AppError,
+		InfiniteData<ChannelMessage[], string | undefined>,
+		string[],
+		string | undefined
+	>({
+		queryKey,
+		queryFn: async ({ pageParam }) => {
+			try {
+				return await fetchChannelMessages(channelId, pageParam);
+			} catch (error) {
+				throw ErrorHandler.handleQueryError(
+					error,
+					"chats",
+					"fetchChannelMessages",
+				);
+			}
+		},
+		initialPageParam: undefined,
+		// Pages are newest first: the next page starts before the oldest message
+		getNextPageParam: (lastPage) =>
+			lastPage.length === CHAT_PAGE_SIZE
+				? lastPage[lastPage.length - 1].created_at
+				: undefined,
+		...CacheConfigManager.createQueryOptions("chats"),
+		enabled: !!channelId,
+	});
+
+	// Apply realtime changes to the loaded pages instead of refetching them all
+	useEffect(() => {
+		if (!channelId) return;
+
+		const updatePages = (
+			update: (pages: ChannelMessage[][]) => ChannelMessage[][],
+		) => updateChannelPages(queryClient, channelId, update);
+
+		// Private channel: joining is authorized by the realtime policies
+		const channel = supabase
+			.channel(`chat:${channelId}`, { config: { private: true } })
+			.on(
+				"postgres_changes",
+				{
+					event: "INSERT",
+					schema: "public",
+					table: "chat",
+					filter: `channel_id=eq.${channelId}`,
+				},
+				async (payload) => {
+					const message =
+						(await fetchChannelMessageById(payload.new.id).catch(() => null)) ||
+						(payload.new as ChannelMessage);
+
+					updatePages(([first = [], ...rest]) => [
+						[message, ...first.filter((m) => m.id !== message.id)],
+						...rest,
+					]);
+				},
+			)
+			.on(
+				"postgres_changes",
+				{
+					event: "UPDATE",
+					schema: "public",
+					table: "chat",
+					filter: `channel_id=eq.${channelId}`,
+				},
+				(payload) => {
+					updateChannelMessage(
+						queryClient,
+						channelId,
+						payload.new.id,
+						payload.new as Partial<ChannelMessage>,
+					);
+				},
+			)
+			.on(
+				"postgres_changes",
+				// Delete events cannot be filtered, unknown ids are simply ignored
+				{ event: "DELETE", schema: "public", table: "chat" },
+				(payload) => {
+					updatePages((pages) =>
+						pages.map((page) => page.filter((m) => m.id !== payload.old.id)),
+					);
+				},
+			)
+			.subscribe();
+
+		return () => {
+			supabase.removeChannel(channel);
+		};
+	}, [channelId, queryClient]);
+
+	return {
+		// Oldest first, ready to render
+		messages: (query.data?.pages || []).flat().reverse(),
+		isLoading: query.isLoading,
+		error: query.error,
+		errorMessage: query.error
+			? ErrorHandler.getUserFriendlyMessage(query.error)
+			: undefined,
+		hasOlder: query.hasNextPage,
+		isFetchingOlder: query.isFetchingNextPage,
+		fetchOlder: query.fetchNextPage,
+	};
+}
+
 /**
  * Hook for messages by chat ID
  */
@@ -305,7 +903,7 @@ export function useMessagingPrivateMessagesBetweenUsers(
 	userId2: string,
 ) {
 	const query = useGenericQuery<PrivateMessage[]>({
-		queryKey: privateMessageQueryKeys,
+		queryKey: [...privateMessageQueryKeys.lists(), "between", userId1, userId2],
 		queryFn: () => fetchPrivateMessagesBetweenUsers(userId1, userId2),
 		entityName: "private_messages",
 		operationName: "fetchBetweenUsers",
@@ -318,6 +916,18 @@ export function useMessagingPrivateMessagesBetweenUsers(
 	useEffect(() => {
 		if (!userId1 || !userId2) return;
 
+		// Realtime filters only support a single column, so listen to both
+		// directions and ignore messages from other conversations
+		const handleChange = (
+			payload: RealtimePostgresChangesPayload<PrivateMessage>,
+		) => {
+			const message: Partial<PrivateMessage> =
+				payload.eventType === "DELETE" ? payload.old : payload.new;
+			if (message.sender_id === userId2 || message.receiver_id === userId2) {
+				query.refetch();
+			}
+		};
+
 		const channel = supabase
 			.channel(`private_messages:${userId1}:${userId2}`)
 			.on(
@@ -326,12 +936,19 @@ export function useMessagingPrivateMessagesBetweenUsers(
 					event: "*",
 					schema: "public",
 					table: "private_messages",
-					filter: `or=(sender_id.eq.${userId1},receiver_id.eq.${userId2}),(sender_id.eq.${userId2},receiver_id.eq.${userId1})`,
+					filter: `sender_id=eq.${userId1}`,
 				},
-				() => {
-					// Refetch messages when there are changes
-					query.refetch();
+				handleChange,
+			)
+			.on(
+				"postgres_changes",
+				{
+					event: "*",
+					schema: "public",
+					table: "private_messages",
+					filter: `receiver_id=eq.${userId1}`,
 				},
+				handleChange,
 			)
 			.subscribe();
 
@@ -344,45 +961,104 @@ export function useMessagingPrivateMessagesBetweenUsers(
 }
 
 /**
- * Hook for header mutations
+ * Hook for the conversations (inbox) of a user
  */
-export function useMessagingHeaderMutations() {
-	// Create header mutation
-	const createMutation = useCreateMutation(
-		async (
-			headerData: Omit<MessagesHeader, "id" | "created_at" | "updated_at">,
-		) => {
-			const {
-				data: { user },
-				error: authError,
-			} = await supabase.auth.getUser();
-			if (authError) throw authError;
+export function useMessagingConversations(userId: string) {
+	const query = useGenericQuery<Conversation[]>({
+		queryKey: [...privateMessageQueryKeys.all(), "conversations", userId],
+		queryFn: () => fetchConversations(userId),
+		entityName: "private_messages",
+		operationName: "fetchConversations",
+		additionalOptions: {
+			enabled: !!userId,
+		},
+	});
 
-			const headerWithUser = {
-				...headerData,
-				user_id: user?.id,
-			};
+	// Set up real-time subscription so the inbox follows new messages
+	useEffect(() => {
+		if (!userId) return;
 
-			return messagesQueries.createHeader(headerWithUser);
+		const channel = supabase
+			.channel(`conversations:${userId}`)
+			.on(
+				"postgres_changes",
+				{
+					event: "*",
+					schema: "public",
+					table: "private_messages",
+					filter: `receiver_id=eq.${userId}`,
+				},
+				() => {
+					query.refetch();
+				},
+			)
+			.on(
+				"postgres_changes",
+				{
+					event: "*",
+					schema: "public",
+					table: "private_messages",
+					filter: `sender_id=eq.${userId}`,
+				},
+				() => {
+					query.refetch();
+				},
+			)
+			.subscribe();
+
+		return () => {
+			supabase.removeChannel(channel);
+		};
+	}, [userId, query.refetch]);
+
+	return query;
+}
+
+/**
+ * Hook for a temporary URL of a private message attachment
+ * Pass a filename to get a download link instead of an inline one
+ */
+export function useMessagingAttachmentUrl(
+	path: string | undefined,
+	download?: string,
+) {
+	return useGenericQuery<string>({
+		queryKey: queryKeys.storage.byFilter({
+			bucket: STORAGE_BUCKETS.MESSAGE_ATTACHMENTS,
+			path,
+			download,
+		}),
+		queryFn: () =>
+			getSignedFileUrl(
+				STORAGE_BUCKETS.MESSAGE_ATTACHMENTS,
+				path || "",
+				download,
+			),
+		entityName: "storage",
+		operationName: "signAttachmentUrl",
+		additionalOptions: {
+			enabled: !!path,
 		},
-		{
-			queryKeys: headerQueryKeys,
-			entityName: "header",
-			operationName: "create",
-			optimistic: true,
-			createOptimisticData: (variables, tempId) => ({
-				...variables,
-				id: tempId,
-				user_id: undefined, // Will be set by server
-				created_at: new Date().toISOString(),
-				updated_at: new Date().toISOString(),
-			}),
+		// Keep the URL while it is valid so images do not reload
+		cacheOverrides: {
+			staleTime: 30 * 60 * 1000,
+			gcTime: 30 * 60 * 1000,
 		},
-	);
+	});
+}
+
+/**
+ * Hook for header mutations
+ */
+export function useMessagingHeaderMutations() {
+	const queryClient = useQueryClient();
 
 	// Update header mutation
 	const updateMutation = useUpdateMutation(
-		async (id: string, data: Partial<MessagesHeader>) => {
+		async (
+			id: string,
+			data: Pick<MessagesHeader, "message">,
+		) => {
 			return messagesQueries.updateHeader(id, data);
 		},
 		{
@@ -408,23 +1084,65 @@ export function useMessagingHeaderMutations() {
 		},
 	);
 
+	// Publish a paid announcement (the RPC checks and debits the coins)
+	const publishMutation = useCustomMutation(
+		async ({
+			userId,
+			message,
+			durationId,
+		}: {
+			userId: string;
+			message: string;
+			durationId: HeaderDurationId;
+		}) => {
+			// The server prices the duration and sets the expiry
+			const { error } = await supabase.rpc("publish_header_message", {
+				p_user_id: userId,
+				p_message: message.trim(),
+				p_duration: durationId,
+			});
+
+			if (error) throw error;
+		},
+		{
+			queryKeys: headerQueryKeys,
+			entityName: "header",
+			operationName: "publish",
+			// Refresh the balance shown from the profile and the ledger
+			onSuccess: () => {
+				queryClient.invalidateQueries({ queryKey: queryKeys.auth.lists() });
+				queryClient.invalidateQueries({
+					queryKey: coinTransactionQueryKeys.all(),
+				});
+			},
+		},
+	);
+
+	const publishError = publishMutation.error
+		? ErrorHandler.handleQueryError(publishMutation.error, "header", "publish")
+		: null;
+
 	return {
-		createHeader: createMutation.mutate,
 		updateHeader: updateMutation.mutate,
 		deleteHeader: deleteMutation.mutate,
+		publishHeader: publishMutation.mutate,
 
-		isCreating: createMutation.isPending,
 		isUpdating: updateMutation.isPending,
 		isDeleting: deleteMutation.isPending,
+		isPublishing: publishMutation.isPending,
+		isPublished: publishMutation.isSuccess,
 
-		createError: createMutation.error,
 		updateError: updateMutation.error,
 		deleteError: deleteMutation.error,
+		publishError,
+		publishErrorMessage: publishError
+			? ErrorHandler.getUserFriendlyMessage(publishError)
+			: undefined,
 
 		reset: () => {
-			createMutation.reset();
 			updateMutation.reset();
 			deleteMutation.reset();
+			publishMutation.reset();
 		},
 	};
 }
@@ -433,6 +1151,8 @@ export function useMessagingHeaderMutations() {
  * Hook for chat mutations
  */
 export function useMessagingChatMutations() {
+	const queryClient = useQueryClient();
+
 	// Create chat mutation
 	const createMutation = useCreateMutation(
 		async (chatData: Omit<Chat, "id" | "created_at" | "updated_at">) => {
@@ -480,6 +1200,84 @@ export function useMessagingChatMutations() {
 		},
 	);
 
+	// Edit a channel message (only within the edit window), updating the
+	// channel pages right away and reloading them if the edit is refused
+	const editMutation = useCustomMutation(
+		async ({
+			message,
+			content,
+		}: { message: ChannelMessage; content: string }) => {
+			const editableSince = new Date(
+				Date.now() - MESSAGE_EDIT_WINDOW_MS,
+			).toISOString();
+
+			const { data: updatedChat, error } = await supabase
+				.from("chat")
+				.update({
+					content,
+					is_edited: true,
+					updated_at: new Date().toISOString(),
+				})
+				.eq("id", message.id)
+				.is("deleted_at", null)
+				.gte("created_at", editableSince)
+				.select()
+				.maybeSingle();
+
+			if (error) throw error;
+			if (!updatedChat) {
+				throw new Error("This message can no longer be edited");
+			}
+			return updatedChat as Chat;
+		},
+		{
+			queryKeys: chatQueryKeys,
+			entityName: "chat",
+			operationName: "editChannelMessage",
+			invalidateOnSuccess: false,
+			onSuccess: (updatedChat, { message }) =>
+				updateChannelMessage(
+					queryClient,
+					message.channel_id,
+					message.id,
+					updatedChat,
+				),
+			onError: (_error, { message }) =>
+				queryClient.invalidateQueries({
+					queryKey: getChannelQueryKey(message.channel_id),
+				}),
+			retry: () => false,
+		},
+	);
+
+	// Delete a channel message (soft delete, the row stays in the thread)
+	const deleteMessageMutation = useCustomMutation(
+		async ({
+			message,
+			deletedAt,
+		}: { message: ChannelMessage; deletedAt: string }) => {
+			const { data: deletedChat, error } = await supabase
+				.from("chat")
+				.update({ deleted_at: deletedAt })
+				.eq("id", message.id)
+				.select()
+				.single();
+
+			if (error) throw error;
+			return deletedChat as Chat;
+		},
+		{
+			queryKeys: chatQueryKeys,
+			entityName: "chat",
+			operationName: "deleteChannelMessage",
+			invalidateOnSuccess: false,
+			onError: (_error, { message }) =>
+				queryClient.invalidateQueries({
+					queryKey: getChannelQueryKey(message.channel_id),
+				}),
+		},
+	);
+
 	// Delete chat mutation
 	const deleteMutation = useDeleteMutation(
 		async (id: string) => {
@@ -498,23 +1296,70 @@ export function useMessagingChatMutations() {
 		},
 	);
 
+	// Post to a channel (refetches the channel, realtime may be lagging)
+	const sendToChannelMutation = useCustomMutation(
+		async (
+			chatData: Pick<Chat, "channel_id" | "user_id" | "reply_to"> & {
+				content: string;
+			},
+		) => {
+			const { data, error } = await supabase
+				.from("chat")
+				.insert([{ ...chatData, content: chatData.content.trim() }])
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data as Chat;
+		},
+		{
+			queryKeys: chatQueryKeys,
+			entityName: "chat",
+			operationName: "sendToChannel",
+		},
+	);
+
 	return {
 		createChat: createMutation.mutate,
+		sendToChannel: sendToChannelMutation.mutate,
 		updateChat: updateMutation.mutate,
+		editChat: (message: ChannelMessage, content: string) => {
+			updateChannelMessage(queryClient, message.channel_id, message.id, {
+				content,
+				is_edited: true,
+			});
+			editMutation.mutate({ message, content });
+		},
 		deleteChat: deleteMutation.mutate,
+		deleteChannelMessage: (message: ChannelMessage) => {
+			if (!window.confirm("Are you sure you want to delete this message?")) {
+				return;
+			}
+			const deletedAt = new Date().toISOString();
+			updateChannelMessage(queryClient, message.channel_id, message.id, {
+				deleted_at: deletedAt,
+			});
+			deleteMessageMutation.mutate({ message, deletedAt });
+		},
 
-		isCreating: createMutation.isPending,
+		isSendingToChannel: sendToChannelMutation.isPending,
 		isUpdating: updateMutation.isPending,
+		isEditing: editMutation.isPending,
 		isDeleting: deleteMutation.isPending,
+		isDeletingMessage: deleteMessageMutation.isPending,
 
-		createError: createMutation.error,
+		sendToChannelError: sendToChannelMutation.error,
 		updateError: updateMutation.error,
+		editError: editMutation.error,
 		deleteError: deleteMutation.error,
+		deleteMessageError: deleteMessageMutation.error,
 
 		reset: () => {
-			createMutation.reset();
+			sendToChannelMutation.reset();
 			updateMutation.reset();
+			editMutation.reset();
 			deleteMutation.reset();
+			deleteMessageMutation.reset();
 		},
 	};
 }
@@ -538,7 +1383,7 @@ export function useMessagingMessageMutations() {
 			return data;
 		},
 		{
-			queryKeys: messageQueryKeys,
+			queryKeys: privateMessageQueryKeys,
 			entityName: "message",
 			operationName: "send",
 			optimistic: true,
@@ -547,7 +1392,6 @@ export function useMessagingMessageMutations() {
 				id: tempId,
 				created_at: new Date().toISOString(),
 				updated_at: new Date().toISOString(),
-				read: false,
 			}),
 		},
 	);
@@ -557,7 +1401,7 @@ export function useMessagingMessageMutations() {
 		async (id: string) => {
 			const { data: updatedMessage, error } = await supabase
 				.from("private_messages")
-				.update({ read: true, updated_at: new Date().toISOString() })
+				.update({ read_at: new Date().toISOString() })
 				.eq("id", id)
 				.select()
 				.single();
@@ -566,31 +1410,66 @@ export function useMessagingMessageMutations() {
 			return updatedMessage;
 		},
 		{
-			queryKeys: messageQueryKeys,
+			queryKeys: privateMessageQueryKeys,
 			entityName: "message",
 			operationName: "markAsRead",
 			optimistic: true,
 		},
 	);
 
-	// Delete message mutation
-	const deleteMessageMutation = useDeleteMutation(
-		async (id: string) => {
-			const { error } = await supabase
+	// Edit message mutation (only within the edit window)
+	const editMessageMutation = useOptimisticUpdate(
+		async (id: string, data: { message: string }) => {
+			const editableSince = new Date(
+				Date.now() - MESSAGE_EDIT_WINDOW_MS,
+			).toISOString();
+
+			const { data: updatedMessage, error } = await supabase
 				.from("private_messages")
-				.delete()
-				.eq("id", id);
+				.update({
+					message: data.message,
+					is_edited: true,
+					updated_at: new Date().toISOString(),
+				})
+				.eq("id", id)
+				.is("deleted_at", null)
+				.gte("created_at", editableSince)
+				.select()
+				.maybeSingle();
 
 			if (error) throw error;
+			if (!updatedMessage) {
+				throw new Error("This message can no longer be edited");
+			}
+			return updatedMessage as PrivateMessage;
 		},
+		privateMessageQueryKeys,
+		"message",
 		{
-			queryKeys: messageQueryKeys,
-			entityName: "message",
-			operationName: "delete",
-			optimistic: true,
-			requireConfirmation: true,
-			confirmMessage: "Are you sure you want to delete this message?",
+			updateOptimisticData: (oldData, variables) => ({
+				...oldData,
+				...variables.data,
+				is_edited: true,
+			}),
+			retry: () => false,
+		},
+	);
+
+	// Delete message mutation (soft delete, the row stays in the thread)
+	const deleteMessageMutation = useOptimisticUpdate(
+		async (id: string, data: { deleted_at: string }) => {
+			const { data: deletedMessage, error } = await supabase
+				.from("private_messages")
+				.update(data)
+				.eq("id", id)
+				.select()
+				.single();
+
+			if (error) throw error;
+			return deletedMessage as PrivateMessage;
 		},
+		privateMessageQueryKeys,
+		"message",
 	);
 
 	// Mark all messages as read for a chat
@@ -598,44 +1477,220 @@ export function useMessagingMessageMutations() {
 		async (chatId: string) => {
 			const { error } = await supabase
 				.from("private_messages")
-				.update({ read: true, updated_at: new Date().toISOString() })
+				.update({ read_at: new Date().toISOString() })
 				.eq("chat_id", chatId)
-				.eq("read", false);
+				.is("read_at", null);
 
 			if (error) throw error;
 		},
 		{
-			queryKeys: messageQueryKeys,
+			queryKeys: privateMessageQueryKeys,
 			entityName: "message",
 			operationName: "markAllAsRead",
 		},
 	);
 
+	// Upload an image or file and send it as a message
+	const sendAttachmentMutation = useCustomMutation(
+		async ({
+			senderId,
+			receiverId,
+			file,
+		}: {
+			senderId: string;
+			receiverId: string;
+			file: File;
+		}) => {
+			const upload = await uploadFile(
+				STORAGE_BUCKETS.MESSAGE_ATTACHMENTS,
+				senderId,
+				file,
+			);
+
+			const { data, error } = await supabase
+				.from("private_messages")
+				.insert([
+					{
+						sender_id: senderId,
+						receiver_id: receiverId,
+						message: file.name,
+						message_type: upload.kind,
+						// Private bucket: the path is resolved to a signed URL when shown
+						attachment_url: upload.path,
+						attachment_type: upload.type,
+					},
+				])
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data as PrivateMessage;
+		},
+		{
+			queryKeys: privateMessageQueryKeys,
+			entityName: "message",
+			operationName: "sendAttachment",
+		},
+	);
+
+	// Mark a batch of received messages as read (read receipts)
+	const markMessagesAsReadMutation = useCustomMutation(
+		async (ids: string[]) => {
+			if (ids.length === 0) return;
+
+			const { error } = await supabase
+				.from("private_messages")
+				.update({ read_at: new Date().toISOString() })
+				.in("id", ids)
+				.is("read_at", null);
+
+			if (error) throw error;
+		},
+		{
+			queryKeys: privateMessageQueryKeys,
+			entityName: "message",
+			operationName: "markMessagesAsRead",
+		},
+	);
+
 	return {
 		sendMessage: sendMessageMutation.mutate,
+		sendAttachment: sendAttachmentMutation.mutate,
+		editMessage: (id: string, message: string) =>
+			editMessageMutation.mutate({ id, data: { message } }),
 		markAsRead: markAsReadMutation.mutate,
-		deleteMessage: deleteMessageMutation.mutate,
+		markMessagesAsRead: markMessagesAsReadMutation.mutate,
+		deleteMessage: (id: string) => {
+			if (!window.confirm("Are you sure you want to delete this message?")) {
+				return;
+			}
+			deleteMessageMutation.mutate({
+				id,
+				data: { deleted_at: new Date().toISOString() },
+			});
+		},
 		markAllAsRead: markAllAsReadMutation.mutate,
 
 		isSending: sendMessageMutation.isPending,
+		isSendingAttachment: sendAttachmentMutation.isPending,
+		isEditing: editMessageMutation.isPending,
 		isMarkingAsRead: markAsReadMutation.isPending,
+		isMarkingMessagesAsRead: markMessagesAsReadMutation.isPending,
 		isDeleting: deleteMessageMutation.isPending,
 		isMarkingAllAsRead: markAllAsReadMutation.isPending,
 
 		sendError: sendMessageMutation.error,
+		sendAttachmentError: sendAttachmentMutation.error,
+		editError: editMessageMutation.error,
 		markAsReadError: markAsReadMutation.error,
+		markMessagesAsReadError: markMessagesAsReadMutation.error,
 		deleteError: deleteMessageMutation.error,
 		markAllAsReadError: markAllAsReadMutation.error,
 
 		reset: () => {
 			sendMessageMutation.reset();
+			sendAttachmentMutation.reset();
+			editMessageMutation.reset();
 			markAsReadMutation.reset();
+			markMessagesAsReadMutation.reset();
 			deleteMessageMutation.reset();
 			markAllAsReadMutation.reset();
 		},
 	};
 }
 
+/**
+ * Hook for conversation mutations
+ */
+export function useMessagingConversationMutations() {
+	// Delete conversation mutation (only hides it for the current user)
+	const deleteConversationMutation = useCustomMutation(
+		async ({
+			userId,
+			participantId,
+			lastMessageId,
+		}: {
+			userId: string;
+			participantId: string;
+			lastMessageId?: string;
+		}) => {
+			const { error } = await supabase.from("conversation_deletions").insert([
+				{
+					user_id: userId,
+					participant_id: participantId,
+					last_message_id: lastMessageId,
+					deleted_at: new Date().toISOString(),
+				},
+			]);
+
+			if (error) throw error;
+		},
+		{
+			queryKeys: privateMessageQueryKeys,
+			entityName: "private_messages",
+			operationName: "deleteConversation",
+		},
+	);
+
+	// Export conversation mutation (downloads a JSON file or .txt transcript)
+	const exportConversationMutation = useCustomMutation(
+		async ({
+			user,
+			partner,
+			format = "json",
+		}: {
+			user: Pick<Profile, "id" | "username">;
+			partner: Pick<Profile, "id" | "username">;
+			format?: ExportFormat;
+		}) => {
+			const messages = await fetchPrivateMessagesBetweenUsers(
+				user.id,
+				partner.id,
+			);
+			const conversation = buildConversationExport(messages, [
+				{ id: user.id, username: user.username },
+				{ id: partner.id, username: partner.username },
+			]);
+
+			if (format === "txt") {
+				downloadFile(
+					getExportFilename(partner.username, "txt"),
+					buildTranscript(conversation),
+					"text/plain;charset=utf-8",
+				);
+			} else {
+				downloadFile(
+					getExportFilename(partner.username, "json"),
+					JSON.stringify(conversation, null, 2),
+					"application/json",
+				);
+			}
+		},
+		{
+			queryKeys: privateMessageQueryKeys,
+			entityName: "private_messages",
+			operationName: "exportConversation",
+			invalidateOnSuccess: false,
+		},
+	);
+
+	return {
+		deleteConversation: deleteConversationMutation.mutate,
+		exportConversation: exportConversationMutation.mutate,
+
+		isDeletingConversation: deleteConversationMutation.isPending,
+		isExporting: exportConversationMutation.isPending,
+
+		deleteConversationError: deleteConversationMutation.error,
+		exportError: exportConversationMutation.error,
+
+		reset: () => {
+			deleteConversationMutation.reset();
+			exportConversationMutation.reset();
+		},
+	};
+}
+
 /**
  * Export query keys for external use
  */
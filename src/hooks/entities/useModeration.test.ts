@@ -0,0 +1,49 @@
+/**
+ * Basic compatibility test for the unified useModeration hook
+ */
+
+import { describe, it, expect } from "vitest";
+
+// Test that the hook can be imported and has the expected interface
+describe("useModeration API Compatibility", () => {
+	it("should export the review queue as default", async () => {
+		const { default: useModeration, useModerationQueue } = await import(
+			"./useModeration"
+		);
+		expect(typeof useModerationQueue).toBe("function");
+		expect(useModeration).toBe(useModerationQueue);
+	});
+
+	it("should export report, moderation and audit hooks", async () => {
+		const { useForumReportMutation, useModerateMutation, useModerationLog } =
+			await import("./useModeration");
+		expect(typeof useForumReportMutation).toBe("function");
+		expect(typeof useModerateMutation).toBe("function");
+		expect(typeof useModerationLog).toBe("function");
+	});
+
+	it("should export moderation query keys", async () => {
+		const { forumReportQueryKeys, moderationActionQueryKeys } = await import(
+			"./useModeration"
+		);
+		expect(forumReportQueryKeys.all()).toEqual(["forum_reports"]);
+		expect(moderationActionQueryKeys.all()).toEqual(["moderation_actions"]);
+	});
+
+	it("should pick the action toggling a thread flag", async () => {
+		const { getThreadToggleAction } = await import("./useModeration");
+
+		expect(getThreadToggleAction("pin", false)).toBe("pin_thread");
+		expect(getThreadToggleAction("pin", true)).toBe("unpin_thread");
+		expect(getThreadToggleAction("lock", true)).toBe("unlock_thread");
+		expect(getThreadToggleAction("hide", false)).toBe("hide_thread");
+	});
+
+	it("should revert logged actions except dismissals", async () => {
+		const { getUndoAction } = await import("./useModeration");
+
+		expect(getUndoAction("hide_post")).toBe("unhide_post");
+		expect(getUndoAction("unlock_thread")).toBe("lock_thread");
+		expect(getUndoAction("dismiss_report")).toBeUndefined();
+	});
+});
@@ -0,0 +1,305 @@
+/**
+ * Unified Moderation Hook
+ *
+ * Forum moderation: resident reports, the admin review queue,
+ * admin actions on threads and posts and their audit trail.
+ */
+
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "../../lib/supabase";
+import type {
+	ForumPost,
+	ForumReport,
+	ForumReportReason,
+	ModerationAction,
+	ModerationActionType,
+	ModerationResult,
+	Profile,
+	Thread,
+} from "../../types/database";
+
+// Import new architecture
+import { EntityQueryKeys } from "../utils/queryKeys";
+import { useGenericQuery } from "../core/useGenericQuery";
+import { useCustomMutation } from "../core/useMutationHooks";
+import {
+	forumPostQueryKeys,
+	forumQueryKeys,
+	threadQueryKeys,
+} from "./useForums";
+
+type ModerationProfile = Pick<Profile, "id" | "username" | "avatar_url">;
+type ModerationThread = Pick<
+	Thread,
+	"id" | "title" | "forum_id" | "is_hidden" | "is_locked" | "is_pinned"
+>;
+
+/**
+ * Report with its reporter and the reported thread or post
+ */
+export interface ForumReportWithTarget extends ForumReport {
+	reporter?: ModerationProfile;
+	thread?: ModerationThread;
+	post?: Pick<ForumPost, "id" | "content" | "thread_id" | "is_hidden"> & {
+		thread?: ModerationThread;
+	};
+}
+
+/**
+ * Audit trail entry with the admin and the thread it concerns
+ */
+export interface ModerationActionWithAdmin extends ModerationAction {
+	admin?: ModerationProfile;
+	thread?: Pick<Thread, "id" | "title" | "forum_id">;
+}
+
+export const REPORT_REASONS: Record<ForumReportReason, string> = {
+	spam: "Spam or advertising",
+	harassment: "Harassment or hate",
+	off_topic: "Off topic",
+	inappropriate: "Inappropriate content",
+	other: "Something else",
+};
+
+export const REPORT_DETAILS_MAX_LENGTH = 500;
+export const MODERATION_LOG_LIMIT = 50;
+
+export const MODERATION_ACTION_LABELS: Record<ModerationActionType, string> = {
+	hide_thread: "Hid thread",
+	unhide_thread: "Restored thread",
+	lock_thread: "Locked thread",
+	unlock_thread: "Unlocked thread",
+	pin_thread: "Pinned thread",
+	unpin_thread: "Unpinned thread",
+	hide_post: "Hid post",
+	unhide_post: "Restored post",
+	dismiss_report: "Dismissed report",
+};
+
+const PROFILE_SELECT = "id, username, avatar_url";
+const THREAD_SELECT = "id, title, forum_id, is_hidden, is_locked, is_pinned";
+
+/**
+ * Moderation query keys using the new unified system
+ */
+const forumReportQueryKeys = new EntityQueryKeys("forum_reports");
+const moderationActionQueryKeys = new EntityQueryKeys("moderation_actions");
+
+/**
+ * Action that switches a thread flag on or off
+ */
+export function getThreadToggleAction(
+	flag: "hide" | "lock" | "pin",
+	isActive: boolean,
+): ModerationActionType {
+	return `${isActive ? "un" : ""}${flag}_thread` as ModerationActionType;
+}
+
+/**
+ * Action reverting a logged action, if it can be undone
+ */
+export function getUndoAction(
+	action: ModerationActionType,
+): ModerationActionType | undefined {
+	if (action === "dismiss_report") return undefined;
+	return (
+		action.startsWith("un") ? action.slice(2) : `un${action}`
+	) as ModerationActionType;
+}
+
+/**
+ * Fetch the pending reports, oldest first
+ */
+async function fetchPendingReports(): Promise<ForumReportWithTarget[]> {
+	const { data, error } = await supabase
+		.from("forum_reports")
+		.select(
+			`*, reporter:profiles!forum_reports_reporter_id_fkey(${PROFILE_SELECT}), thread:threads!forum_reports_thread_id_fkey(${THREAD_SELECT}), post:forum_posts!forum_reports_post_id_fkey(id, content, thread_id, is_hidden, thread:threads(${THREAD_SELECT}))`,
+		)
+		.eq("status", "pending")
+		.order("created_at", { ascending: true });
+
+	if (error) throw error;
+	return data || [];
+}
+
+/**
+ * Fetch the latest admin actions
+ */
+async function fetchModerationLog(): Promise<ModerationActionWithAdmin[]> {
+	const { data, error } = await supabase
+		.from("moderation_actions")
+		.select(
+			`*, admin:profiles!moderation_actions_admin_id_fkey(${PROFILE_SELECT}), thread:threads!moderation_actions_thread_id_fkey(id, title, forum_id)`,
+		)
+		.order("created_at", { ascending: false })
+		.limit(MODERATION_LOG_LIMIT);
+
+	if (error) throw error;
+	return data || [];
+}
+
+/**
+ * Hook for the admin review queue
+ */
+export function useModerationQueue(enabled = true) {
+	const reportsQuery = useGenericQuery<ForumReportWithTarget[]>({
+		queryKey: forumReportQueryKeys.byFilter({ status: "pending" }),
+		queryFn: fetchPendingReports,
+		entityName: "forum_reports",
+		operationName: "fetchPending",
+		additionalOptions: {
+			enabled,
+		},
+	});
+
+	return {
+		reports: reportsQuery.data || [],
+		isLoading: reportsQuery.isLoading,
+		error: reportsQuery.error,
+		errorMessage: reportsQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for the moderation audit trail
+ */
+export function useModerationLog(enabled = true) {
+	const logQuery = useGenericQuery<ModerationActionWithAdmin[]>({
+		queryKey: moderationActionQueryKeys.lists(),
+		queryFn: fetchModerationLog,
+		entityName: "moderation_actions",
+		operationName: "fetchLog",
+		additionalOptions: {
+			enabled,
+		},
+	});
+
+	return {
+		actions: logQuery.data || [],
+		isLoading: logQuery.isLoading,
+		error: logQuery.error,
+		errorMessage: logQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for residents reporting a thread or a post
+ */
+export function useForumReportMutation() {
+	const reportMutation = useCustomMutation(
+		async ({
+			reporterId,
+			threadId,
+			postId,
+			reason,
+			details,
+		}: {
+			reporterId: string;
+			threadId?: string;
+			postId?: string;
+			reason: ForumReportReason;
+			details?: string;
+		}): Promise<ForumReport> => {
+			const { data, error } = await supabase
+				.from("forum_reports")
+				.insert([
+					{
+						reporter_id: reporterId,
+						// A report targets either a thread or one of its posts
+						thread_id: postId ? null : threadId,
+						post_id: postId || null,
+						reason,
+						details:
+							details?.trim().slice(0, REPORT_DETAILS_MAX_LENGTH) || null,
+					},
+				])
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: forumReportQueryKeys,
+			entityName: "forum_reports",
+			operationName: "create",
+		},
+	);
+
+	return {
+		report: reportMutation.mutate,
+		isReporting: reportMutation.isPending,
+		reportResult: reportMutation.data,
+		reportError: reportMutation.error,
+		reset: reportMutation.reset,
+	};
+}
+
+/**
+ * Hook for admin actions, recorded in the audit trail by the RPC
+ */
+export function useModerateMutation() {
+	const queryClient = useQueryClient();
+
+	const moderateMutation = useCustomMutation(
+		async ({
+			action,
+			threadId,
+			postId,
+			reportId,
+			note,
+		}: {
+			action: ModerationActionType;
+			threadId?: string;
+			postId?: string;
+			reportId?: string;
+			note?: string;
+		}): Promise<ModerationResult> => {
+			const { data, error } = await supabase.rpc("moderate_forum", {
+				p_action: action,
+				p_thread_id: threadId || null,
+				p_post_id: postId || null,
+				p_report_id: reportId || null,
+				p_note: note?.trim() || null,
+			});
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: forumReportQueryKeys,
+			entityName: "forum_reports",
+			operationName: "moderate",
+			// Hidden, locked and pinned flags show up across the forum
+			onSuccess: () => {
+				queryClient.invalidateQueries({
+					queryKey: moderationActionQueryKeys.all(),
+				});
+				queryClient.invalidateQueries({ queryKey: forumQueryKeys.all() });
+				queryClient.invalidateQueries({ queryKey: threadQueryKeys.all() });
+				queryClient.invalidateQueries({
+					queryKey: forumPostQueryKeys.all(),
+				});
+			},
+		},
+	);
+
+	return {
+		moderate: moderateMutation.mutate,
+		isModerating: moderateMutation.isPending,
+		moderationResult: moderateMutation.data,
+		moderationError: moderateMutation.error,
+		reset: moderateMutation.reset,
+	};
+}
+
+/**
+ * Export query keys for external use
+ */
+export { forumReportQueryKeys, moderationActionQueryKeys };
+
+/**
+ * Default export - the admin review queue
+ */
+export default useModerationQueue;
@@ -0,0 +1,51 @@
+/**
+ * Basic compatibility test for the unified usePosts hook
+ */
+
+import { describe, it, expect } from "vitest";
+
+// Test that the hook can be imported and has the expected interface
+describe("usePosts API Compatibility", () => {
+	it("should export usePosts default function", async () => {
+		const { default: usePosts } = await import("./usePosts");
+		expect(typeof usePosts).toBe("function");
+	});
+
+	it("should export post, comment and mutation hooks", async () => {
+		const { usePostList, usePost, usePostComments, usePostMutations } =
+			await import("./usePosts");
+		expect(typeof usePostList).toBe("function");
+		expect(typeof usePost).toBe("function");
+		expect(typeof usePostComments).toBe("function");
+		expect(typeof usePostMutations).toBe("function");
+	});
+
+	it("should export post query keys and loader queries", async () => {
+		const { postQueryKeys, postCommentQueryKeys, postQueries } = await import(
+			"./usePosts"
+		);
+		expect(postQueryKeys.all()).toEqual(["posts"]);
+		expect(postCommentQueryKeys.all()).toEqual(["post_comments"]);
+		expect(typeof postQueries.getPosts).toBe("function");
+		expect(typeof postQueries.getPost).toBe("function");
+		expect(typeof postQueries.getComments).toBe("function");
+	});
+
+	it("should summarize likes for the current user", async () => {
+		const { getLikeSummary } = await import("./usePosts");
+		const likes = [{ user_id: "user-1" }, { user_id: "user-2" }];
+
+		expect(getLikeSummary(likes, "user-2")).toEqual({
+			count: 2,
+			likedByMe: true,
+		});
+		expect(getLikeSummary(likes, "user-3")).toEqual({
+			count: 2,
+			likedByMe: false,
+		});
+		expect(getLikeSummary([], undefined)).toEqual({
+			count: 0,
+			likedByMe: false,
+		});
+	});
+});
@@ -0,0 +1,352 @@
+/**
+ * Unified Posts Hook
+ *
+ * Community posts feed: posts with their author and image,
+ * likes and comments.
+ */
+
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "../../lib/supabase";
+import { STORAGE_BUCKETS, uploadFile, validateUpload } from "../../lib/storage";
+import type {
+	Post,
+	PostComment,
+	PostLike,
+	Profile,
+} from "../../types/database";
+
+// Import new architecture
+import { EntityQueryKeys } from "../utils/queryKeys";
+import {
+	useGenericDetailQuery,
+	useGenericFilterQuery,
+	useGenericListQuery,
+} from "../core/useGenericQuery";
+import { useCustomMutation } from "../core/useMutationHooks";
+
+type PostAuthor = Pick<Profile, "id" | "username" | "avatar_url">;
+
+/**
+ * Post with its author, likes and number of comments
+ */
+export interface PostWithDetails extends Post {
+	author?: PostAuthor;
+	likes: Pick<PostLike, "user_id">[];
+	comment_count: number;
+}
+
+/**
+ * Comment with its author
+ */
+export interface PostCommentWithAuthor extends PostComment {
+	author?: PostAuthor;
+}
+
+export const POST_CONTENT_MAX_LENGTH = 2000;
+export const POST_COMMENT_MAX_LENGTH = 1000;
+
+const AUTHOR_SELECT = "id, username, avatar_url";
+const POST_SELECT = `*, author:profiles!posts_author_id_fkey(${AUTHOR_SELECT}), likes:post_likes(user_id), comments:post_comments(count)`;
+
+/**
+ * Post query keys using the new unified system
+ */
+const postQueryKeys = new EntityQueryKeys("posts");
+const postCommentQueryKeys = new EntityQueryKeys("post_comments");
+
+/**
+ * Like count of a post and whether the user liked it
+ */
+export function getLikeSummary(
+	likes: Pick<PostLike, "user_id">[],
+	userId?: string,
+): { count: number; likedByMe: boolean } {
+	return {
+		count: likes.length,
+		likedByMe: !!userId && likes.some((like) => like.user_id === userId),
+	};
+}
+
+/**
+ * Flatten the embedded comment count returned by PostgREST
+ */
+function withCommentCount({
+	comments,
+	...post
+}: Omit<PostWithDetails, "comment_count"> & {
+	comments?: { count: number }[];
+}): PostWithDetails {
+	return { ...post, comment_count: comments?.[0]?.count ?? 0 };
+}
+
+// Query functions, shared with the route loaders
+export const postQueries = {
+	getPosts: async (): Promise<PostWithDetails[]> => {
+		const { data, error } = await supabase
+			.from("posts")
+			.select(POST_SELECT)
+			.order("created_at", { ascending: false });
+
+		if (error) throw error;
+		return (data || []).map(withCommentCount);
+	},
+
+	getPost: async (postId: string): Promise<PostWithDetails | null> => {
+		if (!postId) return null;
+
+		const { data, error } = await supabase
+			.from("posts")
+			.select(POST_SELECT)
+			.eq("id", postId)
+			.single();
+
+		if (error) {
+			if (error.code === "PGRST116") return null; // Not found
+			throw error;
+		}
+		return withCommentCount(data);
+	},
+
+	getComments: async (postId: string): Promise<PostCommentWithAuthor[]> => {
+		if (!postId) return [];
+
+		const { data, error } = await supabase
+			.from("post_comments")
+			.select(
+				`*, author:profiles!post_comments_author_id_fkey(${AUTHOR_SELECT})`,
+			)
+			.eq("post_id", postId)
+			.order("created_at", { ascending: true });
+
+		if (error) throw error;
+		return data || [];
+	},
+};
+
+/**
+ * Hook for the community posts feed
+ */
+export function usePostList() {
+	return useGenericListQuery<PostWithDetails>({
+		queryKey: postQueryKeys,
+		queryFn: postQueries.getPosts,
+		entityName: "posts",
+		operationName: "fetchAll",
+	});
+}
+
+/**
+ * Hook for a single post
+ */
+export function usePost(postId: string) {
+	return useGenericDetailQuery<PostWithDetails | null>({
+		queryKey: postQueryKeys,
+		id: postId,
+		queryFn: () => postQueries.getPost(postId),
+		entityName: "posts",
+		operationName: "fetchById",
+	});
+}
+
+/**
+ * Hook for the comments of a post
+ */
+export function usePostComments(postId: string) {
+	return useGenericFilterQuery<PostCommentWithAuthor>({
+		queryKey: postCommentQueryKeys,
+		filter: { postId },
+		queryFn: () => postQueries.getComments(postId),
+		entityName: "post_comments",
+		operationName: "fetchByPost",
+		additionalOptions: {
+			enabled: !!postId,
+		},
+	});
+}
+
+/**
+ * Hook for post, like and comment mutations
+ */
+export function usePostMutations() {
+	const queryClient = useQueryClient();
+
+	// Publish a post, uploading its image first
+	const createPostMutation = useCustomMutation(
+		async ({
+			authorId,
+			content,
+			image,
+		}: {
+			authorId: string;
+			content: string;
+			image?: File;
+		}): Promise<Post> => {
+			let imageUrl: string | undefined;
+
+			if (image) {
+				if (validateUpload(image) !== "image") {
+					throw new Error("Only images can be attached to a post");
+				}
+				const upload = await uploadFile(
+					STORAGE_BUCKETS.POST_IMAGES,
+					authorId,
+					image,
+				);
+				imageUrl = upload.url;
+			}
+
+			const { data, error } = await supabase
+				.from("posts")
+				.insert([
+					{ author_id: authorId, content: content.trim(), image_url: imageUrl },
+				])
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: postQueryKeys,
+			entityName: "posts",
+			operationName: "create",
+		},
+	);
+
+	// Only the author can delete it (posts_delete_own)
+	const deletePostMutation = useCustomMutation(
+		async (postId: string) => {
+			const { error } = await supabase.from("posts").delete().eq("id", postId);
+
+			if (error) throw error;
+		},
+		{
+			queryKeys: postQueryKeys,
+			entityName: "posts",
+			operationName: "delete",
+		},
+	);
+
+	// Like or unlike a post
+	const toggleLikeMutation = useCustomMutation(
+		async ({
+			postId,
+			userId,
+			liked,
+		}: {
+			postId: string;
+			userId: string;
+			liked: boolean;
+		}) => {
+			const { error } = liked
+				? await supabase
+						.from("post_likes")
+						.delete()
+						.eq("post_id", postId)
+						.eq("user_id", userId)
+				: await supabase
+						.from("post_likes")
+						.insert([{ post_id: postId, user_id: userId }]);
+
+			if (error) throw error;
+		},
+		{
+			queryKeys: postQueryKeys,
+			entityName: "post_likes",
+			operationName: "toggle",
+		},
+	);
+
+	const createCommentMutation = useCustomMutation(
+		async (commentData: {
+			post_id: string;
+			author_id: string;
+			content: string;
+		}): Promise<PostComment> => {
+			const { data, error } = await supabase
+				.from("post_comments")
+				.insert([{ ...commentData, content: commentData.content.trim() }])
+				.select()
+				.single();
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: postCommentQueryKeys,
+			entityName: "post_comments",
+			operationName: "create",
+			// Refresh the comment counts of the feed
+			onSuccess: () => {
+				queryClient.invalidateQueries({ queryKey: postQueryKeys.all() });
+			},
+		},
+	);
+
+	// Only the author can delete it (post_comments_delete_own)
+	const deleteCommentMutation = useCustomMutation(
+		async (commentId: string) => {
+			const { error } = await supabase
+				.from("post_comments")
+				.delete()
+				.eq("id", commentId);
+
+			if (error) throw error;
+		},
+		{
+			queryKeys: postCommentQueryKeys,
+			entityName: "post_comments",
+			operationName: "delete",
+			// Refresh the comment counts of the feed
+			onSuccess: () => {
+				queryClient.invalidateQueries({ queryKey: postQueryKeys.all() });
+			},
+		},
+	);
+
+	return {
+		createPost: createPostMutation.mutate,
+		deletePost: deletePostMutation.mutate,
+		toggleLike: toggleLikeMutation.mutate,
+		createComment: createCommentMutation.mutate,
+		deleteComment: deleteCommentMutation.mutate,
+
+		isCreatingPost: createPostMutation.isPending,
+		isDeletingPost: deletePostMutation.isPending,
+		isTogglingLike: toggleLikeMutation.isPending,
+		isCreatingComment: createCommentMutation.isPending,
+
+		createPostError: createPostMutation.error,
+		deletePostError: deletePostMutation.error,
+		toggleLikeError: toggleLikeMutation.error,
+		createCommentError: createCommentMutation.error,
+		deleteCommentError: deleteCommentMutation.error,
+
+		reset: () => {
+			createPostMutation.reset();
+			deletePostMutation.reset();
+			toggleLikeMutation.reset();
+			createCommentMutation.reset();
+			deleteCommentMutation.reset();
+		},
+	};
+}
+
+/**
+ * Export query keys for external use
+ */
+export { postQueryKeys, postCommentQueryKeys };
+
+/**
+ * Default export - the community posts feed
+ */
+export default function usePosts() {
+	const postsQuery = usePostList();
+
+	return {
+		posts: postsQuery.data || [],
+		isLoading: postsQuery.isLoading,
+		error: postsQuery.error,
+		errorMessage: postsQuery.errorMessage,
+	};
+}
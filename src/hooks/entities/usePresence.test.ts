@@ -21,6 +21,11 @@ describe("usePresence API Compatibility", () => {
 		expect(typeof usePresenceStatus).toBe("function");
 	});
 
+	it("should export useTypingIndicator function", async () => {
+		const { useTypingIndicator } = await import("./usePresence");
+		expect(typeof useTypingIndicator).toBe("function");
+	});
+
 	it("should export presence query keys", async () => {
 		const { presenceQueryKeys } = await import("./usePresence");
 		expect(presenceQueryKeys).toBeDefined();
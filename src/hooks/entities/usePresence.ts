@@ -19,6 +19,12 @@ import { useCustomMutation } from "../core/useMutationHooks";
  */
 const presenceQueryKeys = new EntityQueryKeys("presence");
 
+/**
+ * Typing indicator timings
+ */
+const TYPING_THROTTLE = 2000; // Broadcast at most every 2 seconds
+const TYPING_TIMEOUT = 4000; // Hide the indicator after 4 seconds of silence
+
 /**
  * Presence user interface
  */
@@ -394,6 +400,80 @@ export function usePresenceStatus() {
 	});
 }
 
+/**
+ * Hook for the "is typing..." indicator of a private conversation
+ *
+ * Uses a broadcast channel shared by both participants, so nothing
+ * is persisted in the database.
+ */
+export function useTypingIndicator(userId: string, partnerId: string) {
+	const [isPartnerTyping, setIsPartnerTyping] = useState(false);
+	const channelRef = useRef<RealtimeChannel | null>(null);
+	const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+	const lastSentRef = useRef(0);
+
+	useEffect(() => {
+		if (!userId || !partnerId) return;
+
+		// Same channel name for both participants
+		const channelName = `typing:${[userId, partnerId].sort().join(":")}`;
+		const channel = supabase.channel(channelName);
+
+		channel
+			.on("broadcast", { event: "typing" }, ({ payload }) => {
+				if (payload?.user_id !== partnerId) return;
+
+				setIsPartnerTyping(!!payload.is_typing);
+
+				// Clear the indicator if no new event arrives
+				if (typingTimeoutRef.current) {
+					clearTimeout(typingTimeoutRef.current);
+				}
+				if (payload.is_typing) {
+					typingTimeoutRef.current = setTimeout(() => {
+						setIsPartnerTyping(false);
+					}, TYPING_TIMEOUT);
+				}
+			})
+			.subscribe();
+
+		channelRef.current = channel;
+
+		return () => {
+			if (typingTimeoutRef.current) {
+				clearTimeout(typingTimeoutRef.current);
+				typingTimeoutRef.current = null;
+			}
+			supabase.removeChannel(channel);
+			channelRef.current = null;
+			setIsPartnerTyping(false);
+		};
+	}, [userId, partnerId]);
+
+	// Broadcast typing state (throttled while typing)
+	const sendTyping = useCallback(
+		(isTyping = true) => {
+			if (!channelRef.current) return;
+
+			const now = Date.now();
+			if (isTyping && now - lastSentRef.current < TYPING_THROTTLE) return;
+			lastSentRef.current = isTyping ? now : 0;
+
+			channelRef.current.send({
+				type: "broadcast",
+				event: "typing",
+				payload: { user_id: userId, is_typing: isTyping },
+			});
+		},
+		[userId],
+	);
+
+	return {
+		isPartnerTyping,
+		sendTyping,
+	};
+}
+
 /**
  * Export query keys for external use
  */
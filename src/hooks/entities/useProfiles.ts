@@ -5,13 +5,13 @@
  * in a single, cohesive API following the new entity architecture.
  */
 
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useCallback } from "react";
 import { supabase } from "../../lib/supabase";
 import type { Profile } from "../../types/database";
 
 // Import unified architecture
-import { EntityQueryKeys } from "../utils/queryKeys";
+import { EntityQueryKeys, queryKeys } from "../utils/queryKeys";
 import { CacheConfigManager } from "../utils/queryConfig";
 import { ErrorHandler } from "../utils/errorHandling";
 import { useCustomMutation } from "../core/useMutationHooks";
@@ -243,6 +243,8 @@ export function useProfiles(options?: {
  * Provides CRUD operations for profiles.
  */
 export function useProfileMutations(): ProfileMutationsResult {
+	const queryClient = useQueryClient();
+
 	// Create profile mutation
 	const createProfileMutation = useCustomMutation(
 		async (profileData: Omit<Profile, "id" | "created_at" | "updated_at">) => {
@@ -295,6 +297,10 @@ export function useProfileMutations(): ProfileMutationsResult {
 			queryKeys: profileQueryKeys,
 			entityName: "profile",
 			operationName: "update",
+			// The signed-in user's profile is served by the auth query
+			onSuccess: () => {
+				queryClient.invalidateQueries({ queryKey: queryKeys.auth.lists() });
+			},
 		},
 	);
 
@@ -0,0 +1,124 @@
+/**
+ * Basic compatibility test for the unified useVotes hook
+ */
+
+import { describe, it, expect } from "vitest";
+
+// Test that the hook can be imported and has the expected interface
+describe("useVotes API Compatibility", () => {
+	it("should export useVotes default function", async () => {
+		const { default: useVotes } = await import("./useVotes");
+		expect(typeof useVotes).toBe("function");
+	});
+
+	it("should export poll and ballot hooks", async () => {
+		const {
+			useVoteList,
+			useVote,
+			useUserBallot,
+			useVoteResults,
+			useVoteMutations,
+		} = await import("./useVotes");
+		expect(typeof useVoteList).toBe("function");
+		expect(typeof useVote).toBe("function");
+		expect(typeof useUserBallot).toBe("function");
+		expect(typeof useVoteResults).toBe("function");
+		expect(typeof useVoteMutations).toBe("function");
+	});
+
+	it("should export vote query keys", async () => {
+		const { voteQueryKeys, voteResultQueryKeys } = await import("./useVotes");
+		expect(voteQueryKeys.all()).toEqual(["votes"]);
+		expect(voteResultQueryKeys.all()).toEqual(["vote_results"]);
+	});
+
+	it("should follow the opening window of a poll", async () => {
+		const { getVoteStatus } = await import("./useVotes");
+		const vote = {
+			start_date: "2025-03-01T00:00:00.000Z",
+			end_date: "2025-03-08T00:00:00.000Z",
+			is_active: true,
+		};
+
+		expect(getVoteStatus(vote, new Date("2025-02-28T23:59:59Z"))).toBe(
+			"upcoming",
+		);
+		expect(getVoteStatus(vote, new Date("2025-03-01T00:00:00Z"))).toBe("open");
+		expect(getVoteStatus(vote, new Date("2025-03-08T00:00:00Z"))).toBe(
+			"closed",
+		);
+		// Closed early by an officer
+		expect(
+			getVoteStatus(
+				{ ...vote, is_active: false },
+				new Date("2025-03-02T00:00:00Z"),
+			),
+		).toBe("closed");
+	});
+
+	it("should find the winning options, including ties", async () => {
+		const { getWinningOptions } = await import("./useVotes");
+		const tally = (option_id: string, votes: number) => ({
+			option_id,
+			title: option_id,
+			votes,
+		});
+
+		expect(
+			getWinningOptions([tally("a", 3), tally("b", 5), tally("c", 1)]).map(
+				(option) => option.option_id,
+			),
+		).toEqual(["b"]);
+		expect(
+			getWinningOptions([tally("a", 4), tally("b", 4)]).map(
+				(option) => option.option_id,
+			),
+		).toEqual(["a", "b"]);
+		expect(getWinningOptions([tally("a", 0), tally("b", 0)])).toEqual([]);
+	});
+
+	it("should read ballot error codes", async () => {
+		const { getVoteErrorCode, getVoteErrorMessage, VOTE_ERRORS } = await import(
+			"./useVotes"
+		);
+		const error = { details: "already_voted", message: "raw" } as Parameters<
+			typeof getVoteErrorCode
+		>[0];
+
+		expect(getVoteErrorCode(error)).toBe("already_voted");
+		expect(getVoteErrorMessage(error)).toBe(VOTE_ERRORS.already_voted);
+		expect(getVoteErrorCode(null)).toBeUndefined();
+	});
+
+	it("should export the results as CSV", async () => {
+		const { buildVoteResultsCsv, getVoteResultsFilename, getVoteShare } =
+			await import("../../lib/voteExport");
+		const vote = {
+			title: "Repaint the gate, yes or no?",
+			start_date: "2025-03-01T00:00:00.000Z",
+			end_date: "2025-03-08T00:00:00.000Z",
+			eligibility: "household" as const,
+		};
+		const csv = buildVoteResultsCsv(vote, [
+			{ option_id: "a", title: 'Yes, "green"', votes: 2 },
+			{ option_id: "b", title: "No", votes: 1 },
+		]);
+
+		expect(csv.split("\r\n")).toEqual([
+			'Poll,"Repaint the gate, yes or no?"',
+			"Opened,2025-03-01T00:00:00.000Z",
+			"Closed,2025-03-08T00:00:00.000Z",
+			"Eligibility,Household",
+			"Ballots,3",
+			"",
+			"Option,Votes,Share (%)",
+			'"Yes, ""green""",2,66.7',
+			"No,1,33.3",
+			"",
+		]);
+		expect(getVoteShare(0, 0)).toBe(0);
+		expect(getVoteResultsFilename(vote)).toBe(
+			"repaint-the-gate-yes-or-no-results.csv",
+		);
+	});
+});
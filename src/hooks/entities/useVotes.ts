@@ -0,0 +1,413 @@
+/**
+ * Unified Votes Hook
+ *
+ * Association polls: opening window, one ballot per member or
+ * per homeowner household, and results published once closed.
+ */
+
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "../../lib/supabase";
+import type {
+	Association,
+	Vote,
+	VoteEligibility,
+	VoteOption,
+	VoteResult,
+	VoteTally,
+} from "../../types/database";
+
+// Import new architecture
+import { EntityQueryKeys } from "../utils/queryKeys";
+import { useGenericQuery } from "../core/useGenericQuery";
+import { useCustomMutation } from "../core/useMutationHooks";
+import type { AppError } from "../utils/errorHandling";
+
+/**
+ * Poll with its association and options
+ */
+export interface VoteWithOptions extends Vote {
+	association?: Pick<Association, "id" | "name">;
+	options: VoteOption[];
+}
+
+export type VoteCreateData = Pick<
+	Vote,
+	| "association_id"
+	| "title"
+	| "description"
+	| "start_date"
+	| "end_date"
+	| "eligibility"
+> & {
+	options: string[];
+};
+
+export type VoteStatus = "upcoming" | "open" | "closed";
+
+export const VOTE_ELIGIBILITY: Record<VoteEligibility, string> = {
+	member: "One vote per member",
+	household: "One vote per household (verified homeowners)",
+};
+
+export const VOTE_STATUS_LABELS: Record<VoteStatus, string> = {
+	upcoming: "Upcoming",
+	open: "Open",
+	closed: "Closed",
+};
+
+export const VOTE_MIN_OPTIONS = 2;
+export const VOTE_MAX_OPTIONS = 10;
+
+export type VoteErrorCode =
+	| "not_member"
+	| "not_homeowner"
+	| "vote_not_open"
+	| "vote_closed"
+	| "invalid_option"
+	| "already_voted"
+	| "results_hidden"
+	| "vote_started"
+	| "vote_locked"
+	| "not_officer"
+	| "invalid_options";
+
+export const VOTE_ERRORS: Record<VoteErrorCode, string> = {
+	not_member: "Only association members can take part in this poll",
+	not_homeowner: "Only verified homeowners can vote in this poll",
+	vote_not_open: "This poll is not open yet",
+	vote_closed: "This poll is closed",
+	invalid_option: "This option is not part of the poll",
+	already_voted: "A ballot was already cast for you or your household",
+	results_hidden: "Results are published when the poll closes",
+	vote_started: "Options cannot change once the poll has opened",
+	vote_locked: "An open poll can only be closed",
+	not_officer: "Only association officers can create polls",
+	invalid_options: `A poll needs between ${VOTE_MIN_OPTIONS} and ${VOTE_MAX_OPTIONS} distinct options`,
+};
+
+const VOTE_SELECT =
+	"*, association:associations(id, name), options:vote_options(*)";
+
+/**
+ * Vote query keys using the new unified system
+ */
+const voteQueryKeys = new EntityQueryKeys("votes");
+const voteResultQueryKeys = new EntityQueryKeys("vote_results");
+
+/**
+ * Whether a poll is upcoming, open or closed
+ * Closing a poll early (is_active = false) publishes its results
+ */
+export function getVoteStatus(
+	vote: Pick<Vote, "start_date" | "end_date" | "is_active">,
+	now: Date = new Date(),
+): VoteStatus {
+	if (!vote.is_active || now >= new Date(vote.end_date)) return "closed";
+	if (now < new Date(vote.start_date)) return "upcoming";
+	return "open";
+}
+
+/**
+ * Options of a poll in creation order
+ */
+export function sortVoteOptions<T extends Pick<VoteOption, "created_at">>(
+	options: T[],
+): T[] {
+	return [...options].sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Options with the most ballots, several when tied
+ */
+export function getWinningOptions(tallies: VoteTally[]): VoteTally[] {
+	const top = Math.max(0, ...tallies.map((tally) => tally.votes));
+	return top > 0 ? tallies.filter((tally) => tally.votes === top) : [];
+}
+
+/**
+ * Read the code of a failed poll, ballot or results request
+ */
+export function getVoteErrorCode(
+	error: AppError | null | undefined,
+): VoteErrorCode | undefined {
+	const code = error?.details;
+	return typeof code === "string" && code in VOTE_ERRORS
+		? (code as VoteErrorCode)
+		: undefined;
+}
+
+/**
+ * Message of a failed poll, ballot or results request
+ */
+export function getVoteErrorMessage(
+	error: AppError | null | undefined,
+): string | undefined {
+	const code = getVoteErrorCode(error);
+	return code ? VOTE_ERRORS[code] : error?.message;
+}
+
+/**
+ * Fetch the polls visible to the user (votes_select_members), latest first
+ */
+async function fetchVotes(associationId?: string): Promise<VoteWithOptions[]> {
+	let query = supabase
+		.from("votes")
+		.select(VOTE_SELECT)
+		.order("start_date", { ascending: false });
+
+	if (associationId) query = query.eq("association_id", associationId);
+
+	const { data, error } = await query;
+
+	if (error) throw error;
+	return (data || []).map((vote) => ({
+		...vote,
+		options: sortVoteOptions(vote.options || []),
+	}));
+}
+
+/**
+ * Fetch a poll by ID
+ */
+async function fetchVoteById(voteId: string): Promise<VoteWithOptions | null> {
+	if (!voteId) return null;
+
+	const { data, error } = await supabase
+		.from("votes")
+		.select(VOTE_SELECT)
+		.eq("id", voteId)
+		.single();
+
+	if (error) {
+		if (error.code === "PGRST116") return null; // Not found
+		throw error;
+	}
+	return { ...data, options: sortVoteOptions(data.options || []) };
+}
+
+/**
+ * Fetch the ballot a user cast in a poll
+ */
+async function fetchUserBallot(
+	voteId: string,
+	userId: string,
+): Promise<VoteResult | null> {
+	if (!voteId || !userId) return null;
+
+	const { data, error } = await supabase
+		.from("vote_results")
+		.select("*")
+		.eq("vote_id", voteId)
+		.eq("user_id", userId)
+		.maybeSingle();
+
+	if (error) throw error;
+	return data;
+}
+
+/**
+ * Fetch the tally of a closed poll
+ */
+async function fetchVoteResults(voteId: string): Promise<VoteTally[]> {
+	if (!voteId) return [];
+
+	const { data, error } = await supabase.rpc("get_vote_results", {
+		p_vote_id: voteId,
+	});
+
+	if (error) throw error;
+	return (data || []).map((tally: VoteTally) => ({
+		...tally,
+		votes: Number(tally.votes),
+	}));
+}
+
+/**
+ * Hook for the polls, optionally of a single association
+ */
+export function useVoteList(associationId?: string) {
+	const votesQuery = useGenericQuery<VoteWithOptions[]>({
+		queryKey: associationId
+			? voteQueryKeys.byFilter({ associationId })
+			: voteQueryKeys.lists(),
+		queryFn: () => fetchVotes(associationId),
+		entityName: "votes",
+		operationName: "fetchAll",
+	});
+
+	return {
+		votes: votesQuery.data || [],
+		isLoading: votesQuery.isLoading,
+		error: votesQuery.error,
+		errorMessage: votesQuery.errorMessage,
+	};
+}
+
+/**
+ * Hook for a single poll
+ */
+export function useVote(voteId: string) {
+	return useGenericQuery<VoteWithOptions | null>({
+		queryKey: voteQueryKeys.byId(voteId),
+		queryFn: () => fetchVoteById(voteId),
+		entityName: "votes",
+		operationName: "fetchById",
+		additionalOptions: {
+			enabled: !!voteId,
+		},
+	});
+}
+
+/**
+ * Hook for the ballot of the user in a poll
+ */
+export function useUserBallot(voteId: string, userId: string) {
+	const ballotQuery = useGenericQuery<VoteResult | null>({
+		queryKey: voteResultQueryKeys.byFilter({ voteId, userId }),
+		queryFn: () => fetchUserBallot(voteId, userId),
+		entityName: "vote_results",
+		operationName: "fetchByUser",
+		additionalOptions: {
+			enabled: !!voteId && !!userId,
+		},
+	});
+
+	return {
+		ballot: ballotQuery.data ?? null,
+		isLoading: ballotQuery.isLoading,
+		error: ballotQuery.error,
+	};
+}
+
+/**
+ * Hook for the tally of a poll, only requested once it is closed
+ */
+export function useVoteResults(voteId: string, enabled = true) {
+	const resultsQuery = useGenericQuery<VoteTally[]>({
+		queryKey: voteResultQueryKeys.byFilter({ voteId }),
+		queryFn: () => fetchVoteResults(voteId),
+		entityName: "vote_results",
+		operationName: "fetchResults",
+		additionalOptions: {
+			enabled: enabled && !!voteId,
+		},
+	});
+	const tallies = resultsQuery.data || [];
+
+	return {
+		tallies,
+		total: tallies.reduce((sum, tally) => sum + tally.votes, 0),
+		isLoading: resultsQuery.isLoading,
+		error: resultsQuery.error,
+		errorMessage: getVoteErrorMessage(resultsQuery.error),
+	};
+}
+
+/**
+ * Hook for creating, closing and voting in polls
+ */
+export function useVoteMutations() {
+	const queryClient = useQueryClient();
+
+	// The poll and its options are created together by officers only
+	const createVoteMutation = useCustomMutation(
+		async (voteData: VoteCreateData): Promise<Vote> => {
+			const { data, error } = await supabase.rpc("create_vote", {
+				p_association_id: voteData.association_id,
+				p_title: voteData.title,
+				p_description: voteData.description ?? null,
+				p_start_date: voteData.start_date,
+				p_end_date: voteData.end_date,
+				p_eligibility: voteData.eligibility,
+				p_options: voteData.options,
+			});
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: voteQueryKeys,
+			entityName: "votes",
+			operationName: "create",
+		},
+	);
+
+	// Closing early publishes the results
+	const closeVoteMutation = useCustomMutation(
+		async (voteId: string) => {
+			const { error } = await supabase
+				.from("votes")
+				.update({ is_active: false })
+				.eq("id", voteId);
+
+			if (error) throw error;
+		},
+		{
+			queryKeys: voteQueryKeys,
+			entityName: "votes",
+			operationName: "close",
+			onSuccess: () => {
+				queryClient.invalidateQueries({ queryKey: voteResultQueryKeys.all() });
+			},
+		},
+	);
+
+	// Eligibility, the opening window and the one ballot rule are checked server side
+	const castVoteMutation = useCustomMutation(
+		async ({
+			voteId,
+			optionId,
+		}: {
+			voteId: string;
+			optionId: string;
+		}): Promise<{ result_id: string; vote_option_id: string }> => {
+			const { data, error } = await supabase.rpc("cast_vote", {
+				p_vote_id: voteId,
+				p_option_id: optionId,
+			});
+
+			if (error) throw error;
+			return data;
+		},
+		{
+			queryKeys: voteResultQueryKeys,
+			entityName: "vote_results",
+			operationName: "cast",
+		},
+	);
+
+	return {
+		createVote: createVoteMutation.mutate,
+		closeVote: closeVoteMutation.mutate,
+		castVote: castVoteMutation.mutate,
+
+		createdVote: createVoteMutation.data,
+		isCreatingVote: createVoteMutation.isPending,
+		isClosingVote: closeVoteMutation.isPending,
+		isCastingVote: castVoteMutation.isPending,
+
+		createVoteError: createVoteMutation.error,
+		createVoteErrorMessage: getVoteErrorMessage(createVoteMutation.error),
+		closeVoteError: closeVoteMutation.error,
+		castVoteError: castVoteMutation.error,
+		castVoteErrorMessage: getVoteErrorMessage(castVoteMutation.error),
+
+		reset: () => {
+			createVoteMutation.reset();
+			closeVoteMutation.reset();
+			castVoteMutation.reset();
+		},
+	};
+}
+
+/**
+ * Export query keys for external use
+ */
+export { voteQueryKeys, voteResultQueryKeys };
+
+/**
+ * Default export - polls of the user's associations
+ */
+export default function useVotes() {
+	return useVoteList();
+}
@@ -92,6 +92,227 @@ export {
 } from "./entities/useMarketplace";
 export { default as useMarketplace } from "./entities/useMarketplace";
 
+// Coins wallet
+export {
+	useCoinTransactions,
+	coinTransactionQueryKeys,
+	withRunningBalance,
+	summarizeTransactions,
+	COIN_TRANSACTION_LABELS,
+	type CoinLedgerEntry,
+	// Daily check-in
+	useCheckinHistory,
+	useDailyCheckinMutation,
+	getManilaDateKey,
+	hasCheckedInToday,
+	getStreakBonus,
+	getNextStreakBonus,
+	computeCheckinStreaks,
+	CHECKIN_TIME_ZONE,
+	DAILY_CHECKIN_COINS,
+	CHECKIN_STREAK_BONUSES,
+	// Transfers between residents
+	useCoinTransferMutation,
+	validateCoinTransfer,
+	getCoinTransferErrorCode,
+	COIN_TRANSFER_ERRORS,
+	COIN_TRANSFER_NOTE_MAX_LENGTH,
+	type CoinTransferErrorCode,
+} from "./entities/useCoins";
+export { default as useCoins } from "./entities/useCoins";
+
+// Forum
+export {
+	useForumsCRUD,
+	useForumList,
+	useForum,
+	useForumThreads,
+	useThread,
+	useThreadPosts,
+	useForumMutations,
+	forumQueryKeys,
+	threadQueryKeys,
+	forumPostQueryKeys,
+	getPageCount,
+	getPageRange,
+	FORUM_THREADS_PAGE_SIZE,
+	THREAD_POSTS_PAGE_SIZE,
+	FORUM_POST_MAX_LENGTH,
+	THREAD_TITLE_MAX_LENGTH,
+	type ForumSummary,
+	type ThreadSummary,
+	type ThreadDetail,
+	type ForumPostWithAuthor,
+	type ForumPage,
+	type ForumCreateData,
+} from "./entities/useForums";
+export { default as useForums } from "./entities/useForums";
+
+// Forum moderation
+export {
+	useModerationQueue,
+	useModerationLog,
+	useForumReportMutation,
+	useModerateMutation,
+	forumReportQueryKeys,
+	moderationActionQueryKeys,
+	getThreadToggleAction,
+	getUndoAction,
+	REPORT_REASONS,
+	REPORT_DETAILS_MAX_LENGTH,
+	MODERATION_LOG_LIMIT,
+	MODERATION_ACTION_LABELS,
+	type ForumReportWithTarget,
+	type ModerationActionWithAdmin,
+} from "./entities/useModeration";
+
+// Community posts
+export {
+	usePostList,
+	usePost,
+	usePostComments,
+	usePostMutations,
+	postQueries,
+	postQueryKeys,
+	postCommentQueryKeys,
+	getLikeSummary,
+	POST_CONTENT_MAX_LENGTH,
+	POST_COMMENT_MAX_LENGTH,
+	type PostWithDetails,
+	type PostCommentWithAuthor,
+} from "./entities/usePosts";
+export { default as usePosts } from "./entities/usePosts";
+
+// Associations
+export {
+	useAssociationsCRUD,
+	useAssociationList,
+	useAssociation,
+	useAssociationMembers,
+	useUserMemberships,
+	useAssociationMembershipMutations,
+	associationQueryKeys,
+	associationMemberQueryKeys,
+	isOfficer,
+	getAssignableRoles,
+	sortMembersByRole,
+	getAssociationRoleErrorCode,
+	ASSOCIATION_ROLES,
+	ASSOCIATION_CATEGORIES,
+	ASSOCIATION_ROLE_ERRORS,
+	type AssociationSummary,
+	type AssociationMemberWithProfile,
+	type AssociationCreateData,
+	type AssociationRoleErrorCode,
+} from "./entities/useAssociations";
+export { default as useAssociations } from "./entities/useAssociations";
+
+// Events
+export {
+	useEventsInRange,
+	useEvent,
+	useEventAttendees,
+	useUserRsvpEvents,
+	useEventMutations,
+	eventQueryKeys,
+	eventParticipantQueryKeys,
+	toDateKey,
+	fromDateKey,
+	getWeekDays,
+	getMonthGrid,
+	getViewRange,
+	shiftViewDate,
+	getEventsOnDay,
+	getRsvpCounts,
+	getUserRsvp,
+	EVENT_RSVP_LABELS,
+	WEEKDAY_LABELS,
+	type EventWithDetails,
+	type EventAttendee,
+	type EventCreateData,
+	type EventRange,
+	type CalendarView,
+} from "./entities/useEvents";
+export { default as useEvents } from "./entities/useEvents";
+
+// Association polls
+export {
+	useVoteList,
+	useVote,
+	useUserBallot,
+	useVoteResults,
+	useVoteMutations,
+	voteQueryKeys,
+	voteResultQueryKeys,
+	getVoteStatus,
+	sortVoteOptions,
+	getWinningOptions,
+	getVoteErrorCode,
+	getVoteErrorMessage,
+	VOTE_ELIGIBILITY,
+	VOTE_STATUS_LABELS,
+	VOTE_MIN_OPTIONS,
+	VOTE_MAX_OPTIONS,
+	VOTE_ERRORS,
+	type VoteWithOptions,
+	type VoteCreateData,
+	type VoteStatus,
+	type VoteErrorCode,
+} from "./entities/useVotes";
+export { default as useVotes } from "./entities/useVotes";
+
+// Association announcements
+export {
+	useAnnouncementFeed,
+	useManagedAnnouncements,
+	useHeaderAnnouncements,
+	useAnnouncementMutations,
+	announcementQueryKeys,
+	getAnnouncementState,
+	isInHeader,
+	countUnread,
+	ANNOUNCEMENT_STATE_LABELS,
+	ANNOUNCEMENT_CONTENT_MAX_LENGTH,
+	URGENT_HEADER_DURATION,
+	type FeedAnnouncement,
+	type ManagedAnnouncement,
+	type AnnouncementSaveData,
+	type AnnouncementState,
+} from "./entities/useAnnouncements";
+export { default as useAnnouncements } from "./entities/useAnnouncements";
+
+// Association documents
+export {
+	useDocumentList,
+	useDocument,
+	useDocumentVersions,
+	useDocumentFileUrl,
+	useDocumentMutations,
+	documentQueryKeys,
+	documentVersionQueryKeys,
+	getPreviewKind,
+	getDocumentFilename,
+	DOCUMENT_CATEGORIES,
+	type DocumentWithAssociation,
+	type DocumentVersionWithUploader,
+	type DocumentFilters,
+	type DocumentCreateData,
+	type DocumentPreviewKind,
+} from "./entities/useDocuments";
+export { default as useDocuments } from "./entities/useDocuments";
+
+// Featured boosts
+export {
+	useBoostMutation,
+	boostQueryKeys,
+	isFeaturedActive,
+	sortFeaturedFirst,
+	getBoostExpiry,
+	BOOST_DURATIONS,
+	type BoostDurationId,
+	type BoostTarget,
+} from "./entities/useBoosts";
+
 // ============================================================================
 // UTILITY HOOKS
 // ============================================================================
@@ -113,6 +334,7 @@ export {
 	usePresence,
 	usePresenceMutations,
 	usePresenceStatus,
+	useTypingIndicator,
 	presenceQueryKeys,
 } from "./entities/usePresence";
 export { default as usePresenceWithOptions } from "./entities/usePresence";
@@ -137,14 +359,49 @@ export {
 	useMessagingUserHeaders,
 	useMessagingChats,
 	useMessagingChatById,
+	useMessagingChatChannels,
+	useMessagingChannelMessages,
+	useBlockChannelMembership,
 	useMessagingMessagesByChat,
 	useMessagingPrivateMessagesBetweenUsers,
+	useMessagingConversations,
+	useMessagingAttachmentUrl,
 	useMessagingHeaderMutations,
 	useMessagingChatMutations,
 	useMessagingMessageMutations,
+	useMessagingConversationMutations,
+	getMessagePreview,
+	isMessageEditable,
+	MESSAGE_EDIT_WINDOW_MS,
+	HEADER_DURATIONS,
+	isHeaderActive,
+	HEADER_MESSAGE_MAX_LENGTH,
+	getHeaderExpiry,
+	COMMUNITY_CHANNELS,
+	CHAT_PAGE_SIZE,
+	getBlockChannelId,
+	isBlockChannelId,
+	resolveBlockChannels,
+	getChannelLastRead,
+	setChannelLastRead,
+	type Conversation,
+	type HeaderDurationId,
+	type ChatChannel,
+	type ChannelMessage,
 } from "./entities/useMessaging";
 export { default as useMessaging } from "./entities/useMessaging";
 
+// Conversation cleanup (unified entity hooks)
+export {
+	useConversationCleanupNotification,
+	useInactiveConversations,
+	useConversationCleanupMutations,
+	cleanupQueryKeys,
+	CONVERSATION_INACTIVITY_DAYS,
+	type InactiveConversation,
+} from "./entities/useConversationCleanup";
+export { default as useConversationCleanup } from "./entities/useConversationCleanup";
+
 // Locations (unified entity hooks)
 export {
 	useLocationsList as useLocations,
@@ -152,7 +409,10 @@ export {
 	useUserLocations,
 	useNearbyLocations,
 	useAssociatedLocationsWithCoords,
+	useLocationsInBounds,
+	useMapPlaces,
 	useUserLocationIds,
+	useLocationPlaces,
 	useGeolocation,
 	useLocationAssociationRequests,
 	useLocationAssociationRequestById,
@@ -170,6 +430,11 @@ export {
 	locationQueryKeys,
 	associationRequestQueryKeys,
 	profileAssociationQueryKeys,
+	snapBounds,
+	type LocationWithCoords,
+	type LocationPlaces,
+	type MapBounds,
+	type MapPlaces,
 } from "./entities/useLocations";
 export { default as useLocationsWithOptions } from "./entities/useLocations";
 
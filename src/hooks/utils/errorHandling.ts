@@ -80,6 +80,8 @@ export const ErrorHandler = {
 			case "08006":
 			case "08001":
 				return ErrorHandler.handleConnectionError(error, entityName, operation);
+			case "P0001":
+				return ErrorHandler.handleRaisedException(error, entityName, operation);
 			default:
 				return ErrorHandler.handleGenericError(error, entityName, operation);
 		}
@@ -215,6 +217,28 @@ export const ErrorHandler = {
 		return appError;
 	},
 
+	/**
+	 * Handle exceptions raised by database functions (RAISE EXCEPTION),
+	 * whose message is meant for the user, e.g. "Not enough coins"
+	 */
+	handleRaisedException: (
+		error: any,
+		entityName: string,
+		operation?: string,
+	): AppError => {
+		const appError: AppError = {
+			code: "P0001",
+			message: error?.message || `Operation rejected for ${entityName}`,
+			details: error.details,
+			entity: entityName,
+			operation,
+			timestamp: Date.now(),
+		};
+
+		console.warn(`Raised Exception [${entityName}]:`, appError);
+		return appError;
+	},
+
 	handleGenericError: (
 		error: any,
 		entityName: string,
@@ -243,7 +267,8 @@ export const ErrorHandler = {
 			error.code === "PGRST116" ||
 			error.code === "23505" ||
 			error.code === "23503" ||
-			error.code === "23514"
+			error.code === "23514" ||
+			error.code === "P0001"
 		) {
 			return false;
 		}
@@ -340,7 +365,11 @@ export const ErrorHandler = {
 	},
 
 	isCriticalError: (error: AppError): boolean => {
-		if (error.code === "42501" || error.code === "PGRST116") {
+		if (
+			error.code === "42501" ||
+			error.code === "PGRST116" ||
+			error.code === "P0001"
+		) {
 			return false;
 		}
 
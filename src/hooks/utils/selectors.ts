@@ -71,6 +71,7 @@ export const FIELD_SETS = {
 				"lot",
 				"is_active",
 				"is_featured",
+				"featured_until",
 				"created_at",
 				"updated_at",
 				"location_id",
@@ -94,6 +95,7 @@ export const FIELD_SETS = {
 				"lot",
 				"is_active",
 				"is_featured",
+				"featured_until",
 				"created_at",
 				"updated_at",
 				"location_id",
@@ -120,6 +122,7 @@ export const FIELD_SETS = {
 				"phone_type",
 				"is_active",
 				"is_featured",
+				"featured_until",
 				"created_at",
 				"updated_at",
 			],
@@ -146,6 +149,7 @@ export const FIELD_SETS = {
 				"photo_3_url",
 				"is_active",
 				"is_featured",
+				"featured_until",
 				"created_at",
 				"updated_at",
 			],
@@ -169,6 +173,7 @@ export const FIELD_SETS = {
 			"updated_at",
 			"contact_method",
 			"is_featured",
+			"featured_until",
 			"photo_1_url",
 		],
 		detail: "*",
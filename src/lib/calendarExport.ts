@@ -0,0 +1,122 @@
+/**
+ * Calendar export helpers
+ * Serialize events to iCalendar (.ics, RFC 5545) so residents
+ * can add them to their phone or desktop calendar
+ */
+
+import type { Event } from "../types/database";
+
+export type CalendarEvent = Pick<
+	Event,
+	"id" | "title" | "description" | "start_date" | "end_date" | "location"
+>;
+
+// Events without an end are shown as lasting one hour
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+
+// Lines longer than 75 octets must be folded
+const MAX_LINE_LENGTH = 75;
+
+/**
+ * Format a date as an iCalendar UTC date-time (20250301T093000Z)
+ */
+export function formatIcsDate(date: string | Date): string {
+	return new Date(date)
+		.toISOString()
+		.replace(/[-:]/g, "")
+		.replace(/\.\d{3}/, "");
+}
+
+/**
+ * Escape a text value (backslashes, separators and newlines)
+ */
+export function escapeIcsText(text: string): string {
+	return text
+		.replace(/\\/g, "\\\\")
+		.replace(/;/g, "\\;")
+		.replace(/,/g, "\\,")
+		.replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line, continuation lines start with a space
+ */
+export function foldIcsLine(line: string): string {
+	const encoder = new TextEncoder();
+	if (encoder.encode(line).length <= MAX_LINE_LENGTH) return line;
+
+	const parts: string[] = [];
+	let current = "";
+	for (const char of line) {
+		// Continuation lines lose one octet to the leading space
+		const limit = parts.length === 0 ? MAX_LINE_LENGTH : MAX_LINE_LENGTH - 1;
+		if (encoder.encode(current + char).length > limit) {
+			parts.push(current);
+			current = "";
+		}
+		current += char;
+	}
+	parts.push(current);
+
+	return parts.join("\r\n ");
+}
+
+/**
+ * Build the VEVENT lines of an event
+ */
+function buildIcsEvent(event: CalendarEvent, stamp: string): string[] {
+	const end =
+		event.end_date ||
+		new Date(
+			new Date(event.start_date).getTime() + DEFAULT_EVENT_DURATION_MS,
+		).toISOString();
+
+	return [
+		"BEGIN:VEVENT",
+		`UID:${event.id}@myggv`,
+		`DTSTAMP:${stamp}`,
+		`DTSTART:${formatIcsDate(event.start_date)}`,
+		`DTEND:${formatIcsDate(end)}`,
+		`SUMMARY:${escapeIcsText(event.title)}`,
+		...(event.description
+			? [`DESCRIPTION:${escapeIcsText(event.description)}`]
+			: []),
+		...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+		"END:VEVENT",
+	];
+}
+
+/**
+ * Build an iCalendar file with one or more events
+ */
+export function buildIcsCalendar(
+	events: CalendarEvent[],
+	now: Date = new Date(),
+): string {
+	const stamp = formatIcsDate(now);
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		"PRODID:-//MyGGV//Events//EN",
+		"CALSCALE:GREGORIAN",
+		"METHOD:PUBLISH",
+		...events.flatMap((event) => buildIcsEvent(event, stamp)),
+		"END:VCALENDAR",
+	];
+
+	return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * File name of an export, from the event title when there is only one
+ */
+export function getIcsFilename(events: CalendarEvent[]): string {
+	if (events.length === 1) {
+		const slug = events[0].title
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-|-$/g, "");
+		return `${slug || "event"}.ics`;
+	}
+	return "myggv-events.ics";
+}
@@ -0,0 +1,204 @@
+/**
+ * Conversation export helpers
+ * Serialize a private conversation (JSON or plain text transcript)
+ * so users can keep a record of it and view it again offline
+ */
+
+import type { PrivateMessage } from "../types/database";
+
+/**
+ * Participant of an exported conversation
+ */
+export interface ExportParticipant {
+	id: string;
+	username?: string;
+}
+
+/**
+ * Message as stored in an export (self-contained, no joins needed)
+ */
+export interface ExportedMessage {
+	id: string;
+	sent_at: string;
+	sender_id: string;
+	sender_username: string;
+	message: string;
+	message_type: PrivateMessage["message_type"];
+	attachment_url?: string;
+	attachment_type?: string;
+	reply_to?: string;
+	is_edited: boolean;
+	edited_at?: string;
+	is_deleted: boolean;
+}
+
+/**
+ * JSON export format (versioned so imports can evolve)
+ */
+export interface ConversationExport {
+	version: 1;
+	exported_at: string;
+	participants: ExportParticipant[];
+	messages: ExportedMessage[];
+}
+
+export type ExportFormat = "json" | "txt";
+
+/**
+ * Build the JSON export of a conversation
+ */
+export function buildConversationExport(
+	messages: PrivateMessage[],
+	participants: ExportParticipant[],
+): ConversationExport {
+	const usernames = new Map(
+		participants.map((participant) => [
+			participant.id,
+			participant.username || "Unknown user",
+		]),
+	);
+
+	return {
+		version: 1,
+		exported_at: new Date().toISOString(),
+		participants,
+		messages: messages.map((message) => ({
+			id: message.id,
+			sent_at: message.created_at,
+			sender_id: message.sender_id,
+			sender_username: usernames.get(message.sender_id) || "Unknown user",
+			// Deleted messages keep their place but not their content
+			message: message.deleted_at ? "" : message.message,
+			message_type: message.message_type,
+			attachment_url: message.deleted_at ? undefined : message.attachment_url,
+			attachment_type: message.deleted_at ? undefined : message.attachment_type,
+			reply_to: message.reply_to,
+			is_edited: message.is_edited,
+			edited_at: message.is_edited ? message.updated_at : undefined,
+			is_deleted: !!message.deleted_at,
+		})),
+	};
+}
+
+/**
+ * Format a timestamp as `YYYY-MM-DD HH:mm` in local time
+ */
+function formatTranscriptDate(date: string): string {
+	const d = new Date(date);
+	const pad = (value: number) => String(value).padStart(2, "0");
+	return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/**
+ * Build a human-readable .txt transcript from a JSON export
+ */
+export function buildTranscript(conversation: ConversationExport): string {
+	const messagesById = new Map(
+		conversation.messages.map((message) => [message.id, message]),
+	);
+	const names = conversation.participants
+		.map((participant) => participant.username || "Unknown user")
+		.join(" & ");
+
+	const lines = [
+		`Conversation between ${names}`,
+		`Exported on ${formatTranscriptDate(conversation.exported_at)}`,
+		"",
+	];
+
+	for (const message of conversation.messages) {
+		const header = `[${formatTranscriptDate(message.sent_at)}] ${message.sender_username}`;
+
+		if (message.is_deleted) {
+			lines.push(`${header}: (message deleted)`);
+			continue;
+		}
+
+		const parent = message.reply_to
+			? messagesById.get(message.reply_to)
+			: undefined;
+		if (parent) {
+			const quoted = parent.is_deleted
+				? "(message deleted)"
+				: parent.message.slice(0, 60);
+			lines.push(`  ↪ replying to ${parent.sender_username}: "${quoted}"`);
+		}
+
+		let body = message.message;
+		if (message.message_type !== "text" && message.attachment_url) {
+			body = `[${message.message_type}] ${message.message} <${message.attachment_url}>`;
+		}
+
+		const edited = message.is_edited
+			? message.edited_at
+				? ` (edited ${formatTranscriptDate(message.edited_at)})`
+				: " (edited)"
+			: "";
+
+		lines.push(`${header}: ${body}${edited}`);
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Parse and validate the content of a JSON export file
+ */
+export function parseConversationExport(content: string): ConversationExport {
+	let data: Partial<Record<keyof ConversationExport, unknown>> | null;
+	try {
+		data = JSON.parse(content);
+	} catch {
+		throw new Error("This file is not a valid conversation export");
+	}
+
+	if (
+		!data ||
+		data.version !== 1 ||
+		!Array.isArray(data.participants) ||
+		!Array.isArray(data.messages) ||
+		!data.messages.every(
+			(message: Partial<Record<keyof ExportedMessage, unknown>> | null) =>
+				typeof message?.id === "string" &&
+				typeof message.sent_at === "string" &&
+				typeof message.sender_id === "string" &&
+				typeof message.message === "string",
+		)
+	) {
+		throw new Error("This file is not a valid conversation export");
+	}
+
+	return data as ConversationExport;
+}
+
+/**
+ * File name for an export, e.g. `conversation-jdoe-2025-01-31.json`
+ */
+export function getExportFilename(
+	partnerUsername: string | undefined,
+	extension: string,
+): string {
+	const slug = (partnerUsername || "conversation")
+		.toLowerCase()
+		.replace(/[^a-z0-9_-]+/g, "-");
+	const date = new Date().toISOString().slice(0, 10);
+	return `conversation-${slug}-${date}.${extension}`;
+}
+
+/**
+ * Trigger a browser download of some text content
+ */
+export function downloadFile(
+	filename: string,
+	content: string,
+	type: string,
+): void {
+	const url = URL.createObjectURL(new Blob([content], { type }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+	URL.revokeObjectURL(url);
+}
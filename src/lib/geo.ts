@@ -0,0 +1,27 @@
+/**
+ * Geo URI helpers (RFC 5870)
+ * Used to store a shared location in a message attachment
+ */
+
+/**
+ * Build a `geo:` URI from coordinates
+ */
+export function toGeoUri(lat: number, lng: number): string {
+	return `geo:${lat},${lng}`;
+}
+
+/**
+ * Parse a `geo:` URI, returning null when it is not a valid one
+ */
+export function parseGeoUri(
+	uri: string | undefined,
+): { lat: number; lng: number } | null {
+	const match = uri?.match(/^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/);
+	if (!match) return null;
+
+	const lat = Number(match[1]);
+	const lng = Number(match[2]);
+	if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+	return { lat, lng };
+}
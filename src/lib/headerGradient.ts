@@ -0,0 +1,30 @@
+/**
+ * Header banner gradient
+ * Shared by the rotating header and the announcement preview
+ */
+
+const HEADER_GRADIENT_COLORS = ["#f3c549", "#ffff7b"];
+
+/**
+ * Random two-color gradient from the header palette
+ */
+export function getRandomHeaderGradient(): string {
+	const angle = Math.floor(Math.random() * 360);
+	const color1 =
+		HEADER_GRADIENT_COLORS[
+			Math.floor(Math.random() * HEADER_GRADIENT_COLORS.length)
+		];
+	let color2 =
+		HEADER_GRADIENT_COLORS[
+			Math.floor(Math.random() * HEADER_GRADIENT_COLORS.length)
+		];
+
+	while (color2 === color1) {
+		color2 =
+			HEADER_GRADIENT_COLORS[
+				Math.floor(Math.random() * HEADER_GRADIENT_COLORS.length)
+			];
+	}
+
+	return `linear-gradient(${angle}deg, ${color1}, ${color2})`;
+}
@@ -0,0 +1,203 @@
+/**
+ * Map feature helpers
+ * Turn community data into GeoJSON for the clustered map layers
+ */
+
+import type {
+	LocationWithCoords,
+	MapPlaces,
+} from "../hooks/entities/useLocations";
+
+/** Built-in images; category icons use `emoji:<text>` image ids */
+export type MapIcon = "house" | "pin";
+
+export const EMOJI_ICON_PREFIX = "emoji:";
+
+export type MapLayerId = "businesses" | "services" | "marketplace" | "home";
+
+export interface MapLayerFilter {
+	visible: boolean;
+	/** Category name, empty for all categories */
+	category: string;
+}
+
+export type MapLayerFilters = Record<MapLayerId, MapLayerFilter>;
+
+export interface MapLayerCategory {
+	name: string;
+	icon: string;
+}
+
+/**
+ * Toggleable layers, in switcher order, with the icon used when a
+ * category has none
+ */
+export const MAP_LAYERS: Record<MapLayerId, { label: string; icon: string }> = {
+	businesses: { label: "Businesses inside", icon: "🏪" },
+	services: { label: "Services", icon: "🔧" },
+	marketplace: { label: "Items for sale", icon: "🛒" },
+	home: { label: "My home", icon: "🏠" },
+};
+
+export const DEFAULT_MAP_LAYER_FILTERS: MapLayerFilters = {
+	businesses: { visible: true, category: "" },
+	services: { visible: true, category: "" },
+	marketplace: { visible: true, category: "" },
+	home: { visible: true, category: "" },
+};
+
+export interface MapFeature {
+	type: "Feature";
+	geometry: { type: "Point"; coordinates: [number, number] };
+	/** `id` is always the lot, so any feature opens that lot's popup */
+	properties: { id: string; icon: string; layer: MapLayerId | "lots" };
+}
+
+export interface MapFeatureCollection {
+	type: "FeatureCollection";
+	features: MapFeature[];
+}
+
+type MapLocation = Pick<LocationWithCoords, "id" | "lng" | "lat">;
+
+function hasCoordinates(location: MapLocation) {
+	return Number.isFinite(location.lng) && Number.isFinite(location.lat);
+}
+
+function toFeature(
+	location: MapLocation,
+	icon: string,
+	layer: MapFeature["properties"]["layer"],
+): MapFeature {
+	return {
+		type: "Feature",
+		geometry: { type: "Point", coordinates: [location.lng, location.lat] },
+		properties: { id: location.id, icon, layer },
+	};
+}
+
+/**
+ * One point per mapped lot, shown as a house when it is the user's home
+ * The user's own lots are left out entirely while the home layer is hidden
+ */
+export function toLocationFeatures(
+	locations: MapLocation[],
+	userLocationIds: string[] = [],
+	showHome = true,
+): MapFeatureCollection {
+	return {
+		type: "FeatureCollection",
+		features: locations.filter(hasCoordinates).flatMap((location) => {
+			if (!userLocationIds.includes(location.id)) {
+				return [toFeature(location, "pin", "lots")];
+			}
+			return showHome ? [toFeature(location, "house", "home")] : [];
+		}),
+	};
+}
+
+/**
+ * Category names and icons per layer, for the filters and the legend
+ */
+export function getLayerCategories(
+	places: MapPlaces | undefined,
+): Record<"businesses" | "services" | "marketplace", MapLayerCategory[]> {
+	const collect = (
+		layer: "businesses" | "services" | "marketplace",
+		categories: { name?: string; icon?: string }[],
+	) => {
+		const byName = new Map<string, MapLayerCategory>();
+		for (const category of categories) {
+			if (!category.name || byName.has(category.name)) continue;
+			byName.set(category.name, {
+				name: category.name,
+				icon: category.icon || MAP_LAYERS[layer].icon,
+			});
+		}
+		return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+	};
+
+	return {
+		businesses: collect(
+			"businesses",
+			(places?.businesses || []).map((business) => business.category || {}),
+		),
+		services: collect(
+			"services",
+			(places?.services || []).map((service) => service.category || {}),
+		),
+		marketplace: collect(
+			"marketplace",
+			(places?.marketplace || []).map((item) => ({ name: item.category })),
+		),
+	};
+}
+
+/**
+ * Lots plus one point per visible business, service and item for sale
+ */
+export function toMapFeatures(
+	locations: LocationWithCoords[],
+	userLocationIds: string[],
+	places: MapPlaces | undefined,
+	filters: MapLayerFilters,
+): MapFeatureCollection {
+	const lots = toLocationFeatures(
+		locations,
+		userLocationIds,
+		filters.home.visible,
+	);
+	const locationsById = new Map(
+		locations.filter(hasCoordinates).map((location) => [location.id, location]),
+	);
+	const isShown = (layer: MapLayerId, category?: string) =>
+		filters[layer].visible &&
+		(!filters[layer].category || filters[layer].category === category);
+	const features: MapFeature[] = [];
+
+	for (const business of places?.businesses || []) {
+		const location = locationsById.get(business.location_id);
+		if (!location || !isShown("businesses", business.category?.name)) continue;
+		features.push(
+			toFeature(
+				location,
+				`${EMOJI_ICON_PREFIX}${business.category?.icon || MAP_LAYERS.businesses.icon}`,
+				"businesses",
+			),
+		);
+	}
+
+	for (const service of places?.services || []) {
+		const location = locationsById.get(service.location_id);
+		if (!location || !isShown("services", service.category?.name)) continue;
+		features.push(
+			toFeature(
+				location,
+				`${EMOJI_ICON_PREFIX}${service.category?.icon || MAP_LAYERS.services.icon}`,
+				"services",
+			),
+		);
+	}
+
+	// Items for sale sit at the first mapped lot of their seller
+	for (const item of places?.marketplace || []) {
+		const location = locations.find(
+			(candidate) =>
+				locationsById.has(candidate.id) &&
+				candidate.users.some((resident) => resident.id === item.profile_id),
+		);
+		if (!location || !isShown("marketplace", item.category)) continue;
+		features.push(
+			toFeature(
+				location,
+				`${EMOJI_ICON_PREFIX}${MAP_LAYERS.marketplace.icon}`,
+				"marketplace",
+			),
+		);
+	}
+
+	return {
+		type: "FeatureCollection",
+		features: [...lots.features, ...features],
+	};
+}
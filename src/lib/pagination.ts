@@ -0,0 +1,18 @@
+/**
+ * Page based pagination in the URL
+ * Page 1 is left out of the search params to keep URLs clean
+ */
+
+export type PageSearch = {
+	page?: number;
+};
+
+/**
+ * Validate the `page` search param of a paginated route
+ */
+export function validatePageSearch(
+	search: Record<string, unknown>,
+): PageSearch {
+	const page = Math.floor(Number(search.page));
+	return page > 1 ? { page } : {};
+}
@@ -60,6 +60,39 @@ export async function requireOnboarding(context: RouteContext) {
 	}
 }
 
+/**
+ * Requires user to be an admin. Redirects to / if not.
+ */
+export async function requireAdmin(context: RouteContext) {
+	const {
+		data: { user },
+	} = await context.supabase.auth.getUser();
+
+	if (!user) {
+		throw redirect({ to: "/auth" });
+	}
+
+	const profileKey = authQueryKeys.byId(user.id);
+	let profile = context.queryClient.getQueryData(profileKey) as any;
+
+	if (!profile) {
+		const { data } = await context.supabase
+			.from("profiles")
+			.select("*")
+			.eq("id", user.id)
+			.single();
+
+		if (data) {
+			profile = data;
+			context.queryClient.setQueryData(profileKey, data);
+		}
+	}
+
+	if (!profile?.is_admin) {
+		throw redirect({ to: "/" });
+	}
+}
+
 /**
  * Redirects authenticated users away from public pages (like /auth)
  */
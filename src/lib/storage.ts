@@ -0,0 +1,183 @@
+/**
+ * Supabase Storage helpers
+ * Validation, client-side image downscaling and upload of user files
+ */
+
+import { supabase } from "./supabase";
+
+/**
+ * Storage buckets used by the app
+ */
+export const STORAGE_BUCKETS = {
+	// Private buckets, files are read through signed URLs
+	DOCUMENTS: "documents",
+	MESSAGE_ATTACHMENTS: "message-attachments",
+	POST_IMAGES: "post-images",
+} as const;
+
+/**
+ * Upload limits and accepted MIME types
+ */
+export const UPLOAD_LIMITS = {
+	// Images are downscaled before upload, so the raw limit can be generous
+	MAX_IMAGE_SIZE: 15 * 1024 * 1024, // 15 MB
+	MAX_FILE_SIZE: 10 * 1024 * 1024, // 10 MB
+	MAX_IMAGE_DIMENSION: 1600, // px, longest side
+	IMAGE_QUALITY: 0.8,
+	SIGNED_URL_EXPIRY: 60 * 60, // seconds
+	IMAGE_TYPES: ["image/jpeg", "image/png", "image/webp", "image/gif"],
+	FILE_TYPES: [
+		"application/pdf",
+		"text/plain",
+		"text/csv",
+		"application/msword",
+		"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+		"application/vnd.ms-excel",
+		"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	],
+} as const;
+
+export type UploadKind = "image" | "file";
+
+/**
+ * Check type and size of a file before upload
+ * Returns the kind of upload, or throws with a user-facing message
+ */
+export function validateUpload(file: File): UploadKind {
+	if ((UPLOAD_LIMITS.IMAGE_TYPES as readonly string[]).includes(file.type)) {
+		if (file.size > UPLOAD_LIMITS.MAX_IMAGE_SIZE) {
+			throw new Error("Image is too large (max 15 MB)");
+		}
+		return "image";
+	}
+
+	if ((UPLOAD_LIMITS.FILE_TYPES as readonly string[]).includes(file.type)) {
+		if (file.size > UPLOAD_LIMITS.MAX_FILE_SIZE) {
+			throw new Error("File is too large (max 10 MB)");
+		}
+		return "file";
+	}
+
+	throw new Error("This file type is not supported");
+}
+
+/**
+ * Downscale an image so its longest side fits the max dimension
+ * GIFs are returned untouched to keep their animation
+ */
+export async function downscaleImage(
+	file: File,
+	maxDimension: number = UPLOAD_LIMITS.MAX_IMAGE_DIMENSION,
+	quality: number = UPLOAD_LIMITS.IMAGE_QUALITY,
+): Promise<Blob> {
+	if (file.type === "image/gif") return file;
+
+	const bitmap = await createImageBitmap(file);
+	const scale = Math.min(
+		1,
+		maxDimension / Math.max(bitmap.width, bitmap.height),
+	);
+
+	// Already small enough
+	if (scale === 1) {
+		bitmap.close();
+		return file;
+	}
+
+	const canvas = document.createElement("canvas");
+	canvas.width = Math.round(bitmap.width * scale);
+	canvas.height = Math.round(bitmap.height * scale);
+
+	const context = canvas.getContext("2d");
+	if (!context) {
+		bitmap.close();
+		return file;
+	}
+
+	context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+	bitmap.close();
+
+	// PNG keeps transparency, everything else is re-encoded as JPEG
+	const outputType = file.type === "image/png" ? "image/png" : "image/jpeg";
+
+	return new Promise((resolve) => {
+		canvas.toBlob((blob) => resolve(blob || file), outputType, quality);
+	});
+}
+
+/**
+ * Validate, downscale (images) and upload a file to a storage bucket
+ * Files are stored under the owner's folder (user or association) so RLS can scope access
+ * `url` only works for public buckets: store `path` for private ones
+ */
+export async function uploadFile(
+	bucket: string,
+	folder: string,
+	file: File,
+): Promise<{
+	url: string;
+	path: string;
+	kind: UploadKind;
+	type: string;
+	size: number;
+}> {
+	const kind = validateUpload(file);
+	const body = kind === "image" ? await downscaleImage(file) : file;
+	const type = body.type || file.type;
+
+	// Downscaled images may change format, so trust the output type
+	const extension =
+		kind === "image"
+			? type.split("/")[1]
+			: file.name.includes(".")
+				? file.name.split(".").pop()
+				: undefined;
+	const path = `${folder}/${Date.now()}-${crypto.randomUUID()}${extension ? `.${extension}` : ""}`;
+
+	const { error } = await supabase.storage.from(bucket).upload(path, body, {
+		contentType: type,
+		upsert: false,
+	});
+
+	if (error) throw error;
+
+	const {
+		data: { publicUrl },
+	} = supabase.storage.from(bucket).getPublicUrl(path);
+
+	return { url: publicUrl, path, kind, type, size: body.size };
+}
+
+/**
+ * Delete an uploaded file, e.g. when the row referencing it could not be saved
+ */
+export async function removeFile(bucket: string, path: string): Promise<void> {
+	const { error } = await supabase.storage.from(bucket).remove([path]);
+	if (error) throw error;
+}
+
+/**
+ * Temporary URL of a file in a private bucket
+ * Pass a filename to have the browser download it instead of opening it
+ */
+export async function getSignedFileUrl(
+	bucket: string,
+	path: string,
+	download?: string,
+): Promise<string> {
+	const { data, error } = await supabase.storage
+		.from(bucket)
+		.createSignedUrl(path, UPLOAD_LIMITS.SIGNED_URL_EXPIRY, { download });
+
+	if (error) throw error;
+	return data.signedUrl;
+}
+
+/**
+ * Human readable file size, e.g. "1.2 MB"
+ */
+export function formatFileSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,64 @@
+/**
+ * Poll results export helpers
+ * Serialize the tally of a closed poll to CSV so officers
+ * can attach it to the HOA minutes
+ */
+
+import type { Vote, VoteTally } from "../types/database";
+
+export type ExportedVote = Pick<
+	Vote,
+	"title" | "start_date" | "end_date" | "eligibility"
+>;
+
+/**
+ * Quote a CSV value when it contains separators, quotes or newlines
+ */
+export function escapeCsvValue(value: string | number): string {
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Share of the ballots of an option, rounded to one decimal
+ */
+export function getVoteShare(votes: number, total: number): number {
+	return total > 0 ? Math.round((votes / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Build the CSV results of a poll: a header block, then one row per option
+ */
+export function buildVoteResultsCsv(
+	vote: ExportedVote,
+	tallies: VoteTally[],
+): string {
+	const total = tallies.reduce((sum, tally) => sum + tally.votes, 0);
+	const rows: (string | number)[][] = [
+		["Poll", vote.title],
+		["Opened", new Date(vote.start_date).toISOString()],
+		["Closed", new Date(vote.end_date).toISOString()],
+		["Eligibility", vote.eligibility === "household" ? "Household" : "Member"],
+		["Ballots", total],
+		[],
+		["Option", "Votes", "Share (%)"],
+		...tallies.map((tally) => [
+			tally.title,
+			tally.votes,
+			getVoteShare(tally.votes, total),
+		]),
+	];
+
+	return `${rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n")}\r\n`;
+}
+
+/**
+ * File name of a results export, from the poll title
+ */
+export function getVoteResultsFilename(vote: Pick<Vote, "title">): string {
+	const slug = vote.title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+	return `${slug || "poll"}-results.csv`;
+}
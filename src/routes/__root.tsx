@@ -1,5 +1,6 @@
 import { Outlet, createRootRouteWithContext } from "@tanstack/react-router";
 import { TanStackRouterDevtools } from "@tanstack/react-router-devtools";
+import DailyCheckinPrompt from "../components/DailyCheckinPrompt";
 import Footer from "../components/Footer";
 import Header from "../components/Header";
 import Navigation from "../components/Navigation";
@@ -35,6 +36,7 @@ function AppLayout() {
 			<Navigation />
 			<Outlet />
 			<Footer />
+			<DailyCheckinPrompt />
 			{import.meta.env.DEV && (
 				<TanStackRouterDevtools position="bottom-right" />
 			)}
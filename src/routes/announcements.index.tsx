@@ -0,0 +1,137 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { AlertTriangle, CheckCheck, Settings } from "lucide-react";
+import { useState } from "react";
+import {
+	isOfficer,
+	useAnnouncementFeed,
+	useAnnouncementMutations,
+	useAuth,
+	useUserMemberships,
+} from "../hooks";
+
+export const Route = createFileRoute("/announcements/")({
+	component: AnnouncementsFeed,
+});
+
+function AnnouncementsFeed() {
+	const { user } = useAuth();
+	const { announcements, unreadCount, isLoading, errorMessage } =
+		useAnnouncementFeed(user?.id || "");
+	const { memberships } = useUserMemberships(user?.id || "");
+	const { markAsRead, isMarkingAsRead, markAsReadError } =
+		useAnnouncementMutations();
+
+	const [openId, setOpenId] = useState<string | null>(null);
+	const canManage = memberships.some((membership) =>
+		isOfficer(membership.role),
+	);
+
+	// Opening an announcement marks it as read
+	const handleToggle = (announcementId: string, isRead: boolean) => {
+		setOpenId((current) =>
+			current === announcementId ? null : announcementId,
+		);
+		if (user && !isRead) {
+			markAsRead({ announcementIds: [announcementId], userId: user.id });
+		}
+	};
+
+	const handleMarkAllAsRead = () => {
+		if (!user) return;
+		markAsRead({
+			announcementIds: announcements
+				.filter((announcement) => !announcement.is_read)
+				.map((announcement) => announcement.id),
+			userId: user.id,
+		});
+	};
+
+	return (
+		<>
+			<div className="announcements-toolbar">
+				<p className="announcements-description">
+					News from the associations you belong to.
+				</p>
+				{unreadCount > 0 && (
+					<button
+						type="button"
+						className="announcement-button secondary"
+						onClick={handleMarkAllAsRead}
+						disabled={isMarkingAsRead}
+					>
+						<CheckCheck size={16} /> Mark all as read
+					</button>
+				)}
+				{canManage && (
+					<Link to="/announcements/manage" className="announcement-button">
+						<Settings size={16} /> Manage
+					</Link>
+				)}
+			</div>
+
+			{markAsReadError && (
+				<p className="announcement-error">{markAsReadError.message}</p>
+			)}
+
+			{isLoading ? (
+				<div className="loading-container">
+					<div className="loading-spinner">⏳</div>
+					<p>Loading announcements...</p>
+				</div>
+			) : errorMessage ? (
+				<p className="no-data">{errorMessage}</p>
+			) : announcements.length > 0 ? (
+				<ul className="announcement-list">
+					{announcements.map((announcement) => {
+						const isOpen = openId === announcement.id;
+
+						return (
+							<li
+								key={announcement.id}
+								className={`announcement-card${announcement.is_read ? "" : " unread"}${announcement.is_urgent ? " urgent" : ""}`}
+							>
+								<button
+									type="button"
+									className="announcement-summary"
+									onClick={() =>
+										handleToggle(announcement.id, announcement.is_read)
+									}
+									aria-expanded={isOpen}
+								>
+									{announcement.is_urgent && (
+										<AlertTriangle
+											size={18}
+											className="announcement-urgent-icon"
+											aria-label="Urgent"
+										/>
+									)}
+									<span className="announcement-info">
+										<span className="announcement-title">
+											{announcement.title}
+										</span>
+										<span className="announcement-meta">
+											{announcement.association?.name} ·{" "}
+											{new Date(announcement.publish_at).toLocaleDateString()}
+										</span>
+									</span>
+									{!announcement.is_read && (
+										<span className="announcement-unread-dot">
+											<span className="visually-hidden">Unread</span>
+										</span>
+									)}
+								</button>
+								{isOpen && (
+									<p className="announcement-content">{announcement.content}</p>
+								)}
+							</li>
+						);
+					})}
+				</ul>
+			) : (
+				<p className="no-data">
+					No announcements yet. Join an association to follow its news.
+				</p>
+			)}
+		</>
+	);
+}
@@ -0,0 +1,415 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import {
+	Archive,
+	ArrowLeft,
+	Pencil,
+	Plus,
+	RotateCcw,
+	Send,
+} from "lucide-react";
+import { useState } from "react";
+import {
+	ANNOUNCEMENT_CONTENT_MAX_LENGTH,
+	ANNOUNCEMENT_STATE_LABELS,
+	type ManagedAnnouncement,
+	getAnnouncementState,
+	isInHeader,
+	isOfficer,
+	useAnnouncementMutations,
+	useAssociations,
+	useAuth,
+	useManagedAnnouncements,
+	useUserMemberships,
+} from "../hooks";
+
+export const Route = createFileRoute("/announcements/manage")({
+	component: ManageAnnouncements,
+});
+
+type PublishMode = "now" | "schedule" | "draft";
+
+const EMPTY_FORM = {
+	id: undefined as string | undefined,
+	associationId: "",
+	title: "",
+	content: "",
+	mode: "now" as PublishMode,
+	publishAt: "",
+	isUrgent: false,
+	showInHeader: false,
+};
+
+/**
+ * Value of a datetime-local input for an ISO date
+ */
+function toDateTimeLocal(date: string): string {
+	const local = new Date(date);
+	local.setMinutes(local.getMinutes() - local.getTimezoneOffset());
+	return local.toISOString().slice(0, 16);
+}
+
+function ManageAnnouncements() {
+	const { user } = useAuth();
+	const { associations } = useAssociations();
+	const { memberships, isLoading: isLoadingMemberships } = useUserMemberships(
+		user?.id || "",
+	);
+
+	const officerAssociations = associations.filter((association) =>
+		memberships.some(
+			(membership) =>
+				membership.association_id === association.id &&
+				isOfficer(membership.role),
+		),
+	);
+	const { announcements, isLoading, errorMessage } = useManagedAnnouncements(
+		officerAssociations.map((association) => association.id),
+	);
+	const {
+		saveAnnouncement,
+		setAnnouncementStatus,
+		isSavingAnnouncement,
+		isSettingStatus,
+		saveAnnouncementError,
+		setStatusError,
+	} = useAnnouncementMutations();
+
+	const [isEditing, setIsEditing] = useState(false);
+	const [form, setForm] = useState(EMPTY_FORM);
+
+	const canSubmit =
+		!!form.associationId &&
+		!!form.title.trim() &&
+		!!form.content.trim() &&
+		(form.mode !== "schedule" || !!form.publishAt);
+
+	const handleEdit = (announcement: ManagedAnnouncement) => {
+		const state = getAnnouncementState(announcement);
+		setForm({
+			id: announcement.id,
+			associationId: announcement.association_id,
+			title: announcement.title,
+			content: announcement.content,
+			mode:
+				state === "scheduled"
+					? "schedule"
+					: state === "draft"
+						? "draft"
+						: "now",
+			publishAt: toDateTimeLocal(announcement.publish_at),
+			isUrgent: announcement.is_urgent,
+			showInHeader: announcement.show_in_header,
+		});
+		setIsEditing(true);
+	};
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !canSubmit) return;
+
+		const original = announcements.find((item) => item.id === form.id);
+		saveAnnouncement({
+			id: form.id,
+			association_id: form.associationId,
+			title: form.title.trim(),
+			content: form.content.trim(),
+			status: form.mode === "draft" ? "draft" : "published",
+			// Editing a published announcement keeps its date
+			publish_at:
+				form.mode === "schedule"
+					? new Date(form.publishAt).toISOString()
+					: form.mode === "now" && original?.status === "published"
+						? original.publish_at
+						: new Date().toISOString(),
+			is_urgent: form.isUrgent,
+			show_in_header: form.isUrgent && form.showInHeader,
+			created_by: original?.created_by || user.id,
+		});
+		setForm(EMPTY_FORM);
+		setIsEditing(false);
+	};
+
+	if (isLoadingMemberships) {
+		return (
+			<div className="loading-container">
+				<div className="loading-spinner">⏳</div>
+				<p>Loading...</p>
+			</div>
+		);
+	}
+
+	if (officerAssociations.length === 0) {
+		return (
+			<>
+				<p className="no-data">
+					Only association officers can write announcements.
+				</p>
+				<Link to="/announcements">Back to announcements</Link>
+			</>
+		);
+	}
+
+	return (
+		<>
+			<div className="announcements-toolbar">
+				<Link
+					to="/announcements"
+					className="announcement-back"
+					aria-label="Back to announcements"
+				>
+					<ArrowLeft size={20} />
+				</Link>
+				<h3 className="announcements-section-title">Manage announcements</h3>
+			</div>
+
+			{isEditing ? (
+				<form className="announcement-form" onSubmit={handleSubmit}>
+					<h3 className="announcement-form-title">
+						{form.id ? "Edit announcement" : "New announcement"}
+					</h3>
+					<select
+						className="announcement-input"
+						value={form.associationId}
+						onChange={(e) =>
+							setForm({ ...form, associationId: e.target.value })
+						}
+						aria-label="Association"
+						disabled={!!form.id}
+						required
+					>
+						<option value="" disabled>
+							Association...
+						</option>
+						{officerAssociations.map((association) => (
+							<option key={association.id} value={association.id}>
+								{association.name}
+							</option>
+						))}
+					</select>
+					<input
+						type="text"
+						className="announcement-input"
+						value={form.title}
+						onChange={(e) => setForm({ ...form, title: e.target.value })}
+						placeholder="Title"
+						maxLength={150}
+						required
+					/>
+					<textarea
+						className="announcement-input"
+						value={form.content}
+						onChange={(e) => setForm({ ...form, content: e.target.value })}
+						placeholder="Message to the members"
+						maxLength={ANNOUNCEMENT_CONTENT_MAX_LENGTH}
+						rows={6}
+						required
+					/>
+
+					<fieldset className="announcement-modes">
+						<legend className="announcement-label">Publication</legend>
+						{(
+							[
+								["now", "Publish now"],
+								["schedule", "Schedule"],
+								["draft", "Save as draft"],
+							] as [PublishMode, string][]
+						).map(([mode, label]) => (
+							<label key={mode} className="announcement-checkbox">
+								<input
+									type="radio"
+									name="announcement-mode"
+									checked={form.mode === mode}
+									onChange={() => setForm({ ...form, mode })}
+								/>
+								{label}
+							</label>
+						))}
+					</fieldset>
+					{form.mode === "schedule" && (
+						<input
+							type="datetime-local"
+							className="announcement-input"
+							value={form.publishAt}
+							onChange={(e) => setForm({ ...form, publishAt: e.target.value })}
+							aria-label="Publication date"
+							required
+						/>
+					)}
+
+					<label className="announcement-checkbox">
+						<input
+							type="checkbox"
+							checked={form.isUrgent}
+							onChange={(e) => setForm({ ...form, isUrgent: e.target.checked })}
+						/>
+						Urgent
+					</label>
+					<label className="announcement-checkbox">
+						<input
+							type="checkbox"
+							checked={form.isUrgent && form.showInHeader}
+							onChange={(e) =>
+								setForm({ ...form, showInHeader: e.target.checked })
+							}
+							disabled={!form.isUrgent}
+						/>
+						Also show in the header banner for two days
+					</label>
+
+					<div className="announcement-form-actions">
+						<button
+							type="button"
+							className="announcement-button secondary"
+							onClick={() => {
+								setForm(EMPTY_FORM);
+								setIsEditing(false);
+							}}
+						>
+							Cancel
+						</button>
+						<button
+							type="submit"
+							className="announcement-button"
+							disabled={!canSubmit || isSavingAnnouncement}
+						>
+							{isSavingAnnouncement
+								? "Saving..."
+								: form.mode === "draft"
+									? "Save draft"
+									: form.mode === "schedule"
+										? "Schedule"
+										: "Publish"}
+						</button>
+					</div>
+				</form>
+			) : (
+				<button
+					type="button"
+					className="announcement-button announcement-new"
+					onClick={() => {
+						setForm({
+							...EMPTY_FORM,
+							associationId:
+								officerAssociations.length === 1
+									? officerAssociations[0].id
+									: "",
+						});
+						setIsEditing(true);
+					}}
+				>
+					<Plus size={16} /> New announcement
+				</button>
+			)}
+
+			{(saveAnnouncementError || setStatusError) && (
+				<p className="announcement-error">
+					{(saveAnnouncementError || setStatusError)?.message}
+				</p>
+			)}
+
+			{isLoading ? (
+				<div className="loading-container">
+					<div className="loading-spinner">⏳</div>
+					<p>Loading announcements...</p>
+				</div>
+			) : errorMessage ? (
+				<p className="no-data">{errorMessage}</p>
+			) : announcements.length > 0 ? (
+				<ul className="announcement-list">
+					{announcements.map((announcement) => {
+						const state = getAnnouncementState(announcement);
+
+						return (
+							<li key={announcement.id} className="announcement-card">
+								<div className="announcement-summary">
+									<span className="announcement-info">
+										<span className="announcement-title">
+											{announcement.title}
+										</span>
+										<span className="announcement-meta">
+											{announcement.association?.name} ·{" "}
+											{state === "scheduled"
+												? `Publishes ${new Date(announcement.publish_at).toLocaleString()}`
+												: new Date(
+														announcement.publish_at,
+													).toLocaleDateString()}
+											{isInHeader(announcement) && " · In header banner"}
+										</span>
+									</span>
+									<span className={`announcement-state ${state}`}>
+										{ANNOUNCEMENT_STATE_LABELS[state]}
+									</span>
+								</div>
+								<div className="announcement-actions">
+									{state !== "archived" && (
+										<button
+											type="button"
+											className="announcement-icon-button"
+											onClick={() => handleEdit(announcement)}
+											aria-label="Edit"
+											title="Edit"
+										>
+											<Pencil size={16} />
+										</button>
+									)}
+									{state === "draft" && (
+										<button
+											type="button"
+											className="announcement-icon-button"
+											onClick={() =>
+												setAnnouncementStatus({
+													id: announcement.id,
+													status: "published",
+												})
+											}
+											disabled={isSettingStatus}
+											aria-label="Publish now"
+											title="Publish now"
+										>
+											<Send size={16} />
+										</button>
+									)}
+									{state === "archived" ? (
+										<button
+											type="button"
+											className="announcement-icon-button"
+											onClick={() =>
+												setAnnouncementStatus({
+													id: announcement.id,
+													status: "draft",
+												})
+											}
+											disabled={isSettingStatus}
+											aria-label="Restore as draft"
+											title="Restore as draft"
+										>
+											<RotateCcw size={16} />
+										</button>
+									) : (
+										<button
+											type="button"
+											className="announcement-icon-button"
+											onClick={() =>
+												setAnnouncementStatus({
+													id: announcement.id,
+													status: "archived",
+												})
+											}
+											disabled={isSettingStatus}
+											aria-label="Archive"
+											title="Archive"
+										>
+											<Archive size={16} />
+										</button>
+									)}
+								</div>
+							</li>
+						);
+					})}
+				</ul>
+			) : (
+				<p className="no-data">No announcements written yet.</p>
+			)}
+		</>
+	);
+}
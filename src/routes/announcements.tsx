@@ -0,0 +1,16 @@
+import { Outlet, createFileRoute } from "@tanstack/react-router";
+import { requireAuth, requireOnboarding } from "../lib/routeGuards";
+import "./announcements.css";
+
+export const Route = createFileRoute("/announcements")({
+	beforeLoad: async ({ context }) => {
+		await requireAuth(context);
+		await requireOnboarding(context);
+	},
+	component: () => (
+		<main className="main-content">
+			<h2 className="page-title">📣 Announcements</h2>
+			<Outlet />
+		</main>
+	),
+});
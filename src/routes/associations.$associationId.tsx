@@ -0,0 +1,226 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { ArrowLeft, Globe, Mail, MapPin, Phone } from "lucide-react";
+import Avatar from "../components/Avatar";
+import {
+	ASSOCIATION_ROLES,
+	getAssignableRoles,
+	isOfficer,
+	useAssociation,
+	useAssociationMembers,
+	useAssociationMembershipMutations,
+	useAuth,
+} from "../hooks";
+import type { AssociationRole } from "../types/database";
+
+export const Route = createFileRoute("/associations/$associationId")({
+	component: AssociationDetail,
+});
+
+function AssociationDetail() {
+	const { associationId } = Route.useParams();
+	const { user } = useAuth();
+	const {
+		data: association,
+		isLoading,
+		errorMessage,
+	} = useAssociation(associationId);
+	const { members, isLoading: isLoadingMembers } =
+		useAssociationMembers(associationId);
+	const {
+		join,
+		leave,
+		setRole,
+		isJoining,
+		isLeaving,
+		isSettingRole,
+		joinError,
+		leaveError,
+		setRoleErrorMessage,
+	} = useAssociationMembershipMutations();
+
+	const myRole = members.find((member) => member.user_id === user?.id)?.role;
+	const membershipError = joinError || leaveError;
+
+	const handleLeave = () => {
+		if (!user) return;
+		if (!window.confirm("Leave this association?")) return;
+		leave({ associationId, userId: user.id });
+	};
+
+	if (isLoading) {
+		return (
+			<div className="loading-container">
+				<div className="loading-spinner">⏳</div>
+				<p>Loading association...</p>
+			</div>
+		);
+	}
+
+	if (!association) {
+		return (
+			<>
+				<p className="no-data">
+					{errorMessage || "This association does not exist."}
+				</p>
+				<Link to="/associations">Back to associations</Link>
+			</>
+		);
+	}
+
+	return (
+		<>
+			<div className="association-header">
+				<Link
+					to="/associations"
+					className="association-back"
+					aria-label="Back to associations"
+				>
+					<ArrowLeft size={20} />
+				</Link>
+				<div className="association-header-info">
+					<h3 className="association-title">{association.name}</h3>
+					<span className="association-category">{association.category}</span>
+				</div>
+				{user &&
+					(myRole ? (
+						<button
+							type="button"
+							className="association-button secondary"
+							onClick={handleLeave}
+							disabled={isLeaving}
+						>
+							{isLeaving ? "Leaving..." : "Leave"}
+						</button>
+					) : (
+						<button
+							type="button"
+							className="association-button"
+							onClick={() => join({ associationId, userId: user.id })}
+							disabled={isJoining || isLoadingMembers}
+						>
+							{isJoining ? "Joining..." : "Join"}
+						</button>
+					))}
+			</div>
+
+			{membershipError && (
+				<p className="association-error">{membershipError.message}</p>
+			)}
+
+			<section className="association-about">
+				{association.image_url && (
+					<img
+						className="association-banner"
+						src={association.image_url}
+						alt=""
+					/>
+				)}
+				{association.description && (
+					<p className="association-text">{association.description}</p>
+				)}
+				<ul className="association-contacts">
+					{association.address && (
+						<li>
+							<MapPin size={16} /> {association.address}
+						</li>
+					)}
+					{association.email && (
+						<li>
+							<Mail size={16} />
+							<a href={`mailto:${association.email}`}>{association.email}</a>
+						</li>
+					)}
+					{association.phone && (
+						<li>
+							<Phone size={16} />
+							<a href={`tel:${association.phone}`}>{association.phone}</a>
+						</li>
+					)}
+					{association.website && (
+						<li>
+							<Globe size={16} />
+							<a href={association.website} target="_blank" rel="noreferrer">
+								{association.website}
+							</a>
+						</li>
+					)}
+				</ul>
+			</section>
+
+			<section className="association-members">
+				<h4 className="association-section-title">
+					Members ({members.length})
+				</h4>
+
+				{setRoleErrorMessage && (
+					<p className="association-error">{setRoleErrorMessage}</p>
+				)}
+
+				{isLoadingMembers ? (
+					<div className="loading-container">
+						<div className="loading-spinner">⏳</div>
+						<p>Loading members...</p>
+					</div>
+				) : members.length > 0 ? (
+					<ul className="member-list">
+						{members.map((member) => {
+							const assignableRoles =
+								member.user_id === user?.id
+									? []
+									: getAssignableRoles(myRole, member.role);
+
+							return (
+								<li key={member.id} className="member-item">
+									<Avatar
+										size="sm"
+										avatar_url={member.profile?.avatar_url}
+										username={member.profile?.username}
+									/>
+									<div className="member-info">
+										<span className="member-name">
+											{member.profile?.username ||
+												member.profile?.full_name ||
+												"Resident"}
+											{member.user_id === user?.id && " (you)"}
+										</span>
+										<span className="member-since">
+											Member since{" "}
+											{new Date(member.joined_at).toLocaleDateString()}
+										</span>
+									</div>
+									{isOfficer(myRole) && assignableRoles.length > 0 ? (
+										<select
+											className="association-input member-role-select"
+											value={member.role}
+											onChange={(e) =>
+												setRole({
+													associationId,
+													userId: member.user_id,
+													role: e.target.value as AssociationRole,
+												})
+											}
+											disabled={isSettingRole}
+											aria-label={`Role of ${member.profile?.username || "member"}`}
+										>
+											{assignableRoles.map((role) => (
+												<option key={role} value={role}>
+													{ASSOCIATION_ROLES[role]}
+												</option>
+											))}
+										</select>
+									) : (
+										<span className={`association-role ${member.role}`}>
+											{ASSOCIATION_ROLES[member.role]}
+										</span>
+									)}
+								</li>
+							);
+						})}
+					</ul>
+				) : (
+					<p className="no-data">No members yet.</p>
+				)}
+			</section>
+		</>
+	);
+}
@@ -0,0 +1,258 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { Plus, Search, Users } from "lucide-react";
+import { useMemo, useState } from "react";
+import {
+	ASSOCIATION_CATEGORIES,
+	ASSOCIATION_ROLES,
+	useAssociations,
+	useAuth,
+	useUserMemberships,
+} from "../hooks";
+
+export const Route = createFileRoute("/associations/")({
+	component: AssociationsDirectory,
+});
+
+function AssociationsDirectory() {
+	const { user } = useAuth();
+	const {
+		associations,
+		isLoading,
+		errorMessage,
+		createAssociation,
+		isCreatingAssociation,
+		createAssociationError,
+	} = useAssociations();
+	const { getRole } = useUserMemberships(user?.id || "");
+
+	const [search, setSearch] = useState("");
+	const [category, setCategory] = useState<string>("all");
+	const [isCreating, setIsCreating] = useState(false);
+	const [form, setForm] = useState({
+		name: "",
+		category: "community",
+		description: "",
+		email: "",
+		phone: "",
+		website: "",
+	});
+
+	const filteredAssociations = useMemo(() => {
+		const query = search.trim().toLowerCase();
+		return associations.filter(
+			(association) =>
+				(category === "all" || association.category === category) &&
+				(!query ||
+					association.name.toLowerCase().includes(query) ||
+					association.description?.toLowerCase().includes(query)),
+		);
+	}, [associations, search, category]);
+
+	const updateForm = (field: keyof typeof form, value: string) =>
+		setForm((current) => ({ ...current, [field]: value }));
+
+	const handleCreate = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !form.name.trim()) return;
+
+		createAssociation({
+			name: form.name.trim(),
+			category: form.category,
+			description: form.description.trim() || undefined,
+			email: form.email.trim() || undefined,
+			phone: form.phone.trim() || undefined,
+			website: form.website.trim() || undefined,
+			created_by: user.id,
+		});
+		setForm({
+			name: "",
+			category: "community",
+			description: "",
+			email: "",
+			phone: "",
+			website: "",
+		});
+		setIsCreating(false);
+	};
+
+	return (
+		<>
+			<p className="associations-description">
+				Find the clubs and groups of the village and join the ones you care
+				about.
+			</p>
+
+			{user?.is_admin &&
+				(isCreating ? (
+					<form className="association-form" onSubmit={handleCreate}>
+						<h3 className="association-form-title">New association</h3>
+						<input
+							type="text"
+							className="association-input"
+							value={form.name}
+							onChange={(e) => updateForm("name", e.target.value)}
+							placeholder="Name"
+							maxLength={100}
+							required
+						/>
+						<select
+							className="association-input"
+							value={form.category}
+							onChange={(e) => updateForm("category", e.target.value)}
+							aria-label="Category"
+						>
+							{ASSOCIATION_CATEGORIES.map((value) => (
+								<option key={value} value={value}>
+									{value}
+								</option>
+							))}
+						</select>
+						<textarea
+							className="association-input"
+							value={form.description}
+							onChange={(e) => updateForm("description", e.target.value)}
+							placeholder="What does this association do?"
+							rows={3}
+						/>
+						<input
+							type="email"
+							className="association-input"
+							value={form.email}
+							onChange={(e) => updateForm("email", e.target.value)}
+							placeholder="Contact email"
+						/>
+						<input
+							type="tel"
+							className="association-input"
+							value={form.phone}
+							onChange={(e) => updateForm("phone", e.target.value)}
+							placeholder="Phone"
+						/>
+						<input
+							type="url"
+							className="association-input"
+							value={form.website}
+							onChange={(e) => updateForm("website", e.target.value)}
+							placeholder="Website"
+						/>
+						<p className="association-hint">
+							You will be listed as its president.
+						</p>
+						<div className="association-form-actions">
+							<button
+								type="button"
+								className="association-button secondary"
+								onClick={() => setIsCreating(false)}
+							>
+								Cancel
+							</button>
+							<button
+								type="submit"
+								className="association-button"
+								disabled={!form.name.trim() || isCreatingAssociation}
+							>
+								{isCreatingAssociation ? "Creating..." : "Create association"}
+							</button>
+						</div>
+					</form>
+				) : (
+					<button
+						type="button"
+						className="association-button association-new"
+						onClick={() => setIsCreating(true)}
+					>
+						<Plus size={16} /> New association
+					</button>
+				))}
+			{createAssociationError && (
+				<p className="association-error">{createAssociationError.message}</p>
+			)}
+
+			<div className="association-filters">
+				<label className="association-search">
+					<Search size={16} />
+					<input
+						type="search"
+						value={search}
+						onChange={(e) => setSearch(e.target.value)}
+						placeholder="Search associations"
+						aria-label="Search associations"
+					/>
+				</label>
+				<select
+					className="association-input"
+					value={category}
+					onChange={(e) => setCategory(e.target.value)}
+					aria-label="Filter by category"
+				>
+					<option value="all">All categories</option>
+					{ASSOCIATION_CATEGORIES.map((value) => (
+						<option key={value} value={value}>
+							{value}
+						</option>
+					))}
+				</select>
+			</div>
+
+			{isLoading ? (
+				<div className="loading-container">
+					<div className="loading-spinner">⏳</div>
+					<p>Loading associations...</p>
+				</div>
+			) : errorMessage ? (
+				<p className="no-data">{errorMessage}</p>
+			) : filteredAssociations.length > 0 ? (
+				<div className="association-grid">
+					{filteredAssociations.map((association) => {
+						const role = getRole(association.id);
+
+						return (
+							<Link
+								key={association.id}
+								to="/associations/$associationId"
+								params={{ associationId: association.id }}
+								className="association-card"
+							>
+								{association.image_url ? (
+									<img
+										className="association-card-image"
+										src={association.image_url}
+										alt=""
+										loading="lazy"
+									/>
+								) : (
+									<span className="association-card-image placeholder">
+										<Users size={28} />
+									</span>
+								)}
+								<div className="association-card-info">
+									<span className="association-card-name">
+										{association.name}
+									</span>
+									<span className="association-category">
+										{association.category}
+									</span>
+									<span className="association-card-meta">
+										{association.member_count} member
+										{association.member_count === 1 ? "" : "s"}
+									</span>
+								</div>
+								{role && (
+									<span className={`association-role ${role}`}>
+										{ASSOCIATION_ROLES[role]}
+									</span>
+								)}
+							</Link>
+						);
+					})}
+				</div>
+			) : (
+				<p className="no-data">
+					{associations.length > 0
+						? "No association matches your search."
+						: "No associations yet."}
+				</p>
+			)}
+		</>
+	);
+}
@@ -0,0 +1,16 @@
+import { Outlet, createFileRoute } from "@tanstack/react-router";
+import { requireAuth, requireOnboarding } from "../lib/routeGuards";
+import "./associations.css";
+
+export const Route = createFileRoute("/associations")({
+	beforeLoad: async ({ context }) => {
+		await requireAuth(context);
+		await requireOnboarding(context);
+	},
+	component: () => (
+		<main className="main-content">
+			<h2 className="page-title">🤝 Associations</h2>
+			<Outlet />
+		</main>
+	),
+});
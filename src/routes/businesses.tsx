@@ -1,5 +1,14 @@
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
-import { useBusinesses } from "../hooks";
+import { Rocket } from "lucide-react";
+import { useState } from "react";
+import BoostPanel from "../components/BoostPanel";
+import {
+	type BoostTarget,
+	isFeaturedActive,
+	sortFeaturedFirst,
+	useAuth,
+	useBusinesses,
+} from "../hooks";
 import { businessesQueries } from "../hooks/entities/useBusinesses";
 import { queryKeys } from "../hooks/utils/queryKeys";
 import { requireAuth, requireOnboarding } from "../lib/routeGuards";
@@ -61,9 +70,52 @@ export const Route = createFileRoute("/businesses")({
 	},
 });
 
+/**
+ * Featured badge and, for the owner, the boost action of a business card
+ */
+function BusinessBoost({
+	business,
+	target,
+}: {
+	business: any;
+	target: BoostTarget;
+}) {
+	const { user } = useAuth();
+	const [isBoosting, setIsBoosting] = useState(false);
+
+	return (
+		<>
+			{isFeaturedActive(business) && (
+				<span className="featured-badge">⭐ Featured</span>
+			)}
+			{business.profile_id === user?.id &&
+				(isBoosting ? (
+					<BoostPanel
+						target={target}
+						targetId={business.id}
+						isFeatured={business.is_featured}
+						featuredUntil={business.featured_until}
+						onClose={() => setIsBoosting(false)}
+					/>
+				) : (
+					<button
+						type="button"
+						className="boost-button"
+						onClick={() => setIsBoosting(true)}
+					>
+						<Rocket size={14} /> Boost
+					</button>
+				))}
+		</>
+	);
+}
+
 function Businesses() {
 	// Use optimized hook for businesses data
-	const { insideBusinesses, outsideBusinesses } = useBusinesses().all;
+	const all = useBusinesses().all;
+	// Boosted businesses are pinned until their featured period ends
+	const insideBusinesses = sortFeaturedFirst(all.insideBusinesses);
+	const outsideBusinesses = sortFeaturedFirst(all.outsideBusinesses);
 
 	return (
 		<main className="main-content">
@@ -75,7 +127,11 @@ function Businesses() {
 					<h3 className="section-title">Businesses Inside GGV</h3>
 					<div className="businesses-grid">
 						{insideBusinesses.map((business: any) => (
-							<div key={business.id} className="business-card">
+							<div
+								key={business.id}
+								id={`business-${business.id}`}
+								className={`business-card ${isFeaturedActive(business) ? "featured" : ""}`}
+							>
 								<h4 className="business-name">{business.business_name}</h4>
 								{business.description && (
 									<p className="business-description">{business.description}</p>
@@ -89,6 +145,10 @@ function Businesses() {
 								{business.hours && (
 									<p className="business-hours">⏰ {business.hours}</p>
 								)}
+								<BusinessBoost
+									business={business}
+									target="user_business_inside"
+								/>
 							</div>
 						))}
 					</div>
@@ -101,7 +161,10 @@ function Businesses() {
 					<h3 className="section-title">Businesses Outside Community</h3>
 					<div className="businesses-grid">
 						{outsideBusinesses.map((business: any) => (
-							<div key={business.id} className="business-card">
+							<div
+								key={business.id}
+								className={`business-card ${isFeaturedActive(business) ? "featured" : ""}`}
+							>
 								<h4 className="business-name">{business.business_name}</h4>
 								{business.description && (
 									<p className="business-description">{business.description}</p>
@@ -115,6 +178,10 @@ function Businesses() {
 								{business.address && (
 									<p className="business-address">📍 {business.address}</p>
 								)}
+								<BusinessBoost
+									business={business}
+									target="user_business_outside"
+								/>
 							</div>
 						))}
 					</div>
@@ -0,0 +1,462 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import {
+	ArrowDown,
+	ArrowLeft,
+	Hash,
+	Lock,
+	Pencil,
+	Reply,
+	Send,
+	Trash2,
+	X,
+} from "lucide-react";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import Avatar from "../components/Avatar";
+import {
+	type ChannelMessage,
+	type ChatChannel,
+	getChannelLastRead,
+	isBlockChannelId,
+	isMessageEditable,
+	setChannelLastRead,
+	useAuth,
+	useMessagingChannelMessages,
+	useMessagingChatChannels,
+	useMessagingChatMutations,
+} from "../hooks";
+import "./chat.css";
+
+export const Route = createFileRoute("/chat/$channelId")({
+	component: ChannelRoute,
+});
+
+function ChannelRoute() {
+	const { channelId } = Route.useParams();
+	const { user } = useAuth();
+	const { data: channels, isLoading } = useMessagingChatChannels(
+		user?.id || "",
+	);
+	const channel = channels.find((c) => c.id === channelId);
+
+	if (!channel) {
+		return isLoading ? (
+			<div className="loading-container">
+				<div className="loading-spinner">⏳</div>
+				<p>Loading channel...</p>
+			</div>
+		) : (
+			<div className="channel-unavailable">
+				<Lock size={32} />
+				<p className="no-data">
+					{isBlockChannelId(channelId)
+						? "This channel is reserved for the verified residents of the block."
+						: "This channel does not exist."}
+				</p>
+				<Link to="/chat">Back to channels</Link>
+			</div>
+		);
+	}
+
+	// Remount per channel so scroll position and unread marker start fresh
+	return <Channel key={channelId} channel={channel} />;
+}
+
+/**
+ * Distance from the bottom (px) under which the list counts as scrolled down
+ */
+const BOTTOM_THRESHOLD = 80;
+
+function Channel({ channel }: { channel: ChatChannel }) {
+	const { user } = useAuth();
+	const userId = user?.id;
+	const channelId = channel.id;
+	const {
+		messages,
+		isLoading,
+		errorMessage,
+		hasOlder,
+		isFetchingOlder,
+		fetchOlder,
+	} = useMessagingChannelMessages(channelId);
+	const {
+		sendToChannel,
+		editChat,
+		deleteChannelMessage,
+		isSendingToChannel,
+		sendToChannelError,
+		editError,
+		deleteMessageError,
+	} = useMessagingChatMutations();
+
+	const [draft, setDraft] = useState("");
+	const [replyTo, setReplyTo] = useState<ChannelMessage | null>(null);
+	const [editing, setEditing] = useState<ChannelMessage | null>(null);
+	const [isJumping, setIsJumping] = useState(false);
+	const [isMarkerVisible, setIsMarkerVisible] = useState(false);
+	// Last read position when the channel was opened, kept for the session
+	const [lastRead] = useState(() =>
+		userId ? getChannelLastRead(userId, channelId) : null,
+	);
+
+	const listRef = useRef<HTMLDivElement>(null);
+	const topSentinelRef = useRef<HTMLDivElement>(null);
+	const unreadMarkerRef = useRef<HTMLDivElement>(null);
+	const isNearBottomRef = useRef(true);
+	const hasScrolledRef = useRef(false);
+	const previousScrollHeightRef = useRef<number | null>(null);
+
+	const oldestMessage = messages[0];
+	const newestMessage = messages[messages.length - 1];
+
+	// First message from someone else posted after the last visit
+	const firstUnread = lastRead
+		? messages.find(
+				(message) =>
+					message.created_at > lastRead && message.user_id !== userId,
+			)
+		: undefined;
+	// Unread messages may start before the oldest loaded page
+	const unreadBeyondLoaded =
+		!!lastRead &&
+		hasOlder &&
+		!!oldestMessage &&
+		oldestMessage.created_at > lastRead;
+	const unreadCount = lastRead
+		? messages.filter(
+				(message) =>
+					message.created_at > lastRead && message.user_id !== userId,
+			).length
+		: 0;
+
+	const messagesById = new Map(
+		messages.map((message) => [message.id, message]),
+	);
+
+	const handleScroll = () => {
+		const list = listRef.current;
+		if (!list) return;
+
+		isNearBottomRef.current =
+			list.scrollHeight - list.scrollTop - list.clientHeight < BOTTOM_THRESHOLD;
+
+		if (userId && newestMessage && isNearBottomRef.current) {
+			setChannelLastRead(userId, channelId, newestMessage.created_at);
+		}
+	};
+
+	// Start at the bottom, then follow new messages when already scrolled down
+	useEffect(() => {
+		const list = listRef.current;
+		if (!list || !newestMessage) return;
+
+		if (!hasScrolledRef.current) {
+			hasScrolledRef.current = true;
+			list.scrollTop = list.scrollHeight;
+		} else if (isNearBottomRef.current || newestMessage.user_id === userId) {
+			list.scrollTo({ top: list.scrollHeight, behavior: "smooth" });
+			isNearBottomRef.current = true;
+		}
+
+		if (userId && isNearBottomRef.current) {
+			setChannelLastRead(userId, channelId, newestMessage.created_at);
+		}
+	}, [newestMessage, userId, channelId]);
+
+	// Keep the reading position when older messages are prepended
+	useLayoutEffect(() => {
+		const list = listRef.current;
+		if (!list || !oldestMessage || previousScrollHeightRef.current === null) {
+			return;
+		}
+
+		list.scrollTop += list.scrollHeight - previousScrollHeightRef.current;
+		previousScrollHeightRef.current = null;
+	}, [oldestMessage]);
+
+	// Load older messages when the top of the list comes into view
+	useEffect(() => {
+		const list = listRef.current;
+		const sentinel = topSentinelRef.current;
+		if (!list || !sentinel || !hasOlder) return;
+
+		const observer = new IntersectionObserver(
+			([entry]) => {
+				if (
+					entry.isIntersecting &&
+					!isFetchingOlder &&
+					hasScrolledRef.current
+				) {
+					previousScrollHeightRef.current = list.scrollHeight;
+					fetchOlder();
+				}
+			},
+			{ root: list, rootMargin: "200px 0px 0px 0px" },
+		);
+
+		observer.observe(sentinel);
+		return () => observer.disconnect();
+	}, [hasOlder, isFetchingOlder, fetchOlder]);
+
+	// Hide the jump button once the unread marker has been seen
+	useEffect(() => {
+		const list = listRef.current;
+		const marker = unreadMarkerRef.current;
+		if (!list || !marker || !firstUnread) return;
+
+		const observer = new IntersectionObserver(
+			([entry]) => {
+				if (entry.isIntersecting) setIsMarkerVisible(true);
+			},
+			{ root: list },
+		);
+
+		observer.observe(marker);
+		return () => observer.disconnect();
+	}, [firstUnread]);
+
+	// Jump to unread: page back until the first unread message is loaded
+	useEffect(() => {
+		if (!isJumping) return;
+
+		if (unreadBeyondLoaded) {
+			if (!isFetchingOlder) {
+				previousScrollHeightRef.current = listRef.current?.scrollHeight ?? null;
+				fetchOlder();
+			}
+			return;
+		}
+
+		unreadMarkerRef.current?.scrollIntoView({ block: "center" });
+		setIsJumping(false);
+	}, [isJumping, unreadBeyondLoaded, isFetchingOlder, fetchOlder]);
+
+	const getAuthorName = (message: ChannelMessage) =>
+		message.user_id === userId ? "You" : message.author?.username || "User";
+
+	const handleReply = (message: ChannelMessage) => {
+		setEditing(null);
+		setReplyTo(message);
+	};
+
+	const handleEdit = (message: ChannelMessage) => {
+		setReplyTo(null);
+		setEditing(message);
+		setDraft(message.content);
+	};
+
+	const cancelComposerContext = () => {
+		if (editing) setDraft("");
+		setReplyTo(null);
+		setEditing(null);
+	};
+
+	const handleSend = (e: React.FormEvent) => {
+		e.preventDefault();
+		const content = draft.trim();
+		if (!content || !user) return;
+
+		if (editing) {
+			if (content !== editing.content) {
+				editChat(editing, content);
+			}
+		} else {
+			sendToChannel({
+				channel_id: channelId,
+				user_id: user.id,
+				content,
+				reply_to: replyTo?.id,
+			});
+		}
+
+		setDraft("");
+		setReplyTo(null);
+		setEditing(null);
+	};
+
+	const showJumpButton =
+		(!!firstUnread || unreadBeyondLoaded) && !isMarkerVisible;
+
+	return (
+		<div className="channel-thread">
+			<div className="channel-header">
+				<Link to="/chat" className="channel-back" aria-label="Back">
+					<ArrowLeft size={20} />
+				</Link>
+				<Hash size={20} className="channel-icon" />
+				<div className="channel-info">
+					<span className="channel-name">{channel.name}</span>
+					<span className="channel-description">{channel.description}</span>
+				</div>
+			</div>
+
+			{showJumpButton && (
+				<button
+					type="button"
+					className="channel-jump-unread"
+					onClick={() => setIsJumping(true)}
+					disabled={isJumping}
+				>
+					<ArrowDown size={16} />
+					{unreadBeyondLoaded ? `${unreadCount}+` : unreadCount} new message
+					{unreadCount === 1 && !unreadBeyondLoaded ? "" : "s"} · Jump to first
+					unread
+				</button>
+			)}
+
+			<div className="channel-messages" ref={listRef} onScroll={handleScroll}>
+				<div ref={topSentinelRef} />
+				{isFetchingOlder && (
+					<p className="channel-history-status">Loading older messages...</p>
+				)}
+				{!hasOlder && messages.length > 0 && (
+					<p className="channel-history-status">
+						This is the beginning of #{channel.name}
+					</p>
+				)}
+
+				{isLoading ? (
+					<div className="loading-container">
+						<div className="loading-spinner">⏳</div>
+						<p>Loading messages...</p>
+					</div>
+				) : errorMessage ? (
+					<p className="no-data">{errorMessage}</p>
+				) : messages.length > 0 ? (
+					messages.map((message) => {
+						const isMine = message.user_id === userId;
+						const parent = message.reply_to
+							? messagesById.get(message.reply_to)
+							: undefined;
+
+						return (
+							<div key={message.id}>
+								{message.id === firstUnread?.id && (
+									<div className="channel-unread-marker" ref={unreadMarkerRef}>
+										<span>New messages</span>
+									</div>
+								)}
+								<div className={`channel-message ${isMine ? "mine" : ""}`}>
+									<Avatar
+										size="sm"
+										avatar_url={message.author?.avatar_url}
+										username={message.author?.username}
+									/>
+									<div className="channel-message-body">
+										<div className="channel-message-meta">
+											<span className="channel-message-author">
+												{getAuthorName(message)}
+											</span>
+											<span className="channel-message-time">
+												{new Date(message.created_at).toLocaleString([], {
+													month: "short",
+													day: "numeric",
+													hour: "2-digit",
+													minute: "2-digit",
+												})}
+												{message.is_edited &&
+													!message.deleted_at &&
+													" · edited"}
+											</span>
+										</div>
+										{message.deleted_at ? (
+											<p className="channel-message-text channel-message-deleted">
+												Message deleted
+											</p>
+										) : (
+											<>
+												{message.reply_to && (
+													<div className="channel-message-quote">
+														{parent
+															? `${getAuthorName(parent)}: ${parent.deleted_at ? "Message deleted" : parent.content}`
+															: "Earlier message"}
+													</div>
+												)}
+												<p className="channel-message-text">
+													{message.content}
+												</p>
+											</>
+										)}
+										{!message.deleted_at && (
+											<div className="channel-message-actions">
+												<button
+													type="button"
+													onClick={() => handleReply(message)}
+													aria-label="Reply"
+												>
+													<Reply size={14} />
+												</button>
+												{isMine && isMessageEditable(message) && (
+													<button
+														type="button"
+														onClick={() => handleEdit(message)}
+														aria-label="Edit"
+													>
+														<Pencil size={14} />
+													</button>
+												)}
+												{isMine && (
+													<button
+														type="button"
+														onClick={() => deleteChannelMessage(message)}
+														aria-label="Delete"
+													>
+														<Trash2 size={14} />
+													</button>
+												)}
+											</div>
+										)}
+									</div>
+								</div>
+							</div>
+						);
+					})
+				) : (
+					<p className="no-data">No messages yet. Say hello!</p>
+				)}
+			</div>
+
+			{(sendToChannelError || editError || deleteMessageError) && (
+				<p className="channel-error">
+					{sendToChannelError?.message ||
+						editError?.message ||
+						deleteMessageError?.message}
+				</p>
+			)}
+
+			{(replyTo || editing) && (
+				<div className="channel-composer-context">
+					<span className="channel-message-quote">
+						{editing
+							? "Editing message"
+							: replyTo && `Replying to ${getAuthorName(replyTo)}`}
+					</span>
+					<button
+						type="button"
+						onClick={cancelComposerContext}
+						aria-label="Cancel"
+					>
+						<X size={16} />
+					</button>
+				</div>
+			)}
+
+			<form className="channel-composer" onSubmit={handleSend}>
+				<input
+					type="text"
+					className="channel-input"
+					value={draft}
+					onChange={(e) => setDraft(e.target.value)}
+					placeholder={`Message #${channel.name}`}
+				/>
+				<button
+					type="submit"
+					className="channel-send"
+					disabled={!draft.trim() || isSendingToChannel}
+					aria-label="Send"
+				>
+					<Send size={18} />
+				</button>
+			</form>
+		</div>
+	);
+}
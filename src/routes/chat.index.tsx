@@ -0,0 +1,9 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+export const Route = createFileRoute("/chat/")({
+	component: () => (
+		<p className="chat-description">
+			Pick a channel to chat with your neighbours.
+		</p>
+	),
+});
@@ -0,0 +1,70 @@
+import {
+	Link,
+	Outlet,
+	createFileRoute,
+	useParams,
+} from "@tanstack/react-router";
+import { Hash } from "lucide-react";
+import { useAuth, useMessagingChatChannels } from "../hooks";
+import { requireAuth, requireOnboarding } from "../lib/routeGuards";
+import "./chat.css";
+
+export const Route = createFileRoute("/chat")({
+	beforeLoad: async ({ context }) => {
+		await requireAuth(context);
+		await requireOnboarding(context);
+	},
+	component: Chat,
+});
+
+function Chat() {
+	const { user } = useAuth();
+	const { channelId: activeChannelId } = useParams({ strict: false });
+	const {
+		data: channels,
+		isLoading,
+		errorMessage,
+	} = useMessagingChatChannels(user?.id || "");
+
+	return (
+		<main className="main-content">
+			<h2 className="page-title">🗨️ Community Chat</h2>
+
+			<div
+				className={`chat-layout ${activeChannelId ? "has-active-channel" : ""}`}
+			>
+				<aside className="channel-list">
+					{isLoading ? (
+						<div className="loading-container">
+							<div className="loading-spinner">⏳</div>
+							<p>Loading channels...</p>
+						</div>
+					) : errorMessage ? (
+						<p className="no-data">{errorMessage}</p>
+					) : (
+						channels.map((channel) => (
+							<Link
+								key={channel.id}
+								to="/chat/$channelId"
+								params={{ channelId: channel.id }}
+								className={`channel-item ${channel.id === activeChannelId ? "active" : ""}`}
+							>
+								<Hash size={18} className="channel-icon" />
+								<div className="channel-info">
+									<span className="channel-name">{channel.name}</span>
+									<span className="channel-description">
+										{channel.description}
+									</span>
+								</div>
+							</Link>
+						))
+					)}
+				</aside>
+
+				<section className="channel-panel">
+					<Outlet />
+				</section>
+			</div>
+		</main>
+	);
+}
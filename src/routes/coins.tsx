@@ -1,5 +1,17 @@
 import { createFileRoute } from "@tanstack/react-router";
+import { ArrowDownLeft, ArrowUpRight, Coins as CoinsIcon } from "lucide-react";
+import { useState } from "react";
+import CoinTransferForm from "../components/CoinTransferForm";
+import HeaderAnnouncementComposer from "../components/HeaderAnnouncementComposer";
+import HeaderAnnouncementHistory from "../components/HeaderAnnouncementHistory";
+import {
+	COIN_TRANSACTION_LABELS,
+	summarizeTransactions,
+	useAuth,
+	useCoins,
+} from "../hooks";
 import { requireAuth, requireOnboarding } from "../lib/routeGuards";
+import type { CoinTransactionType } from "../types/database";
 import "./coins.css";
 
 export const Route = createFileRoute("/coins")({
@@ -10,11 +22,145 @@ export const Route = createFileRoute("/coins")({
 	component: () => <Coins />,
 });
 
+type DirectionFilter = "all" | "credits" | "debits";
+
 function Coins() {
+	const { user } = useAuth();
+	const balance = user?.coins ?? 0;
+	const { ledger, isLoading, errorMessage } = useCoins(user?.id || "", balance);
+
+	const [direction, setDirection] = useState<DirectionFilter>("all");
+	const [type, setType] = useState<CoinTransactionType | "all">("all");
+
+	const filteredLedger = ledger.filter(
+		(entry) =>
+			(type === "all" || entry.type === type) &&
+			(direction === "all" ||
+				(direction === "credits" ? entry.amount > 0 : entry.amount < 0)),
+	);
+	const totals = summarizeTransactions(filteredLedger);
+
 	return (
 		<main className="main-content">
 			<h2 className="page-title">Coins</h2>
-			<p>Coins page under development...</p>
+
+			<section className="wallet-balance">
+				<CoinsIcon size={32} />
+				<div>
+					<span className="wallet-balance__amount">{balance}</span>
+					<span className="wallet-balance__label">coins available</span>
+				</div>
+			</section>
+
+			<section className="wallet-transfer">
+				<CoinTransferForm />
+			</section>
+
+			<section className="wallet-ledger">
+				<h3 className="wallet-section-title">History</h3>
+
+				<div className="wallet-filters">
+					<div className="wallet-filter-group">
+						{(["all", "credits", "debits"] as const).map((value) => (
+							<button
+								key={value}
+								type="button"
+								className={`wallet-filter ${direction === value ? "active" : ""}`}
+								onClick={() => setDirection(value)}
+							>
+								{value === "all"
+									? "All"
+									: value === "credits"
+										? "Received"
+										: "Spent"}
+							</button>
+						))}
+					</div>
+					<select
+						className="wallet-type-select"
+						value={type}
+						onChange={(e) =>
+							setType(e.target.value as CoinTransactionType | "all")
+						}
+						aria-label="Transaction type"
+					>
+						<option value="all">All types</option>
+						{Object.entries(COIN_TRANSACTION_LABELS).map(([value, label]) => (
+							<option key={value} value={value}>
+								{label}
+							</option>
+						))}
+					</select>
+				</div>
+
+				<div className="wallet-totals">
+					<span className="credit">+{totals.credits} received</span>
+					<span className="debit">−{totals.debits} spent</span>
+					<span>
+						Net {totals.net >= 0 ? "+" : "−"}
+						{Math.abs(totals.net)}
+					</span>
+				</div>
+
+				{isLoading ? (
+					<div className="loading-container">
+						<div className="loading-spinner">⏳</div>
+						<p>Loading transactions...</p>
+					</div>
+				) : errorMessage ? (
+					<p className="no-data">{errorMessage}</p>
+				) : filteredLedger.length > 0 ? (
+					<ul className="wallet-entries">
+						{filteredLedger.map((entry) => (
+							<li key={entry.id} className="wallet-entry">
+								<span
+									className={`wallet-entry__icon ${entry.amount > 0 ? "credit" : "debit"}`}
+								>
+									{entry.amount > 0 ? (
+										<ArrowDownLeft size={18} />
+									) : (
+										<ArrowUpRight size={18} />
+									)}
+								</span>
+								<div className="wallet-entry__info">
+									<span className="wallet-entry__label">
+										{COIN_TRANSACTION_LABELS[entry.type] || entry.type}
+									</span>
+									<span className="wallet-entry__meta">
+										{new Date(entry.created_at).toLocaleString([], {
+											dateStyle: "medium",
+											timeStyle: "short",
+										})}
+										{entry.description && ` · ${entry.description}`}
+									</span>
+								</div>
+								<div className="wallet-entry__amounts">
+									<span
+										className={`wallet-entry__amount ${entry.amount > 0 ? "credit" : "debit"}`}
+									>
+										{entry.amount > 0 ? "+" : "−"}
+										{Math.abs(entry.amount)}
+									</span>
+									<span className="wallet-entry__balance">
+										Balance {entry.balance}
+									</span>
+								</div>
+							</li>
+						))}
+					</ul>
+				) : (
+					<p className="no-data">No transactions yet.</p>
+				)}
+			</section>
+
+			<section className="wallet-announcements">
+				<h3 className="wallet-section-title">Header announcements</h3>
+				<p className="coins-description">
+					Spend your coins to put an announcement in the header banner.
+				</p>
+				<HeaderAnnouncementComposer />
+				<HeaderAnnouncementHistory />
+			</section>
 		</main>
 	);
 }
@@ -0,0 +1,298 @@
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import {
+	ArrowLeft,
+	Download,
+	Eye,
+	Lock,
+	Trash2,
+	Unlock,
+	Upload,
+} from "lucide-react";
+import { useState } from "react";
+import {
+	DOCUMENT_CATEGORIES,
+	getDocumentFilename,
+	getPreviewKind,
+	isOfficer,
+	useAuth,
+	useDocument,
+	useDocumentFileUrl,
+	useDocumentMutations,
+	useDocumentVersions,
+	useUserMemberships,
+} from "../hooks";
+import { UPLOAD_LIMITS, formatFileSize, validateUpload } from "../lib/storage";
+
+export const Route = createFileRoute("/documents/$documentId")({
+	component: DocumentDetail,
+});
+
+const ACCEPTED_TYPES = [
+	...UPLOAD_LIMITS.FILE_TYPES,
+	...UPLOAD_LIMITS.IMAGE_TYPES,
+].join(",");
+
+function DocumentDetail() {
+	const { documentId } = Route.useParams();
+	const navigate = useNavigate();
+	const { user } = useAuth();
+	const { data: document, isLoading, errorMessage } = useDocument(documentId);
+	const { versions, errorMessage: versionsErrorMessage } =
+		useDocumentVersions(documentId);
+	const { getRole } = useUserMemberships(user?.id || "");
+	const {
+		uploadVersion,
+		updateDocument,
+		isUploadingVersion,
+		isUpdatingDocument,
+		uploadVersionError,
+		updateDocumentError,
+	} = useDocumentMutations();
+
+	const [selectedVersionId, setSelectedVersionId] = useState<string | null>(
+		null,
+	);
+	const [file, setFile] = useState<File | null>(null);
+	const [fileError, setFileError] = useState<string | null>(null);
+	const [notes, setNotes] = useState("");
+
+	// The latest version is shown unless an older one is picked
+	const selectedVersion =
+		versions.find((version) => version.id === selectedVersionId) || versions[0];
+	const path = selectedVersion?.file_url || document?.file_url || "";
+	const { data: previewUrl, errorMessage: previewErrorMessage } =
+		useDocumentFileUrl(path);
+	const { data: downloadUrl } = useDocumentFileUrl(
+		path,
+		document && selectedVersion
+			? getDocumentFilename(document, selectedVersion)
+			: undefined,
+	);
+
+	if (isLoading) {
+		return (
+			<div className="loading-container">
+				<div className="loading-spinner">⏳</div>
+				<p>Loading document...</p>
+			</div>
+		);
+	}
+
+	if (!document) {
+		return (
+			<>
+				<p className="no-data">
+					{errorMessage || "This document does not exist or is members only."}
+				</p>
+				<Link to="/documents">Back to documents</Link>
+			</>
+		);
+	}
+
+	const canManage = isOfficer(getRole(document.association_id));
+	const fileType = selectedVersion?.file_type || document.file_type;
+	const previewKind = getPreviewKind(fileType);
+
+	const handleFileChange = (selected: File | null) => {
+		setFile(selected);
+		if (!selected) return setFileError(null);
+
+		// Validate up front so the user gets immediate feedback
+		try {
+			validateUpload(selected);
+			setFileError(null);
+		} catch (error) {
+			setFileError((error as Error).message);
+		}
+	};
+
+	const handleUploadVersion = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !file || fileError) return;
+
+		uploadVersion({ document, file, notes, userId: user.id });
+		setFile(null);
+		setNotes("");
+		setSelectedVersionId(null);
+		(e.target as HTMLFormElement).reset();
+	};
+
+	const handleRemove = () => {
+		if (!window.confirm("Remove this document from the library?")) return;
+		updateDocument({ id: document.id, is_active: false });
+		navigate({ to: "/documents" });
+	};
+
+	return (
+		<>
+			<div className="document-header">
+				<Link
+					to="/documents"
+					className="document-back"
+					aria-label="Back to documents"
+				>
+					<ArrowLeft size={20} />
+				</Link>
+				<div className="document-header-info">
+					<h3 className="document-title">{document.title}</h3>
+					<span className="document-card-meta">
+						{document.association?.name} ·{" "}
+						{DOCUMENT_CATEGORIES[document.category]} ·{" "}
+						{document.is_public ? "All residents" : "Members only"}
+					</span>
+				</div>
+			</div>
+			{document.description && (
+				<p className="document-description">{document.description}</p>
+			)}
+
+			<section className="document-preview">
+				{previewErrorMessage ? (
+					<p className="no-data">{previewErrorMessage}</p>
+				) : !previewUrl ? (
+					<div className="loading-container">
+						<div className="loading-spinner">⏳</div>
+						<p>Loading preview...</p>
+					</div>
+				) : previewKind === "pdf" ? (
+					<iframe
+						src={previewUrl}
+						title={document.title}
+						className="document-preview-frame"
+					/>
+				) : previewKind === "image" ? (
+					<img
+						src={previewUrl}
+						alt={document.title}
+						className="document-preview-image"
+					/>
+				) : (
+					<p className="no-data">
+						No preview for this file type. Download it to open it.
+					</p>
+				)}
+			</section>
+			{downloadUrl && (
+				<a href={downloadUrl} className="document-button document-download">
+					<Download size={16} /> Download
+					{selectedVersion && ` v${selectedVersion.version}`}
+				</a>
+			)}
+
+			{canManage && (
+				<section className="document-manage">
+					<h3 className="document-section-title">Manage</h3>
+					<form className="document-form" onSubmit={handleUploadVersion}>
+						<input
+							type="file"
+							className="document-input"
+							accept={ACCEPTED_TYPES}
+							onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+							aria-label="New version"
+							required
+						/>
+						{fileError && <p className="document-error">{fileError}</p>}
+						<input
+							type="text"
+							className="document-input"
+							value={notes}
+							onChange={(e) => setNotes(e.target.value)}
+							placeholder="What changed in this version?"
+							maxLength={200}
+						/>
+						<div className="document-form-actions">
+							<button
+								type="submit"
+								className="document-button"
+								disabled={!file || !!fileError || isUploadingVersion}
+							>
+								<Upload size={16} />
+								{isUploadingVersion ? "Uploading..." : "Upload new version"}
+							</button>
+						</div>
+					</form>
+					<div className="document-form-actions">
+						<button
+							type="button"
+							className="document-button secondary"
+							onClick={() =>
+								updateDocument({
+									id: document.id,
+									is_public: !document.is_public,
+								})
+							}
+							disabled={isUpdatingDocument}
+						>
+							{document.is_public ? (
+								<>
+									<Lock size={16} /> Make members only
+								</>
+							) : (
+								<>
+									<Unlock size={16} /> Share with all residents
+								</>
+							)}
+						</button>
+						<button
+							type="button"
+							className="document-button secondary"
+							onClick={handleRemove}
+							disabled={isUpdatingDocument}
+						>
+							<Trash2 size={16} /> Remove
+						</button>
+					</div>
+					{(uploadVersionError || updateDocumentError) && (
+						<p className="document-error">
+							{(uploadVersionError || updateDocumentError)?.message}
+						</p>
+					)}
+				</section>
+			)}
+
+			<section>
+				<h3 className="document-section-title">Version history</h3>
+				{versionsErrorMessage ? (
+					<p className="no-data">{versionsErrorMessage}</p>
+				) : (
+					<ul className="document-versions">
+						{versions.map((version) => (
+							<li
+								key={version.id}
+								className={`document-version${version.id === selectedVersion?.id ? " selected" : ""}`}
+							>
+								<div className="document-card-info">
+									<span className="document-card-title">
+										Version {version.version}
+										{version.version === document.current_version &&
+											" (current)"}
+									</span>
+									<span className="document-card-meta">
+										{new Date(version.created_at).toLocaleDateString()}
+										{version.uploader && ` · ${version.uploader.username}`} ·{" "}
+										{formatFileSize(version.file_size)}
+									</span>
+									{version.notes && (
+										<span className="document-version-notes">
+											{version.notes}
+										</span>
+									)}
+								</div>
+								<button
+									type="button"
+									className="document-icon-button"
+									onClick={() => setSelectedVersionId(version.id)}
+									disabled={version.id === selectedVersion?.id}
+									aria-label={`Show version ${version.version}`}
+									title="Show this version"
+								>
+									<Eye size={16} />
+								</button>
+							</li>
+						))}
+					</ul>
+				)}
+			</section>
+		</>
+	);
+}
@@ -0,0 +1,348 @@
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import { FileText, Lock, Plus, Search, Upload } from "lucide-react";
+import { useState } from "react";
+import {
+	DOCUMENT_CATEGORIES,
+	isOfficer,
+	useAssociations,
+	useAuth,
+	useDocumentList,
+	useDocumentMutations,
+	useUserMemberships,
+} from "../hooks";
+import { UPLOAD_LIMITS, formatFileSize, validateUpload } from "../lib/storage";
+import type { DocumentCategory } from "../types/database";
+
+interface DocumentsSearch {
+	q?: string;
+	association?: string;
+	category?: DocumentCategory;
+}
+
+function validateDocumentsSearch(
+	search: Record<string, unknown>,
+): DocumentsSearch {
+	const q = search.q;
+	const association = search.association;
+	const category = search.category;
+
+	return {
+		...(typeof q === "string" && q.trim() ? { q: q.trim() } : {}),
+		...(typeof association === "string" && association ? { association } : {}),
+		...(typeof category === "string" && category in DOCUMENT_CATEGORIES
+			? { category: category as DocumentCategory }
+			: {}),
+	};
+}
+
+export const Route = createFileRoute("/documents/")({
+	validateSearch: validateDocumentsSearch,
+	component: DocumentLibrary,
+});
+
+const ACCEPTED_TYPES = [
+	...UPLOAD_LIMITS.FILE_TYPES,
+	...UPLOAD_LIMITS.IMAGE_TYPES,
+].join(",");
+
+const EMPTY_FORM = {
+	associationId: "",
+	title: "",
+	description: "",
+	category: "bylaws" as DocumentCategory,
+	isPublic: false,
+	file: null as File | null,
+};
+
+function DocumentLibrary() {
+	const { q, association, category } = Route.useSearch();
+	const navigate = useNavigate({ from: Route.fullPath });
+	const { user } = useAuth();
+
+	const { documents, isLoading, errorMessage } = useDocumentList({
+		associationId: association,
+		category,
+		search: q,
+	});
+	const { associations } = useAssociations();
+	const { memberships } = useUserMemberships(user?.id || "");
+	const { createDocument, isCreatingDocument, createDocumentError } =
+		useDocumentMutations();
+
+	// Documents are added by the officers of an association
+	const officerAssociations = associations.filter((item) =>
+		memberships.some(
+			(membership) =>
+				membership.association_id === item.id && isOfficer(membership.role),
+		),
+	);
+
+	const [searchInput, setSearchInput] = useState(q || "");
+	const [isUploading, setIsUploading] = useState(false);
+	const [form, setForm] = useState(EMPTY_FORM);
+	const [fileError, setFileError] = useState<string | null>(null);
+
+	const updateSearch = (search: DocumentsSearch) =>
+		navigate({
+			search: (prev) => validateDocumentsSearch({ ...prev, ...search }),
+		});
+
+	const canSubmit =
+		!!form.associationId && !!form.title.trim() && !!form.file && !fileError;
+
+	const handleFileChange = (file: File | null) => {
+		setForm({ ...form, file });
+		if (!file) return setFileError(null);
+
+		// Validate up front so the user gets immediate feedback
+		try {
+			validateUpload(file);
+			setFileError(null);
+		} catch (error) {
+			setFileError((error as Error).message);
+		}
+	};
+
+	const handleUpload = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !canSubmit || !form.file) return;
+
+		createDocument({
+			association_id: form.associationId,
+			title: form.title.trim(),
+			description: form.description.trim(),
+			category: form.category,
+			is_public: form.isPublic,
+			file: form.file,
+			userId: user.id,
+		});
+		setForm(EMPTY_FORM);
+		setIsUploading(false);
+	};
+
+	return (
+		<>
+			<p className="documents-description">
+				Bylaws, meeting minutes and forms of the associations. Members-only
+				documents are visible to the members of their association.
+			</p>
+
+			<form
+				className="documents-search"
+				onSubmit={(e) => {
+					e.preventDefault();
+					updateSearch({ q: searchInput });
+				}}
+			>
+				<input
+					type="search"
+					className="document-input"
+					value={searchInput}
+					onChange={(e) => setSearchInput(e.target.value)}
+					placeholder="Search by title"
+					aria-label="Search by title"
+				/>
+				<button
+					type="submit"
+					className="document-button"
+					aria-label="Search"
+					title="Search"
+				>
+					<Search size={16} />
+				</button>
+			</form>
+			<div className="documents-filters">
+				<select
+					className="document-input"
+					value={association || ""}
+					onChange={(e) => updateSearch({ association: e.target.value })}
+					aria-label="Association"
+				>
+					<option value="">All associations</option>
+					{associations.map((item) => (
+						<option key={item.id} value={item.id}>
+							{item.name}
+						</option>
+					))}
+				</select>
+				<select
+					className="document-input"
+					value={category || ""}
+					onChange={(e) =>
+						updateSearch({ category: e.target.value as DocumentCategory })
+					}
+					aria-label="Category"
+				>
+					<option value="">All categories</option>
+					{(Object.keys(DOCUMENT_CATEGORIES) as DocumentCategory[]).map(
+						(value) => (
+							<option key={value} value={value}>
+								{DOCUMENT_CATEGORIES[value]}
+							</option>
+						),
+					)}
+				</select>
+			</div>
+
+			{officerAssociations.length > 0 &&
+				(isUploading ? (
+					<form className="document-form" onSubmit={handleUpload}>
+						<h3 className="document-form-title">New document</h3>
+						<select
+							className="document-input"
+							value={form.associationId}
+							onChange={(e) =>
+								setForm({ ...form, associationId: e.target.value })
+							}
+							aria-label="Association"
+							required
+						>
+							<option value="" disabled>
+								Association...
+							</option>
+							{officerAssociations.map((item) => (
+								<option key={item.id} value={item.id}>
+									{item.name}
+								</option>
+							))}
+						</select>
+						<input
+							type="text"
+							className="document-input"
+							value={form.title}
+							onChange={(e) => setForm({ ...form, title: e.target.value })}
+							placeholder="Title"
+							maxLength={150}
+							required
+						/>
+						<textarea
+							className="document-input"
+							value={form.description}
+							onChange={(e) =>
+								setForm({ ...form, description: e.target.value })
+							}
+							placeholder="Description"
+							rows={2}
+						/>
+						<select
+							className="document-input"
+							value={form.category}
+							onChange={(e) =>
+								setForm({
+									...form,
+									category: e.target.value as DocumentCategory,
+								})
+							}
+							aria-label="Category"
+						>
+							{(Object.keys(DOCUMENT_CATEGORIES) as DocumentCategory[]).map(
+								(value) => (
+									<option key={value} value={value}>
+										{DOCUMENT_CATEGORIES[value]}
+									</option>
+								),
+							)}
+						</select>
+						<input
+							type="file"
+							className="document-input"
+							accept={ACCEPTED_TYPES}
+							onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+							aria-label="File"
+							required
+						/>
+						{fileError && <p className="document-error">{fileError}</p>}
+						<label className="document-checkbox">
+							<input
+								type="checkbox"
+								checked={form.isPublic}
+								onChange={(e) =>
+									setForm({ ...form, isPublic: e.target.checked })
+								}
+							/>
+							Visible to all residents, not only members
+						</label>
+						<div className="document-form-actions">
+							<button
+								type="button"
+								className="document-button secondary"
+								onClick={() => {
+									setForm(EMPTY_FORM);
+									setFileError(null);
+									setIsUploading(false);
+								}}
+							>
+								Cancel
+							</button>
+							<button
+								type="submit"
+								className="document-button"
+								disabled={!canSubmit || isCreatingDocument}
+							>
+								<Upload size={16} />
+								{isCreatingDocument ? "Uploading..." : "Upload"}
+							</button>
+						</div>
+					</form>
+				) : (
+					<button
+						type="button"
+						className="document-button document-new"
+						onClick={() => setIsUploading(true)}
+					>
+						<Plus size={16} /> New document
+					</button>
+				))}
+			{createDocumentError && (
+				<p className="document-error">{createDocumentError.message}</p>
+			)}
+
+			{isLoading ? (
+				<div className="loading-container">
+					<div className="loading-spinner">⏳</div>
+					<p>Loading documents...</p>
+				</div>
+			) : errorMessage ? (
+				<p className="no-data">{errorMessage}</p>
+			) : documents.length > 0 ? (
+				<ul className="document-list">
+					{documents.map((document) => (
+						<li key={document.id}>
+							<Link
+								to="/documents/$documentId"
+								params={{ documentId: document.id }}
+								className="document-card"
+							>
+								<FileText size={24} className="document-card-icon" />
+								<div className="document-card-info">
+									<span className="document-card-title">
+										{document.title}
+										{!document.is_public && (
+											<Lock
+												size={14}
+												className="document-lock"
+												aria-label="Members only"
+											/>
+										)}
+									</span>
+									<span className="document-card-meta">
+										{document.association?.name} ·{" "}
+										{DOCUMENT_CATEGORIES[document.category]} · v
+										{document.current_version} ·{" "}
+										{formatFileSize(document.file_size)}
+									</span>
+								</div>
+							</Link>
+						</li>
+					))}
+				</ul>
+			) : (
+				<p className="no-data">
+					{q || association || category
+						? "No documents match your search."
+						: "No documents yet."}
+				</p>
+			)}
+		</>
+	);
+}
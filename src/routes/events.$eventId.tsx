@@ -0,0 +1,162 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { ArrowLeft, CalendarPlus, Clock, MapPin, Users } from "lucide-react";
+import Avatar from "../components/Avatar";
+import {
+	EVENT_RSVP_LABELS,
+	getRsvpCounts,
+	getUserRsvp,
+	useAuth,
+	useEvent,
+	useEventAttendees,
+	useEventMutations,
+} from "../hooks";
+import { buildIcsCalendar, getIcsFilename } from "../lib/calendarExport";
+import { downloadFile } from "../lib/conversationExport";
+import type { EventRsvpStatus } from "../types/database";
+
+export const Route = createFileRoute("/events/$eventId")({
+	component: EventDetail,
+});
+
+function EventDetail() {
+	const { eventId } = Route.useParams();
+	const { user } = useAuth();
+	const { data: event, isLoading, errorMessage } = useEvent(eventId);
+	const { attendees, isLoading: isLoadingAttendees } =
+		useEventAttendees(eventId);
+	const { rsvp, isAnswering, rsvpError } = useEventMutations();
+
+	if (isLoading) {
+		return (
+			<div className="loading-container">
+				<div className="loading-spinner">⏳</div>
+				<p>Loading event...</p>
+			</div>
+		);
+	}
+
+	if (!event) {
+		return (
+			<>
+				<p className="no-data">
+					{errorMessage || "This event does not exist."}
+				</p>
+				<Link to="/events">Back to events</Link>
+			</>
+		);
+	}
+
+	const counts = getRsvpCounts(event.participants);
+	const myRsvp = getUserRsvp(event.participants, user?.id);
+	const going = attendees.filter((attendee) => attendee.status === "going");
+	const isPast =
+		new Date(event.end_date || event.start_date).getTime() < Date.now();
+
+	const handleExport = () =>
+		downloadFile(
+			getIcsFilename([event]),
+			buildIcsCalendar([event]),
+			"text/calendar",
+		);
+
+	return (
+		<>
+			<div className="event-header">
+				<Link to="/events" className="event-back" aria-label="Back to events">
+					<ArrowLeft size={20} />
+				</Link>
+				<div className="event-header-info">
+					<h3 className="event-title">{event.title}</h3>
+					{event.association && (
+						<Link
+							to="/associations/$associationId"
+							params={{ associationId: event.association.id }}
+							className="event-organizer"
+						>
+							{event.association.name}
+						</Link>
+					)}
+				</div>
+				<button
+					type="button"
+					className="event-button secondary"
+					onClick={handleExport}
+				>
+					<CalendarPlus size={16} /> Add to calendar
+				</button>
+			</div>
+
+			<section className="event-about">
+				{event.image_url && (
+					<img className="event-banner" src={event.image_url} alt="" />
+				)}
+				<ul className="event-details">
+					<li>
+						<Clock size={16} />
+						{new Date(event.start_date).toLocaleString()}
+						{event.end_date &&
+							` – ${new Date(event.end_date).toLocaleString()}`}
+					</li>
+					{event.location && (
+						<li>
+							<MapPin size={16} /> {event.location}
+						</li>
+					)}
+					<li>
+						<Users size={16} /> {counts.going} going · {counts.interested}{" "}
+						interested
+					</li>
+				</ul>
+				{event.description && <p className="event-text">{event.description}</p>}
+			</section>
+
+			{user && !isPast && (
+				<div className="event-rsvp">
+					{(Object.keys(EVENT_RSVP_LABELS) as EventRsvpStatus[]).map(
+						(status) => (
+							<button
+								key={status}
+								type="button"
+								className={`event-rsvp-button${myRsvp === status ? " active" : ""}`}
+								onClick={() => rsvp({ eventId, userId: user.id, status })}
+								disabled={isAnswering || myRsvp === status}
+								aria-pressed={myRsvp === status}
+							>
+								{EVENT_RSVP_LABELS[status]}
+							</button>
+						),
+					)}
+				</div>
+			)}
+			{rsvpError && <p className="event-error">{rsvpError.message}</p>}
+
+			<section className="event-attendees">
+				<h4 className="event-section-title">Going ({going.length})</h4>
+				{isLoadingAttendees ? (
+					<div className="loading-container">
+						<div className="loading-spinner">⏳</div>
+						<p>Loading attendees...</p>
+					</div>
+				) : going.length > 0 ? (
+					<ul className="attendee-list">
+						{going.map((attendee) => (
+							<li key={attendee.id} className="attendee-item">
+								<Avatar
+									size="sm"
+									avatar_url={attendee.profile?.avatar_url}
+									username={attendee.profile?.username}
+								/>
+								<span className="attendee-name">
+									{attendee.profile?.username || "Resident"}
+									{attendee.user_id === user?.id && " (you)"}
+								</span>
+							</li>
+						))}
+					</ul>
+				) : (
+					<p className="no-data">Nobody has said they are going yet.</p>
+				)}
+			</section>
+		</>
+	);
+}
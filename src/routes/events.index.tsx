@@ -0,0 +1,432 @@
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import { ChevronLeft, ChevronRight, Download, Plus } from "lucide-react";
+import { useState } from "react";
+import {
+	type CalendarView,
+	type EventWithDetails,
+	WEEKDAY_LABELS,
+	fromDateKey,
+	getEventsOnDay,
+	getMonthGrid,
+	getRsvpCounts,
+	getUserRsvp,
+	getViewRange,
+	getWeekDays,
+	isOfficer,
+	shiftViewDate,
+	toDateKey,
+	useAssociations,
+	useAuth,
+	useEventMutations,
+	useEventsInRange,
+	useUserMemberships,
+	useUserRsvpEvents,
+} from "../hooks";
+import { buildIcsCalendar, getIcsFilename } from "../lib/calendarExport";
+import { downloadFile } from "../lib/conversationExport";
+
+type EventsSearch = {
+	view?: CalendarView;
+	date?: string;
+	association?: string;
+};
+
+const CALENDAR_VIEWS: Record<CalendarView, string> = {
+	month: "Month",
+	week: "Week",
+	list: "List",
+};
+
+/**
+ * Validate the calendar search params, defaults are left out of the URL
+ */
+function validateEventsSearch(search: Record<string, unknown>): EventsSearch {
+	const view = search.view;
+	const date = search.date;
+	const association = search.association;
+
+	return {
+		...(view === "week" || view === "list" ? { view } : {}),
+		...(typeof date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(date)
+			? { date }
+			: {}),
+		...(typeof association === "string" && association ? { association } : {}),
+	};
+}
+
+export const Route = createFileRoute("/events/")({
+	validateSearch: validateEventsSearch,
+	component: EventsCalendar,
+});
+
+function formatTime(date: string) {
+	return new Date(date).toLocaleTimeString([], {
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+}
+
+function EventsCalendar() {
+	const { view = "month", date, association } = Route.useSearch();
+	const navigate = useNavigate({ from: Route.fullPath });
+	const { user } = useAuth();
+
+	const current = date ? fromDateKey(date) : new Date();
+	const range = getViewRange(view, current);
+	const { events, isLoading, errorMessage } = useEventsInRange({
+		from: range.from.toISOString(),
+		to: range.to?.toISOString(),
+		associationId: association,
+	});
+
+	const { associations } = useAssociations();
+	const { memberships } = useUserMemberships(user?.id || "");
+	const { events: rsvpEvents } = useUserRsvpEvents(user?.id || "");
+	const { createEvent, isCreatingEvent, createEventError } =
+		useEventMutations();
+
+	// Admins create village wide events, officers their association's
+	const officerAssociations = associations.filter((item) =>
+		memberships.some(
+			(membership) =>
+				membership.association_id === item.id && isOfficer(membership.role),
+		),
+	);
+	const canCreate = !!user?.is_admin || officerAssociations.length > 0;
+
+	const [isCreating, setIsCreating] = useState(false);
+	const [form, setForm] = useState({
+		title: "",
+		description: "",
+		start: "",
+		end: "",
+		location: "",
+		associationId: "",
+	});
+
+	const updateForm = (field: keyof typeof form, value: string) =>
+		setForm((currentForm) => ({ ...currentForm, [field]: value }));
+
+	const updateSearch = (search: EventsSearch) =>
+		navigate({
+			search: (prev) => validateEventsSearch({ ...prev, ...search }),
+		});
+
+	const handleCreate = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !form.title.trim() || !form.start) return;
+		if (!user.is_admin && !form.associationId) return;
+
+		createEvent({
+			title: form.title.trim(),
+			description: form.description.trim() || undefined,
+			start_date: new Date(form.start).toISOString(),
+			end_date: form.end ? new Date(form.end).toISOString() : undefined,
+			location: form.location.trim() || undefined,
+			association_id: form.associationId || undefined,
+			created_by: user.id,
+		});
+		setForm({
+			title: "",
+			description: "",
+			start: "",
+			end: "",
+			location: "",
+			associationId: "",
+		});
+		setIsCreating(false);
+	};
+
+	const handleExport = () => {
+		if (rsvpEvents.length === 0) return;
+		downloadFile(
+			getIcsFilename(rsvpEvents),
+			buildIcsCalendar(rsvpEvents),
+			"text/calendar",
+		);
+	};
+
+	const title =
+		view === "month"
+			? current.toLocaleDateString([], { month: "long", year: "numeric" })
+			: view === "week"
+				? `Week of ${getWeekDays(current)[0].toLocaleDateString()}`
+				: "Upcoming";
+
+	const renderEventChip = (event: EventWithDetails) => (
+		<Link
+			key={event.id}
+			to="/events/$eventId"
+			params={{ eventId: event.id }}
+			className="event-chip"
+		>
+			<span className="event-chip-time">{formatTime(event.start_date)}</span>{" "}
+			{event.title}
+		</Link>
+	);
+
+	const renderDay = (day: Date, isOutside = false) => {
+		const dayEvents = getEventsOnDay(events, day);
+		const isToday = toDateKey(day) === toDateKey(new Date());
+
+		return (
+			<div
+				key={toDateKey(day)}
+				className={`calendar-day${isOutside ? " outside" : ""}${isToday ? " today" : ""}`}
+			>
+				<span className="calendar-day-number">{day.getDate()}</span>
+				{dayEvents.map(renderEventChip)}
+			</div>
+		);
+	};
+
+	return (
+		<>
+			<div className="events-toolbar">
+				<div className="events-views">
+					{(Object.keys(CALENDAR_VIEWS) as CalendarView[]).map((value) => (
+						<button
+							key={value}
+							type="button"
+							className={`events-view-button${view === value ? " active" : ""}`}
+							onClick={() =>
+								updateSearch({ view: value === "month" ? undefined : value })
+							}
+						>
+							{CALENDAR_VIEWS[value]}
+						</button>
+					))}
+				</div>
+				<select
+					className="event-input"
+					value={association || ""}
+					onChange={(e) =>
+						updateSearch({ association: e.target.value || undefined })
+					}
+					aria-label="Filter by association"
+				>
+					<option value="">All associations</option>
+					{associations.map((item) => (
+						<option key={item.id} value={item.id}>
+							{item.name}
+						</option>
+					))}
+				</select>
+				<button
+					type="button"
+					className="event-button secondary"
+					onClick={handleExport}
+					disabled={rsvpEvents.length === 0}
+					title="Download the events you are going to or interested in"
+				>
+					<Download size={16} /> Export my RSVPs
+				</button>
+			</div>
+
+			{canCreate &&
+				(isCreating ? (
+					<form className="event-form" onSubmit={handleCreate}>
+						<h3 className="event-form-title">New event</h3>
+						<input
+							type="text"
+							className="event-input"
+							value={form.title}
+							onChange={(e) => updateForm("title", e.target.value)}
+							placeholder="Title"
+							maxLength={150}
+							required
+						/>
+						<textarea
+							className="event-input"
+							value={form.description}
+							onChange={(e) => updateForm("description", e.target.value)}
+							placeholder="Description"
+							rows={3}
+						/>
+						<label className="event-label">
+							Starts
+							<input
+								type="datetime-local"
+								className="event-input"
+								value={form.start}
+								onChange={(e) => updateForm("start", e.target.value)}
+								required
+							/>
+						</label>
+						<label className="event-label">
+							Ends
+							<input
+								type="datetime-local"
+								className="event-input"
+								value={form.end}
+								min={form.start}
+								onChange={(e) => updateForm("end", e.target.value)}
+							/>
+						</label>
+						<input
+							type="text"
+							className="event-input"
+							value={form.location}
+							onChange={(e) => updateForm("location", e.target.value)}
+							placeholder="Location"
+						/>
+						<select
+							className="event-input"
+							value={form.associationId}
+							onChange={(e) => updateForm("associationId", e.target.value)}
+							aria-label="Organized by"
+							required={!user?.is_admin}
+						>
+							{user?.is_admin ? (
+								<option value="">Village wide</option>
+							) : (
+								<option value="" disabled>
+									Organized by...
+								</option>
+							)}
+							{(user?.is_admin ? associations : officerAssociations).map(
+								(item) => (
+									<option key={item.id} value={item.id}>
+										{item.name}
+									</option>
+								),
+							)}
+						</select>
+						<div className="event-form-actions">
+							<button
+								type="button"
+								className="event-button secondary"
+								onClick={() => setIsCreating(false)}
+							>
+								Cancel
+							</button>
+							<button
+								type="submit"
+								className="event-button"
+								disabled={!form.title.trim() || !form.start || isCreatingEvent}
+							>
+								{isCreatingEvent ? "Creating..." : "Create event"}
+							</button>
+						</div>
+					</form>
+				) : (
+					<button
+						type="button"
+						className="event-button event-new"
+						onClick={() => setIsCreating(true)}
+					>
+						<Plus size={16} /> New event
+					</button>
+				))}
+			{createEventError && (
+				<p className="event-error">{createEventError.message}</p>
+			)}
+
+			<div className="calendar-nav">
+				<button
+					type="button"
+					className="calendar-nav-button"
+					onClick={() =>
+						updateSearch({ date: toDateKey(shiftViewDate(view, current, -1)) })
+					}
+					disabled={view === "list"}
+					aria-label="Previous"
+				>
+					<ChevronLeft size={20} />
+				</button>
+				<h3 className="calendar-title">{title}</h3>
+				<button
+					type="button"
+					className="calendar-nav-button"
+					onClick={() =>
+						updateSearch({ date: toDateKey(shiftViewDate(view, current, 1)) })
+					}
+					disabled={view === "list"}
+					aria-label="Next"
+				>
+					<ChevronRight size={20} />
+				</button>
+				<button
+					type="button"
+					className="event-button secondary"
+					onClick={() => updateSearch({ date: undefined })}
+				>
+					Today
+				</button>
+			</div>
+
+			{isLoading ? (
+				<div className="loading-container">
+					<div className="loading-spinner">⏳</div>
+					<p>Loading events...</p>
+				</div>
+			) : errorMessage ? (
+				<p className="no-data">{errorMessage}</p>
+			) : view === "month" ? (
+				<div className="calendar-grid">
+					{WEEKDAY_LABELS.map((label) => (
+						<span key={label} className="calendar-weekday">
+							{label}
+						</span>
+					))}
+					{getMonthGrid(current).map((day) =>
+						renderDay(day, day.getMonth() !== current.getMonth()),
+					)}
+				</div>
+			) : view === "week" ? (
+				<div className="calendar-grid week">
+					{WEEKDAY_LABELS.map((label) => (
+						<span key={label} className="calendar-weekday">
+							{label}
+						</span>
+					))}
+					{getWeekDays(current).map((day) => renderDay(day))}
+				</div>
+			) : events.length > 0 ? (
+				<ul className="event-list">
+					{events.map((event) => {
+						const counts = getRsvpCounts(event.participants);
+						const myRsvp = getUserRsvp(event.participants, user?.id);
+
+						return (
+							<li key={event.id}>
+								<Link
+									to="/events/$eventId"
+									params={{ eventId: event.id }}
+									className="event-card"
+								>
+									<span className="event-card-date">
+										<span className="event-card-day">
+											{new Date(event.start_date).getDate()}
+										</span>
+										{new Date(event.start_date).toLocaleDateString([], {
+											month: "short",
+										})}
+									</span>
+									<div className="event-card-info">
+										<span className="event-card-title">{event.title}</span>
+										<span className="event-card-meta">
+											{formatTime(event.start_date)}
+											{event.location && ` · ${event.location}`}
+											{event.association && ` · ${event.association.name}`}
+										</span>
+										<span className="event-card-meta">
+											{counts.going} going · {counts.interested} interested
+										</span>
+									</div>
+									{myRsvp && (
+										<span className={`event-rsvp-badge ${myRsvp}`}>
+											{myRsvp}
+										</span>
+									)}
+								</Link>
+							</li>
+						);
+					})}
+				</ul>
+			) : (
+				<p className="no-data">No upcoming events.</p>
+			)}
+		</>
+	);
+}
@@ -0,0 +1,16 @@
+import { Outlet, createFileRoute } from "@tanstack/react-router";
+import { requireAuth, requireOnboarding } from "../lib/routeGuards";
+import "./events.css";
+
+export const Route = createFileRoute("/events")({
+	beforeLoad: async ({ context }) => {
+		await requireAuth(context);
+		await requireOnboarding(context);
+	},
+	component: () => (
+		<main className="main-content">
+			<h2 className="page-title">📅 Events</h2>
+			<Outlet />
+		</main>
+	),
+});
@@ -0,0 +1,358 @@
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import {
+	ArrowLeft,
+	EyeOff,
+	Flag,
+	Lock,
+	LockOpen,
+	Pencil,
+	Pin,
+	PinOff,
+	Trash2,
+} from "lucide-react";
+import { useState } from "react";
+import Avatar from "../components/Avatar";
+import Pagination from "../components/Pagination";
+import ReportForm from "../components/ReportForm";
+import {
+	FORUM_POST_MAX_LENGTH,
+	THREAD_POSTS_PAGE_SIZE,
+	getPageCount,
+	getThreadToggleAction,
+	useAuth,
+	useForumMutations,
+	useModerateMutation,
+	useThread,
+	useThreadPosts,
+} from "../hooks";
+import { validatePageSearch } from "../lib/pagination";
+import type { ForumPost } from "../types/database";
+
+export const Route = createFileRoute("/forum/$forumId/$threadId")({
+	validateSearch: validatePageSearch,
+	component: ThreadDetail,
+});
+
+function ThreadDetail() {
+	const { forumId, threadId } = Route.useParams();
+	const { page = 1 } = Route.useSearch();
+	const navigate = useNavigate({ from: Route.fullPath });
+	const { user } = useAuth();
+
+	const { data: thread, isLoading: isLoadingThread } = useThread(threadId);
+	const { posts, total, pageCount, isLoading, errorMessage } = useThreadPosts(
+		threadId,
+		page,
+	);
+	const {
+		createPost,
+		updatePost,
+		deletePost,
+		isCreatingPost,
+		isUpdatingPost,
+		createPostError,
+		updatePostError,
+		deletePostError,
+	} = useForumMutations();
+
+	const { moderate, isModerating, moderationError } = useModerateMutation();
+	const isAdmin = !!user?.is_admin;
+
+	const [reply, setReply] = useState("");
+	const [editing, setEditing] = useState<ForumPost | null>(null);
+	const [editDraft, setEditDraft] = useState("");
+	// Thread being reported, or one of its posts
+	const [reportTarget, setReportTarget] = useState<{ postId?: string } | null>(
+		null,
+	);
+
+	const goToPage = (next: number) =>
+		navigate({ search: { page: next > 1 ? next : undefined } });
+
+	const handleReply = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !reply.trim()) return;
+
+		createPost({
+			thread_id: threadId,
+			author_id: user.id,
+			content: reply.trim(),
+		});
+		setReply("");
+		// The new post lands on the last page
+		goToPage(getPageCount(total + 1, THREAD_POSTS_PAGE_SIZE));
+	};
+
+	const handleSaveEdit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!editing || !editDraft.trim()) return;
+
+		updatePost({ id: editing.id, content: editDraft.trim() });
+		setEditing(null);
+	};
+
+	const handleDelete = (post: ForumPost) => {
+		if (!window.confirm("Delete this post?")) return;
+		deletePost(post.id);
+	};
+
+	const mutationError =
+		createPostError || updatePostError || deletePostError || moderationError;
+
+	if (!isLoadingThread && !thread) {
+		return (
+			<>
+				<p className="no-data">This thread does not exist.</p>
+				<Link to="/forum/$forumId" params={{ forumId }}>
+					Back to the forum
+				</Link>
+			</>
+		);
+	}
+
+	if (thread?.is_hidden && !isAdmin) {
+		return (
+			<>
+				<p className="no-data">This thread has been hidden by a moderator.</p>
+				<Link to="/forum/$forumId" params={{ forumId }}>
+					Back to the forum
+				</Link>
+			</>
+		);
+	}
+
+	return (
+		<>
+			<div className="forum-header">
+				<Link
+					to="/forum/$forumId"
+					params={{ forumId }}
+					className="forum-back"
+					aria-label="Back to threads"
+				>
+					<ArrowLeft size={20} />
+				</Link>
+				<div>
+					<h3 className="forum-title">{thread?.title || "Loading..."}</h3>
+					{thread?.forum && (
+						<span className="forum-breadcrumb">in {thread.forum.title}</span>
+					)}
+				</div>
+				{thread && !isAdmin && (
+					<button
+						type="button"
+						className="forum-icon-button"
+						onClick={() => setReportTarget({})}
+						aria-label="Report thread"
+					>
+						<Flag size={18} />
+					</button>
+				)}
+			</div>
+
+			{thread && isAdmin && (
+				<div className="moderation-toolbar">
+					<button
+						type="button"
+						className="forum-button secondary"
+						onClick={() =>
+							moderate({
+								action: getThreadToggleAction("pin", thread.is_pinned),
+								threadId,
+							})
+						}
+						disabled={isModerating}
+					>
+						{thread.is_pinned ? <PinOff size={16} /> : <Pin size={16} />}
+						{thread.is_pinned ? "Unpin" : "Pin"}
+					</button>
+					<button
+						type="button"
+						className="forum-button secondary"
+						onClick={() =>
+							moderate({
+								action: getThreadToggleAction("lock", thread.is_locked),
+								threadId,
+							})
+						}
+						disabled={isModerating}
+					>
+						{thread.is_locked ? <LockOpen size={16} /> : <Lock size={16} />}
+						{thread.is_locked ? "Unlock" : "Lock"}
+					</button>
+					<button
+						type="button"
+						className="forum-button secondary"
+						onClick={() =>
+							moderate({
+								action: getThreadToggleAction("hide", thread.is_hidden),
+								threadId,
+							})
+						}
+						disabled={isModerating}
+					>
+						<EyeOff size={16} />
+						{thread.is_hidden ? "Restore" : "Hide"}
+					</button>
+				</div>
+			)}
+
+			{thread?.is_hidden && (
+				<p className="forum-notice">
+					<EyeOff size={16} /> This thread is hidden from residents.
+				</p>
+			)}
+
+			{reportTarget && !reportTarget.postId && (
+				<ReportForm threadId={threadId} onClose={() => setReportTarget(null)} />
+			)}
+
+			{isLoading ? (
+				<div className="loading-container">
+					<div className="loading-spinner">⏳</div>
+					<p>Loading posts...</p>
+				</div>
+			) : errorMessage ? (
+				<p className="no-data">{errorMessage}</p>
+			) : (
+				<ol className="post-list">
+					{posts.map((post) => (
+						<li key={post.id} className="post-item">
+							<div className="post-header">
+								<Avatar
+									size="sm"
+									avatar_url={post.author?.avatar_url}
+									username={post.author?.username}
+								/>
+								<div className="post-meta">
+									<span className="post-author">
+										{post.author?.username || "Resident"}
+									</span>
+									<span className="post-date">
+										{new Date(post.created_at).toLocaleString([], {
+											dateStyle: "medium",
+											timeStyle: "short",
+										})}
+										{post.is_edited && " · edited"}
+									</span>
+								</div>
+								{post.author_id !== user?.id && (
+									<div className="post-actions">
+										{isAdmin ? (
+											<button
+												type="button"
+												onClick={() =>
+													moderate({ action: "hide_post", postId: post.id })
+												}
+												disabled={isModerating}
+												aria-label="Hide post"
+											>
+												<EyeOff size={14} />
+											</button>
+										) : (
+											<button
+												type="button"
+												onClick={() => setReportTarget({ postId: post.id })}
+												aria-label="Report post"
+											>
+												<Flag size={14} />
+											</button>
+										)}
+									</div>
+								)}
+								{post.author_id === user?.id && editing?.id !== post.id && (
+									<div className="post-actions">
+										<button
+											type="button"
+											onClick={() => {
+												setEditing(post);
+												setEditDraft(post.content);
+											}}
+											aria-label="Edit post"
+										>
+											<Pencil size={14} />
+										</button>
+										<button
+											type="button"
+											onClick={() => handleDelete(post)}
+											aria-label="Delete post"
+										>
+											<Trash2 size={14} />
+										</button>
+									</div>
+								)}
+							</div>
+
+							{editing?.id === post.id ? (
+								<form className="forum-form" onSubmit={handleSaveEdit}>
+									<textarea
+										className="forum-input"
+										value={editDraft}
+										onChange={(e) => setEditDraft(e.target.value)}
+										maxLength={FORUM_POST_MAX_LENGTH}
+										rows={4}
+									/>
+									<div className="forum-form-actions">
+										<button
+											type="button"
+											className="forum-button secondary"
+											onClick={() => setEditing(null)}
+										>
+											Cancel
+										</button>
+										<button
+											type="submit"
+											className="forum-button"
+											disabled={!editDraft.trim() || isUpdatingPost}
+										>
+											Save
+										</button>
+									</div>
+								</form>
+							) : (
+								<p className="post-content">{post.content}</p>
+							)}
+
+							{reportTarget?.postId === post.id && (
+								<ReportForm
+									postId={post.id}
+									onClose={() => setReportTarget(null)}
+								/>
+							)}
+						</li>
+					))}
+				</ol>
+			)}
+
+			<Pagination page={page} pageCount={pageCount} onPageChange={goToPage} />
+
+			{mutationError && <p className="forum-error">{mutationError.message}</p>}
+
+			{thread?.is_locked ? (
+				<p className="forum-notice">
+					<Lock size={16} /> This thread is locked. New replies are closed.
+				</p>
+			) : (
+				<form className="forum-form" onSubmit={handleReply}>
+					<textarea
+						className="forum-input"
+						value={reply}
+						onChange={(e) => setReply(e.target.value)}
+						placeholder="Write a reply..."
+						maxLength={FORUM_POST_MAX_LENGTH}
+						rows={3}
+					/>
+					<div className="forum-form-actions">
+						<button
+							type="submit"
+							className="forum-button"
+							disabled={!reply.trim() || isCreatingPost}
+						>
+							{isCreatingPost ? "Posting..." : "Reply"}
+						</button>
+					</div>
+				</form>
+			)}
+		</>
+	);
+}
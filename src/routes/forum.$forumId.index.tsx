@@ -0,0 +1,190 @@
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import { ArrowLeft, Lock, MessageCircle, Pin, Plus } from "lucide-react";
+import { useEffect, useState } from "react";
+import Avatar from "../components/Avatar";
+import Pagination from "../components/Pagination";
+import {
+	FORUM_POST_MAX_LENGTH,
+	THREAD_TITLE_MAX_LENGTH,
+	useAuth,
+	useForum,
+	useForumMutations,
+	useForumThreads,
+} from "../hooks";
+import { validatePageSearch } from "../lib/pagination";
+
+export const Route = createFileRoute("/forum/$forumId/")({
+	validateSearch: validatePageSearch,
+	component: ForumThreads,
+});
+
+function ForumThreads() {
+	const { forumId } = Route.useParams();
+	const { page = 1 } = Route.useSearch();
+	const navigate = useNavigate({ from: Route.fullPath });
+	const { user } = useAuth();
+
+	const { data: forum, isLoading: isLoadingForum } = useForum(forumId);
+	const { threads, pageCount, isLoading, errorMessage } = useForumThreads(
+		forumId,
+		page,
+	);
+	const { createThread, createdThread, isCreatingThread, createThreadError } =
+		useForumMutations();
+
+	const [isComposing, setIsComposing] = useState(false);
+	const [title, setTitle] = useState("");
+	const [content, setContent] = useState("");
+
+	// Open the new thread once it is created
+	useEffect(() => {
+		if (createdThread) {
+			navigate({
+				to: "/forum/$forumId/$threadId",
+				params: { forumId, threadId: createdThread.id },
+			});
+		}
+	}, [createdThread, forumId, navigate]);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !title.trim() || !content.trim()) return;
+
+		createThread({
+			forumId,
+			userId: user.id,
+			title,
+			content: content.trim(),
+		});
+	};
+
+	return (
+		<>
+			<div className="forum-header">
+				<Link to="/forum" className="forum-back" aria-label="Back to forums">
+					<ArrowLeft size={20} />
+				</Link>
+				<h3 className="forum-title">
+					{forum?.icon && `${forum.icon} `}
+					{forum?.title || (isLoadingForum ? "Loading..." : "Forum")}
+				</h3>
+				{!isComposing && (
+					<button
+						type="button"
+						className="forum-button"
+						onClick={() => setIsComposing(true)}
+					>
+						<Plus size={16} /> New thread
+					</button>
+				)}
+			</div>
+			{forum?.description && (
+				<p className="forum-description">{forum.description}</p>
+			)}
+
+			{isComposing && (
+				<form className="forum-form" onSubmit={handleSubmit}>
+					<input
+						type="text"
+						className="forum-input"
+						value={title}
+						onChange={(e) => setTitle(e.target.value)}
+						placeholder="Thread title"
+						maxLength={THREAD_TITLE_MAX_LENGTH}
+						required
+					/>
+					<textarea
+						className="forum-input"
+						value={content}
+						onChange={(e) => setContent(e.target.value)}
+						placeholder="Start the discussion..."
+						maxLength={FORUM_POST_MAX_LENGTH}
+						rows={4}
+						required
+					/>
+					{createThreadError && (
+						<p className="forum-error">{createThreadError.message}</p>
+					)}
+					<div className="forum-form-actions">
+						<button
+							type="button"
+							className="forum-button secondary"
+							onClick={() => setIsComposing(false)}
+						>
+							Cancel
+						</button>
+						<button
+							type="submit"
+							className="forum-button"
+							disabled={!title.trim() || !content.trim() || isCreatingThread}
+						>
+							{isCreatingThread ? "Posting..." : "Post thread"}
+						</button>
+					</div>
+				</form>
+			)}
+
+			{isLoading ? (
+				<div className="loading-container">
+					<div className="loading-spinner">⏳</div>
+					<p>Loading threads...</p>
+				</div>
+			) : errorMessage ? (
+				<p className="no-data">{errorMessage}</p>
+			) : threads.length > 0 ? (
+				<div className="thread-list">
+					{threads.map((thread) => (
+						<Link
+							key={thread.id}
+							to="/forum/$forumId/$threadId"
+							params={{ forumId, threadId: thread.id }}
+							className={`thread-item ${thread.is_pinned ? "pinned" : ""}`}
+						>
+							<Avatar
+								size="sm"
+								avatar_url={thread.author?.avatar_url}
+								username={thread.author?.username}
+							/>
+							<div className="thread-item-info">
+								<span className="thread-item-title">
+									{thread.is_pinned && (
+										<Pin
+											size={14}
+											className="thread-flag"
+											aria-label="Pinned"
+										/>
+									)}
+									{thread.is_locked && (
+										<Lock
+											size={14}
+											className="thread-flag"
+											aria-label="Locked"
+										/>
+									)}
+									{thread.title}
+								</span>
+								<span className="thread-item-meta">
+									{thread.author?.username || "Resident"} ·{" "}
+									{new Date(thread.created_at).toLocaleDateString()}
+								</span>
+							</div>
+							<span className="thread-item-count">
+								<MessageCircle size={14} /> {thread.post_count}
+							</span>
+						</Link>
+					))}
+				</div>
+			) : (
+				<p className="no-data">No threads yet. Start the first one!</p>
+			)}
+
+			<Pagination
+				page={page}
+				pageCount={pageCount}
+				onPageChange={(next) =>
+					navigate({ search: { page: next > 1 ? next : undefined } })
+				}
+			/>
+		</>
+	);
+}
@@ -0,0 +1,152 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { MessageSquareText, Plus, ShieldCheck } from "lucide-react";
+import { useState } from "react";
+import { useAuth, useForums } from "../hooks";
+
+export const Route = createFileRoute("/forum/")({
+	component: ForumIndex,
+});
+
+function ForumIndex() {
+	const { user } = useAuth();
+	const {
+		forums,
+		isLoading,
+		errorMessage,
+		createForum,
+		isCreatingForum,
+		createForumError,
+	} = useForums();
+
+	const [isCreating, setIsCreating] = useState(false);
+	const [title, setTitle] = useState("");
+	const [description, setDescription] = useState("");
+	const [icon, setIcon] = useState("");
+
+	const handleCreate = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !title.trim()) return;
+
+		createForum({
+			title: title.trim(),
+			description: description.trim() || undefined,
+			icon: icon.trim() || undefined,
+			created_by: user.id,
+		});
+		setTitle("");
+		setDescription("");
+		setIcon("");
+		setIsCreating(false);
+	};
+
+	return (
+		<>
+			<p className="forum-description">
+				Discuss neighbourhood topics with other residents.
+			</p>
+
+			{user?.is_admin &&
+				(isCreating ? (
+					<form className="forum-form" onSubmit={handleCreate}>
+						<h3 className="forum-form-title">New forum</h3>
+						<div className="forum-form-row">
+							<input
+								type="text"
+								className="forum-input forum-icon-input"
+								value={icon}
+								onChange={(e) => setIcon(e.target.value)}
+								placeholder="🏡"
+								maxLength={4}
+								aria-label="Icon"
+							/>
+							<input
+								type="text"
+								className="forum-input"
+								value={title}
+								onChange={(e) => setTitle(e.target.value)}
+								placeholder="Title"
+								maxLength={100}
+								required
+							/>
+						</div>
+						<textarea
+							className="forum-input"
+							value={description}
+							onChange={(e) => setDescription(e.target.value)}
+							placeholder="What is this forum about?"
+							rows={2}
+						/>
+						<div className="forum-form-actions">
+							<button
+								type="button"
+								className="forum-button secondary"
+								onClick={() => setIsCreating(false)}
+							>
+								Cancel
+							</button>
+							<button
+								type="submit"
+								className="forum-button"
+								disabled={!title.trim() || isCreatingForum}
+							>
+								{isCreatingForum ? "Creating..." : "Create forum"}
+							</button>
+						</div>
+					</form>
+				) : (
+					<div className="forum-admin-actions">
+						<button
+							type="button"
+							className="forum-button"
+							onClick={() => setIsCreating(true)}
+						>
+							<Plus size={16} /> New forum
+						</button>
+						<Link to="/forum/moderation" className="forum-button secondary">
+							<ShieldCheck size={16} /> Moderation
+						</Link>
+					</div>
+				))}
+			{createForumError && (
+				<p className="forum-error">{createForumError.message}</p>
+			)}
+
+			{isLoading ? (
+				<div className="loading-container">
+					<div className="loading-spinner">⏳</div>
+					<p>Loading forums...</p>
+				</div>
+			) : errorMessage ? (
+				<p className="no-data">{errorMessage}</p>
+			) : forums.length > 0 ? (
+				<div className="forum-list">
+					{forums.map((forum) => (
+						<Link
+							key={forum.id}
+							to="/forum/$forumId"
+							params={{ forumId: forum.id }}
+							className="forum-item"
+						>
+							<span className="forum-item-icon">
+								{forum.icon || <MessageSquareText size={24} />}
+							</span>
+							<div className="forum-item-info">
+								<span className="forum-item-title">{forum.title}</span>
+								{forum.description && (
+									<span className="forum-item-description">
+										{forum.description}
+									</span>
+								)}
+							</div>
+							<span className="forum-item-count">
+								{forum.thread_count} thread{forum.thread_count === 1 ? "" : "s"}
+							</span>
+						</Link>
+					))}
+				</div>
+			) : (
+				<p className="no-data">No forums yet.</p>
+			)}
+		</>
+	);
+}
@@ -0,0 +1,266 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { ArrowLeft, EyeOff, Lock, Pin, Undo2, X } from "lucide-react";
+import Avatar from "../components/Avatar";
+import {
+	MODERATION_ACTION_LABELS,
+	REPORT_REASONS,
+	type ForumReportWithTarget,
+	getUndoAction,
+	useModerateMutation,
+	useModerationLog,
+	useModerationQueue,
+} from "../hooks";
+import { requireAdmin } from "../lib/routeGuards";
+
+export const Route = createFileRoute("/forum/moderation")({
+	beforeLoad: async ({ context }) => {
+		await requireAdmin(context);
+	},
+	component: ForumModeration,
+});
+
+const formatDate = (date: string) =>
+	new Date(date).toLocaleString([], {
+		dateStyle: "medium",
+		timeStyle: "short",
+	});
+
+function ForumModeration() {
+	const {
+		reports,
+		isLoading: isLoadingReports,
+		errorMessage: reportsError,
+	} = useModerationQueue();
+	const {
+		actions,
+		isLoading: isLoadingLog,
+		errorMessage: logError,
+	} = useModerationLog();
+	const { moderate, isModerating, moderationError } = useModerateMutation();
+
+	return (
+		<>
+			<div className="forum-header">
+				<Link to="/forum" className="forum-back" aria-label="Back to forums">
+					<ArrowLeft size={20} />
+				</Link>
+				<h3 className="forum-title">Moderation</h3>
+			</div>
+
+			{moderationError && (
+				<p className="forum-error">{moderationError.message}</p>
+			)}
+
+			<section className="moderation-section">
+				<h4 className="moderation-section-title">
+					Reports to review ({reports.length})
+				</h4>
+
+				{isLoadingReports ? (
+					<div className="loading-container">
+						<div className="loading-spinner">⏳</div>
+						<p>Loading reports...</p>
+					</div>
+				) : reportsError ? (
+					<p className="no-data">{reportsError}</p>
+				) : reports.length > 0 ? (
+					<ul className="moderation-list">
+						{reports.map((report) => (
+							<ReportItem
+								key={report.id}
+								report={report}
+								isModerating={isModerating}
+								onModerate={moderate}
+							/>
+						))}
+					</ul>
+				) : (
+					<p className="no-data">No pending reports. All clear!</p>
+				)}
+			</section>
+
+			<section className="moderation-section">
+				<h4 className="moderation-section-title">Audit trail</h4>
+
+				{isLoadingLog ? (
+					<div className="loading-container">
+						<div className="loading-spinner">⏳</div>
+						<p>Loading actions...</p>
+					</div>
+				) : logError ? (
+					<p className="no-data">{logError}</p>
+				) : actions.length > 0 ? (
+					<ul className="moderation-list">
+						{actions.map((entry) => {
+							const undo = getUndoAction(entry.action);
+
+							return (
+								<li key={entry.id} className="moderation-item">
+									<Avatar
+										size="sm"
+										avatar_url={entry.admin?.avatar_url}
+										username={entry.admin?.username}
+									/>
+									<div className="moderation-item-info">
+										<span className="moderation-item-title">
+											{entry.admin?.username || "Admin"} ·{" "}
+											{MODERATION_ACTION_LABELS[entry.action]}
+										</span>
+										<span className="moderation-item-meta">
+											{entry.thread?.title && `${entry.thread.title} · `}
+											{formatDate(entry.created_at)}
+										</span>
+										{entry.note && (
+											<span className="moderation-item-note">{entry.note}</span>
+										)}
+									</div>
+									{undo && (entry.thread_id || entry.post_id) && (
+										<button
+											type="button"
+											className="forum-icon-button"
+											onClick={() =>
+												moderate({
+													action: undo,
+													threadId: entry.thread_id,
+													postId: entry.post_id,
+												})
+											}
+											disabled={isModerating}
+											aria-label={`Undo: ${MODERATION_ACTION_LABELS[entry.action]}`}
+										>
+											<Undo2 size={16} />
+										</button>
+									)}
+								</li>
+							);
+						})}
+					</ul>
+				) : (
+					<p className="no-data">No moderation actions yet.</p>
+				)}
+			</section>
+		</>
+	);
+}
+
+function ReportItem({
+	report,
+	isModerating,
+	onModerate,
+}: {
+	report: ForumReportWithTarget;
+	isModerating: boolean;
+	onModerate: ReturnType<typeof useModerateMutation>["moderate"];
+}) {
+	// Reported posts are reviewed in the context of their thread
+	const thread = report.thread || report.post?.thread;
+
+	return (
+		<li className="moderation-item report-item">
+			<div className="moderation-item-info">
+				<span className="moderation-item-title">
+					{REPORT_REASONS[report.reason]}
+				</span>
+				<span className="moderation-item-meta">
+					{report.post ? "Post" : "Thread"} reported by{" "}
+					{report.reporter?.username || "a resident"} ·{" "}
+					{formatDate(report.created_at)}
+				</span>
+				{report.details && (
+					<span className="moderation-item-note">{report.details}</span>
+				)}
+
+				{thread?.forum_id && (
+					<Link
+						to="/forum/$forumId/$threadId"
+						params={{ forumId: thread.forum_id, threadId: thread.id }}
+						className="report-target"
+					>
+						{thread.title}
+					</Link>
+				)}
+				{report.post && (
+					<blockquote className="report-quote">
+						{report.post.content}
+					</blockquote>
+				)}
+			</div>
+
+			<div className="report-actions">
+				{report.post ? (
+					<button
+						type="button"
+						className="forum-button secondary"
+						onClick={() =>
+							onModerate({
+								action: "hide_post",
+								postId: report.post?.id,
+								reportId: report.id,
+							})
+						}
+						disabled={isModerating || report.post.is_hidden}
+					>
+						<EyeOff size={16} /> Hide post
+					</button>
+				) : (
+					thread && (
+						<>
+							<button
+								type="button"
+								className="forum-button secondary"
+								onClick={() =>
+									onModerate({
+										action: "hide_thread",
+										threadId: thread.id,
+										reportId: report.id,
+									})
+								}
+								disabled={isModerating || thread.is_hidden}
+							>
+								<EyeOff size={16} /> Hide
+							</button>
+							<button
+								type="button"
+								className="forum-button secondary"
+								onClick={() =>
+									onModerate({
+										action: "lock_thread",
+										threadId: thread.id,
+										reportId: report.id,
+									})
+								}
+								disabled={isModerating || thread.is_locked}
+							>
+								<Lock size={16} /> Lock
+							</button>
+							<button
+								type="button"
+								className="forum-button secondary"
+								onClick={() =>
+									onModerate({
+										action: "pin_thread",
+										threadId: thread.id,
+										reportId: report.id,
+									})
+								}
+								disabled={isModerating || thread.is_pinned}
+							>
+								<Pin size={16} /> Pin
+							</button>
+						</>
+					)
+				)}
+				<button
+					type="button"
+					className="forum-button secondary"
+					onClick={() =>
+						onModerate({ action: "dismiss_report", reportId: report.id })
+					}
+					disabled={isModerating}
+				>
+					<X size={16} /> Dismiss
+				</button>
+			</div>
+		</li>
+	);
+}
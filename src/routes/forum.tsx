@@ -1,4 +1,4 @@
-import { createFileRoute } from "@tanstack/react-router";
+import { Outlet, createFileRoute } from "@tanstack/react-router";
 import { requireAuth, requireOnboarding } from "../lib/routeGuards";
 import "./forum.css";
 
@@ -9,8 +9,8 @@ export const Route = createFileRoute("/forum")({
 	},
 	component: () => (
 		<main className="main-content">
-			<h2 className="page-title">Forum</h2>
-			<p>Forum page under development...</p>
+			<h2 className="page-title">🏘️ Forum</h2>
+			<Outlet />
 		</main>
 	),
 });
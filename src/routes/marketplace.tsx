@@ -1,4 +1,8 @@
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { Rocket } from "lucide-react";
+import { useState } from "react";
+import BoostPanel from "../components/BoostPanel";
+import { isFeaturedActive, sortFeaturedFirst, useAuth } from "../hooks";
 import {
 	useMarketplaceListings,
 	marketplaceQueryKeys,
@@ -54,17 +58,28 @@ export const Route = createFileRoute("/marketplace")({
 });
 
 function Marketplace() {
+	const { user } = useAuth();
 	// Use optimized hook for marketplace data
 	const { data: listings = [] } = useMarketplaceListings();
+	const [boostingId, setBoostingId] = useState<string | null>(null);
+
+	// Boosted listings are pinned until their featured period ends
+	const sortedListings = sortFeaturedFirst(listings);
 
 	return (
 		<main className="main-content">
 			<h2 className="page-title">🛒 Marketplace</h2>
 
-			{listings && listings.length > 0 ? (
+			{sortedListings.length > 0 ? (
 				<div className="marketplace-grid">
-					{listings.map((listing) => (
-						<div key={listing.id} className="listing-card">
+					{sortedListings.map((listing) => (
+						<div
+							key={listing.id}
+							className={`listing-card ${isFeaturedActive(listing) ? "featured" : ""}`}
+						>
+							{isFeaturedActive(listing) && (
+								<span className="featured-badge">⭐ Featured</span>
+							)}
 							<h3 className="listing-title">{listing.title}</h3>
 							{listing.description && (
 								<p className="listing-description">{listing.description}</p>
@@ -83,6 +98,24 @@ function Marketplace() {
 							<span className={`listing-status ${listing.status}`}>
 								{listing.status}
 							</span>
+							{listing.profile_id === user?.id &&
+								(boostingId === listing.id ? (
+									<BoostPanel
+										target="marketplace_listings"
+										targetId={listing.id}
+										isFeatured={listing.is_featured}
+										featuredUntil={listing.featured_until}
+										onClose={() => setBoostingId(null)}
+									/>
+								) : (
+									<button
+										type="button"
+										className="boost-button"
+										onClick={() => setBoostingId(listing.id)}
+									>
+										<Rocket size={14} /> Boost
+									</button>
+								))}
 						</div>
 					))}
 				</div>
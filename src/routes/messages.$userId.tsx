@@ -0,0 +1,559 @@
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import {
+	ArrowLeft,
+	Coins,
+	FileJson,
+	FileText,
+	MapPin,
+	Paperclip,
+	Pencil,
+	Reply,
+	Send,
+	Trash2,
+	X,
+} from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import Avatar from "../components/Avatar";
+import CoinTransferForm from "../components/CoinTransferForm";
+import MessageContent from "../components/MessageContent";
+import {
+	getMessagePreview,
+	isMessageEditable,
+	useAssociatedLocationsWithCoords,
+	useAuth,
+	useMessagingConversationMutations,
+	useMessagingMessageMutations,
+	useMessagingPrivateMessagesBetweenUsers,
+	useProfiles,
+	useTypingIndicator,
+} from "../hooks";
+import { toGeoUri } from "../lib/geo";
+import { UPLOAD_LIMITS, validateUpload } from "../lib/storage";
+import type { PrivateMessage } from "../types/database";
+import "./messages.css";
+
+export const Route = createFileRoute("/messages/$userId")({
+	component: Conversation,
+});
+
+/**
+ * Group messages by calendar day, keeping the chronological order
+ */
+function groupMessagesByDay(messages: PrivateMessage[]) {
+	const groups: { day: string; messages: PrivateMessage[] }[] = [];
+
+	for (const message of messages) {
+		const day = new Date(message.created_at).toDateString();
+		const lastGroup = groups[groups.length - 1];
+
+		if (lastGroup && lastGroup.day === day) {
+			lastGroup.messages.push(message);
+		} else {
+			groups.push({ day, messages: [message] });
+		}
+	}
+
+	return groups;
+}
+
+function Conversation() {
+	const { userId: partnerId } = Route.useParams();
+	const navigate = useNavigate();
+	const { user } = useAuth();
+	const { profile: partner } = useProfiles({ mode: "byId", id: partnerId });
+	const { data: messages = [], isLoading } =
+		useMessagingPrivateMessagesBetweenUsers(user?.id || "", partnerId);
+	const {
+		sendMessage,
+		sendAttachment,
+		editMessage,
+		deleteMessage,
+		markMessagesAsRead,
+		isSending,
+		isSendingAttachment,
+		sendError,
+		sendAttachmentError,
+		editError,
+	} = useMessagingMessageMutations();
+	const { data: locations = [] } = useAssociatedLocationsWithCoords();
+	const {
+		deleteConversation,
+		exportConversation,
+		isDeletingConversation,
+		isExporting,
+		exportError,
+	} = useMessagingConversationMutations();
+	const { isPartnerTyping, sendTyping } = useTypingIndicator(
+		user?.id || "",
+		partnerId,
+	);
+
+	const [draft, setDraft] = useState("");
+	const [attachmentError, setAttachmentError] = useState<string | null>(null);
+	const [replyTo, setReplyTo] = useState<PrivateMessage | null>(null);
+	const [editing, setEditing] = useState<PrivateMessage | null>(null);
+	const [isSendingCoins, setIsSendingCoins] = useState(false);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const bottomRef = useRef<HTMLDivElement>(null);
+	const messagesRef = useRef<HTMLDivElement>(null);
+	const requestedReadIdsRef = useRef(new Set<string>());
+
+	// Keep the latest message in view
+	useEffect(() => {
+		if (messages.length > 0) {
+			bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+		}
+	}, [messages.length]);
+
+	// Received messages the current user has not read yet
+	const unreadIds = messages
+		.filter((message) => message.receiver_id === user?.id && !message.read_at)
+		.map((message) => message.id)
+		.join(",");
+
+	// Mark received messages as read once they are actually visible
+	useEffect(() => {
+		const container = messagesRef.current;
+		if (!container || !unreadIds) return;
+
+		const pendingIds = new Set<string>();
+		let flushTimeout: ReturnType<typeof setTimeout> | null = null;
+
+		const flush = () => {
+			flushTimeout = null;
+			if (document.visibilityState !== "visible" || pendingIds.size === 0) {
+				return;
+			}
+
+			const ids = [...pendingIds];
+			pendingIds.clear();
+			for (const id of ids) requestedReadIdsRef.current.add(id);
+			markMessagesAsRead(ids);
+		};
+
+		const observer = new IntersectionObserver(
+			(entries) => {
+				for (const entry of entries) {
+					const id = (entry.target as HTMLElement).dataset.messageId;
+					if (entry.isIntersecting && id) pendingIds.add(id);
+				}
+				if (pendingIds.size > 0 && !flushTimeout) {
+					flushTimeout = setTimeout(flush, 500);
+				}
+			},
+			{ root: container, threshold: 0.6 },
+		);
+
+		for (const element of container.querySelectorAll<HTMLElement>(
+			"[data-message-id]",
+		)) {
+			if (!requestedReadIdsRef.current.has(element.dataset.messageId || "")) {
+				observer.observe(element);
+			}
+		}
+
+		// Messages seen while the tab was hidden are flushed when it comes back
+		document.addEventListener("visibilitychange", flush);
+
+		return () => {
+			observer.disconnect();
+			document.removeEventListener("visibilitychange", flush);
+			if (flushTimeout) clearTimeout(flushTimeout);
+		};
+	}, [unreadIds, markMessagesAsRead]);
+
+	const partnerName = partner?.username || partner?.full_name || "User";
+
+	// Last of my messages the partner has read, to show the "seen" receipt
+	const lastSeenMessage = [...messages]
+		.reverse()
+		.find((message) => message.sender_id === user?.id && message.read_at);
+
+	const messagesById = new Map(
+		messages.map((message) => [message.id, message]),
+	);
+
+	const getSenderName = (message: PrivateMessage) =>
+		message.sender_id === user?.id ? "You" : partnerName;
+
+	const handleSend = (e: React.FormEvent) => {
+		e.preventDefault();
+		const message = draft.trim();
+		if (!message || !user) return;
+
+		if (editing) {
+			if (message !== editing.message) {
+				editMessage(editing.id, message);
+			}
+			setEditing(null);
+		} else {
+			sendMessage({
+				sender_id: user.id,
+				receiver_id: partnerId,
+				message,
+				message_type: "text",
+				reply_to: replyTo?.id,
+				is_edited: false,
+			});
+			setReplyTo(null);
+		}
+		sendTyping(false);
+		setDraft("");
+	};
+
+	const startReply = (message: PrivateMessage) => {
+		setEditing(null);
+		setReplyTo(message);
+	};
+
+	const startEdit = (message: PrivateMessage) => {
+		setReplyTo(null);
+		setEditing(message);
+		setDraft(message.message);
+	};
+
+	const cancelComposerMode = () => {
+		if (editing) setDraft("");
+		setEditing(null);
+		setReplyTo(null);
+	};
+
+	// Sender's verified home (owned first), used for location messages
+	const homeLocation = user
+		? locations.find((location) =>
+				location.users?.some((u) => u.id === user.id && u.is_owner),
+			) ||
+			locations.find((location) =>
+				location.users?.some((u) => u.id === user.id),
+			)
+		: undefined;
+
+	const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file || !user) return;
+
+		// Validate up front so the user gets immediate feedback
+		try {
+			validateUpload(file);
+		} catch (error) {
+			setAttachmentError((error as Error).message);
+			return;
+		}
+
+		setAttachmentError(null);
+		sendAttachment({ senderId: user.id, receiverId: partnerId, file });
+	};
+
+	const handleShareLocation = () => {
+		if (!user || !homeLocation) return;
+
+		sendMessage({
+			sender_id: user.id,
+			receiver_id: partnerId,
+			message: `Block ${homeLocation.block}, Lot ${homeLocation.lot}`,
+			message_type: "location",
+			attachment_url: toGeoUri(homeLocation.lat, homeLocation.lng),
+			attachment_type: "location",
+			is_edited: false,
+		});
+	};
+
+	const handleDelete = () => {
+		if (!user) return;
+		if (
+			!window.confirm(
+				`Delete your conversation with ${partnerName}? It will stay visible for ${partnerName}.`,
+			)
+		) {
+			return;
+		}
+
+		deleteConversation({
+			userId: user.id,
+			participantId: partnerId,
+			lastMessageId: messages[messages.length - 1]?.id,
+		});
+		navigate({ to: "/messages" });
+	};
+
+	return (
+		<div className="conversation-thread">
+			<div className="thread-header">
+				<Link to="/messages" className="thread-back" aria-label="Back">
+					<ArrowLeft size={20} />
+				</Link>
+				<Avatar
+					size="sm"
+					avatar_url={partner?.avatar_url}
+					username={partnerName}
+				/>
+				<span className="thread-name">{partnerName}</span>
+				{user && partner && (
+					<>
+						{partner.username && (
+							<button
+								type="button"
+								className="thread-export"
+								onClick={() => setIsSendingCoins((open) => !open)}
+								aria-label={`Send coins to ${partnerName}`}
+								title="Send coins"
+							>
+								<Coins size={18} />
+							</button>
+						)}
+						<button
+							type="button"
+							className="thread-export"
+							onClick={() =>
+								exportConversation({ user, partner, format: "json" })
+							}
+							disabled={isExporting || messages.length === 0}
+							aria-label="Export conversation as JSON"
+							title="Export as JSON"
+						>
+							<FileJson size={18} />
+						</button>
+						<button
+							type="button"
+							className="thread-export"
+							onClick={() =>
+								exportConversation({ user, partner, format: "txt" })
+							}
+							disabled={isExporting || messages.length === 0}
+							aria-label="Export conversation as text"
+							title="Export as text transcript"
+						>
+							<FileText size={18} />
+						</button>
+					</>
+				)}
+				<button
+					type="button"
+					className="thread-delete"
+					onClick={handleDelete}
+					disabled={isDeletingConversation}
+					aria-label="Delete conversation"
+				>
+					<Trash2 size={18} />
+				</button>
+			</div>
+
+			{isSendingCoins && partner?.username && (
+				<div className="thread-transfer">
+					<CoinTransferForm
+						recipientUsername={partner.username}
+						onClose={() => setIsSendingCoins(false)}
+					/>
+				</div>
+			)}
+
+			<div className="thread-messages" ref={messagesRef}>
+				{isLoading ? (
+					<div className="loading-container">
+						<div className="loading-spinner">⏳</div>
+						<p>Loading messages...</p>
+					</div>
+				) : messages.length > 0 ? (
+					groupMessagesByDay(messages).map((group) => (
+						<div key={group.day} className="thread-day">
+							<div className="thread-day-separator">
+								{new Date(group.day).toLocaleDateString([], {
+									weekday: "short",
+									month: "short",
+									day: "numeric",
+								})}
+							</div>
+							{group.messages.map((message) => {
+								const isOwn = message.sender_id === user?.id;
+								const parent = message.reply_to
+									? messagesById.get(message.reply_to)
+									: undefined;
+
+								return (
+									<div
+										key={message.id}
+										className={`message-bubble ${isOwn ? "sent" : "received"}`}
+										data-message-id={
+											message.receiver_id === user?.id && !message.read_at
+												? message.id
+												: undefined
+										}
+									>
+										{message.deleted_at ? (
+											<p className="message-deleted">Message deleted</p>
+										) : (
+											<>
+												{parent && (
+													<div className="message-quote">
+														<span className="message-quote-author">
+															{getSenderName(parent)}
+														</span>
+														<span className="message-quote-text">
+															{getMessagePreview(parent)}
+														</span>
+													</div>
+												)}
+												<MessageContent message={message} />
+											</>
+										)}
+										<span className="message-time">
+											{message.is_edited && !message.deleted_at && (
+												<span className="message-edited">edited · </span>
+											)}
+											{new Date(message.created_at).toLocaleTimeString([], {
+												hour: "2-digit",
+												minute: "2-digit",
+											})}
+										</span>
+										{message.id === lastSeenMessage?.id &&
+											lastSeenMessage.read_at && (
+												<span className="message-seen">
+													Seen{" "}
+													{new Date(lastSeenMessage.read_at).toLocaleTimeString(
+														[],
+														{ hour: "2-digit", minute: "2-digit" },
+													)}
+												</span>
+											)}
+										{!message.deleted_at && (
+											<div className="message-actions">
+												<button
+													type="button"
+													onClick={() => startReply(message)}
+													aria-label="Reply"
+												>
+													<Reply size={14} />
+												</button>
+												{isOwn &&
+													message.message_type === "text" &&
+													isMessageEditable(message) && (
+														<button
+															type="button"
+															onClick={() => startEdit(message)}
+															aria-label="Edit"
+														>
+															<Pencil size={14} />
+														</button>
+													)}
+												{isOwn && (
+													<button
+														type="button"
+														onClick={() => deleteMessage(message.id)}
+														aria-label="Delete"
+													>
+														<Trash2 size={14} />
+													</button>
+												)}
+											</div>
+										)}
+									</div>
+								);
+							})}
+						</div>
+					))
+				) : (
+					<p className="no-data">
+						No messages yet. Say hello to {partnerName}!
+					</p>
+				)}
+				<div ref={bottomRef} />
+			</div>
+
+			{isPartnerTyping && (
+				<p className="thread-typing">{partnerName} is typing…</p>
+			)}
+
+			{(attachmentError ||
+				sendError ||
+				sendAttachmentError ||
+				editError ||
+				exportError) && (
+				<p className="thread-error">
+					{attachmentError ||
+						sendError?.message ||
+						sendAttachmentError?.message ||
+						editError?.message ||
+						exportError?.message}
+				</p>
+			)}
+
+			{(replyTo || editing) && (
+				<div className="thread-composer-context">
+					<div className="message-quote">
+						<span className="message-quote-author">
+							{editing
+								? "Editing message"
+								: `Replying to ${replyTo && getSenderName(replyTo)}`}
+						</span>
+						<span className="message-quote-text">
+							{getMessagePreview((editing || replyTo) as PrivateMessage)}
+						</span>
+					</div>
+					<button
+						type="button"
+						className="thread-action"
+						onClick={cancelComposerMode}
+						aria-label="Cancel"
+					>
+						<X size={16} />
+					</button>
+				</div>
+			)}
+
+			<form className="thread-composer" onSubmit={handleSend}>
+				<input
+					ref={fileInputRef}
+					type="file"
+					hidden
+					accept={[
+						...UPLOAD_LIMITS.IMAGE_TYPES,
+						...UPLOAD_LIMITS.FILE_TYPES,
+					].join(",")}
+					onChange={handleFileChange}
+				/>
+				<button
+					type="button"
+					className="thread-action"
+					onClick={() => fileInputRef.current?.click()}
+					disabled={isSendingAttachment}
+					aria-label="Attach a photo or file"
+				>
+					<Paperclip size={18} />
+				</button>
+				<button
+					type="button"
+					className="thread-action"
+					onClick={handleShareLocation}
+					disabled={!homeLocation || isSending}
+					aria-label="Share my location"
+					title={
+						homeLocation
+							? "Share my block/lot"
+							: "No verified home location to share"
+					}
+				>
+					<MapPin size={18} />
+				</button>
+				<input
+					type="text"
+					className="thread-input"
+					placeholder="Write a message..."
+					value={draft}
+					onChange={(e) => {
+						setDraft(e.target.value);
+						sendTyping(e.target.value.length > 0);
+					}}
+				/>
+				<button
+					type="submit"
+					className="thread-send"
+					disabled={isSending || !draft.trim()}
+					aria-label="Send"
+				>
+					<Send size={18} />
+				</button>
+			</form>
+		</div>
+	);
+}
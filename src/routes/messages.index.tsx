@@ -0,0 +1,9 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+export const Route = createFileRoute("/messages/")({
+	component: () => (
+		<p className="messages-description">
+			Select a conversation to start chatting.
+		</p>
+	),
+});
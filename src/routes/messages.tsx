@@ -1,4 +1,18 @@
-import { createFileRoute } from "@tanstack/react-router";
+import {
+	Link,
+	Outlet,
+	createFileRoute,
+	useMatch,
+	useParams,
+} from "@tanstack/react-router";
+import { Upload } from "lucide-react";
+import Avatar from "../components/Avatar";
+import ConversationCleanupBanner from "../components/ConversationCleanupBanner";
+import {
+	getMessagePreview,
+	useAuth,
+	useMessagingConversations,
+} from "../hooks";
 import { requireAuth, requireOnboarding } from "../lib/routeGuards";
 import "./messages.css";
 
@@ -7,10 +21,103 @@ export const Route = createFileRoute("/messages")({
 		await requireAuth(context);
 		await requireOnboarding(context);
 	},
-	component: () => (
+	component: Messages,
+});
+
+/**
+ * Short, human friendly timestamp for the inbox
+ */
+function formatMessageTime(date: string): string {
+	const messageDate = new Date(date);
+	const now = new Date();
+
+	if (messageDate.toDateString() === now.toDateString()) {
+		return messageDate.toLocaleTimeString([], {
+			hour: "2-digit",
+			minute: "2-digit",
+		});
+	}
+
+	return messageDate.toLocaleDateString([], {
+		month: "short",
+		day: "numeric",
+	});
+}
+
+function Messages() {
+	const { user } = useAuth();
+	const { userId: activeUserId } = useParams({ strict: false });
+	// Conversation threads and the transcript viewer take the panel
+	const isInbox = !!useMatch({ from: "/messages/", shouldThrow: false });
+	const {
+		data: conversations = [],
+		isLoading,
+		errorMessage,
+	} = useMessagingConversations(user?.id || "");
+
+	return (
 		<main className="main-content">
-			<h2 className="page-title">Messages</h2>
-			<p>Messages page under development...</p>
+			<h2 className="page-title">💬 Messages</h2>
+
+			<ConversationCleanupBanner />
+
+			<div
+				className={`messages-layout ${isInbox ? "" : "has-active-conversation"}`}
+			>
+				<aside className="conversation-list">
+					{isLoading ? (
+						<div className="loading-container">
+							<div className="loading-spinner">⏳</div>
+							<p>Loading conversations...</p>
+						</div>
+					) : errorMessage ? (
+						<p className="no-data">{errorMessage}</p>
+					) : conversations.length > 0 ? (
+						conversations.map(({ partner, lastMessage, unreadCount }) => (
+							<Link
+								key={partner.id}
+								to="/messages/$userId"
+								params={{ userId: partner.id }}
+								className={`conversation-item ${partner.id === activeUserId ? "active" : ""}`}
+							>
+								<Avatar
+									size="sm"
+									avatar_url={partner.avatar_url}
+									username={partner.username || partner.full_name}
+								/>
+								<div className="conversation-info">
+									<div className="conversation-header">
+										<span className="conversation-name">
+											{partner.username || partner.full_name || "User"}
+										</span>
+										<span className="conversation-time">
+											{formatMessageTime(lastMessage.created_at)}
+										</span>
+									</div>
+									<p
+										className={`conversation-preview ${unreadCount > 0 ? "unread" : ""}`}
+									>
+										{lastMessage.sender_id === user?.id && "You: "}
+										{getMessagePreview(lastMessage)}
+									</p>
+								</div>
+								{unreadCount > 0 && (
+									<span className="unread-badge">{unreadCount}</span>
+								)}
+							</Link>
+						))
+					) : (
+						<p className="no-data">No conversations yet.</p>
+					)}
+					<Link to="/messages/import" className="conversation-import">
+						<Upload size={16} /> Open an exported conversation
+					</Link>
+				</aside>
+
+				<section className="conversation-panel">
+					<Outlet />
+				</section>
+			</div>
 		</main>
-	),
-});
+	);
+}
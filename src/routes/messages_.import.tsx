@@ -0,0 +1,163 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { ArrowLeft, FileText, MapPin, Upload } from "lucide-react";
+import { useState } from "react";
+import { useAuth } from "../hooks";
+import {
+	type ConversationExport,
+	type ExportedMessage,
+	parseConversationExport,
+} from "../lib/conversationExport";
+import "../components/message-content.css";
+import "./messages.css";
+
+// Outside the /messages layout on purpose: reading a file needs no session
+export const Route = createFileRoute("/messages_/import")({
+	component: ConversationImport,
+});
+
+/**
+ * Render the body of an exported message
+ * Images and files stay in private storage, so only their name is shown
+ */
+function renderExportedBody(message: ExportedMessage) {
+	switch (message.message_type) {
+		case "image":
+		case "file":
+			return (
+				<span className="message-file">
+					<FileText size={18} />
+					<span className="message-file-name">
+						{message.message_type === "image" ? "📷 " : ""}
+						{message.message}
+					</span>
+				</span>
+			);
+
+		case "location":
+			return (
+				<a href={message.attachment_url} className="message-file">
+					<MapPin size={18} />
+					<span className="message-file-name">{message.message}</span>
+				</a>
+			);
+
+		default:
+			return <p className="message-text">{message.message}</p>;
+	}
+}
+
+function ConversationImport() {
+	const { user } = useAuth();
+	const [conversation, setConversation] = useState<ConversationExport | null>(
+		null,
+	);
+	const [importError, setImportError] = useState<string | null>(null);
+
+	const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) return;
+
+		try {
+			setConversation(parseConversationExport(await file.text()));
+			setImportError(null);
+		} catch (error) {
+			setConversation(null);
+			setImportError(
+				error instanceof Error ? error.message : "Could not read this file",
+			);
+		}
+	};
+
+	const messagesById = new Map(
+		(conversation?.messages || []).map((message) => [message.id, message]),
+	);
+	const title = conversation?.participants
+		.map((participant) => participant.username || "User")
+		.join(" & ");
+
+	return (
+		<div className="conversation-thread">
+			<div className="thread-header">
+				<Link to="/messages" className="thread-back" aria-label="Back">
+					<ArrowLeft size={20} />
+				</Link>
+				<span className="thread-name">
+					{conversation ? title : "Open an exported conversation"}
+				</span>
+				<label className="thread-export" title="Choose a JSON export">
+					<Upload size={18} />
+					<input
+						type="file"
+						accept="application/json,.json"
+						onChange={handleFileChange}
+						hidden
+					/>
+				</label>
+			</div>
+
+			{importError && <p className="thread-error">{importError}</p>}
+
+			<div className="thread-messages">
+				{conversation ? (
+					<>
+						<div className="thread-day-separator">
+							Exported {new Date(conversation.exported_at).toLocaleString()}
+						</div>
+						{conversation.messages.map((message) => {
+							const parent = message.reply_to
+								? messagesById.get(message.reply_to)
+								: undefined;
+
+							return (
+								<div
+									key={message.id}
+									className={`message-bubble ${message.sender_id === user?.id ? "sent" : "received"}`}
+								>
+									{message.sender_id !== user?.id && (
+										<span className="message-quote-author">
+											{message.sender_username}
+										</span>
+									)}
+									{message.is_deleted ? (
+										<p className="message-deleted">Message deleted</p>
+									) : (
+										<>
+											{parent && (
+												<div className="message-quote">
+													<span className="message-quote-author">
+														{parent.sender_username}
+													</span>
+													<span className="message-quote-text">
+														{parent.is_deleted
+															? "Message deleted"
+															: parent.message}
+													</span>
+												</div>
+											)}
+											{renderExportedBody(message)}
+										</>
+									)}
+									<span className="message-time">
+										{message.is_edited && (
+											<span className="message-edited">edited · </span>
+										)}
+										{new Date(message.sent_at).toLocaleString([], {
+											dateStyle: "short",
+											timeStyle: "short",
+										})}
+									</span>
+								</div>
+							);
+						})}
+					</>
+				) : (
+					<p className="messages-description">
+						Choose a conversation exported as JSON to read it here. The file
+						stays on your device.
+					</p>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,249 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { ArrowLeft, CheckCircle, Download, Trophy } from "lucide-react";
+import { useState } from "react";
+import {
+	VOTE_ELIGIBILITY,
+	VOTE_STATUS_LABELS,
+	getVoteStatus,
+	getWinningOptions,
+	isOfficer,
+	useAuth,
+	useUserBallot,
+	useUserMemberships,
+	useVote,
+	useVoteMutations,
+	useVoteResults,
+} from "../hooks";
+import { downloadFile } from "../lib/conversationExport";
+import {
+	buildVoteResultsCsv,
+	getVoteResultsFilename,
+	getVoteShare,
+} from "../lib/voteExport";
+
+export const Route = createFileRoute("/polls/$voteId")({
+	component: PollDetail,
+});
+
+function PollDetail() {
+	const { voteId } = Route.useParams();
+	const { user } = useAuth();
+	const { data: vote, isLoading, errorMessage } = useVote(voteId);
+	const { getRole } = useUserMemberships(user?.id || "");
+	const { ballot, isLoading: isLoadingBallot } = useUserBallot(
+		voteId,
+		user?.id || "",
+	);
+
+	const status = vote ? getVoteStatus(vote) : undefined;
+	const {
+		tallies,
+		total,
+		isLoading: isLoadingResults,
+		errorMessage: resultsErrorMessage,
+	} = useVoteResults(voteId, status === "closed");
+	const {
+		castVote,
+		closeVote,
+		isCastingVote,
+		isClosingVote,
+		castVoteErrorMessage,
+		closeVoteError,
+	} = useVoteMutations();
+
+	const [selectedOption, setSelectedOption] = useState("");
+
+	if (isLoading) {
+		return (
+			<div className="loading-container">
+				<div className="loading-spinner">⏳</div>
+				<p>Loading poll...</p>
+			</div>
+		);
+	}
+
+	if (!vote || !status) {
+		return (
+			<>
+				<p className="no-data">{errorMessage || "This poll does not exist."}</p>
+				<Link to="/polls">Back to polls</Link>
+			</>
+		);
+	}
+
+	const canClose = status === "open" && isOfficer(getRole(vote.association_id));
+	const winners = getWinningOptions(tallies).map((tally) => tally.option_id);
+	const ballotOption = vote.options.find(
+		(option) => option.id === ballot?.vote_option_id,
+	);
+
+	const handleVote = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!selectedOption) return;
+		castVote({ voteId, optionId: selectedOption });
+	};
+
+	const handleClose = () => {
+		if (!window.confirm("Close this poll now and publish its results?")) {
+			return;
+		}
+		closeVote(voteId);
+	};
+
+	const handleExport = () =>
+		downloadFile(
+			getVoteResultsFilename(vote),
+			buildVoteResultsCsv(vote, tallies),
+			"text/csv",
+		);
+
+	return (
+		<>
+			<div className="poll-header">
+				<Link to="/polls" className="poll-back" aria-label="Back to polls">
+					<ArrowLeft size={20} />
+				</Link>
+				<div className="poll-header-info">
+					<h3 className="poll-title">{vote.title}</h3>
+					{vote.association && (
+						<Link
+							to="/associations/$associationId"
+							params={{ associationId: vote.association.id }}
+							className="poll-organizer"
+						>
+							{vote.association.name}
+						</Link>
+					)}
+				</div>
+				<span className={`poll-status ${status}`}>
+					{VOTE_STATUS_LABELS[status]}
+				</span>
+			</div>
+
+			<section className="poll-about">
+				{vote.description && <p className="poll-text">{vote.description}</p>}
+				<ul className="poll-details">
+					<li>Opens {new Date(vote.start_date).toLocaleString()}</li>
+					<li>Closes {new Date(vote.end_date).toLocaleString()}</li>
+					<li>{VOTE_ELIGIBILITY[vote.eligibility]}</li>
+				</ul>
+				{canClose && (
+					<button
+						type="button"
+						className="poll-button secondary"
+						onClick={handleClose}
+						disabled={isClosingVote}
+					>
+						{isClosingVote ? "Closing..." : "Close poll now"}
+					</button>
+				)}
+				{closeVoteError && (
+					<p className="poll-error">{closeVoteError.message}</p>
+				)}
+			</section>
+
+			{status === "closed" ? (
+				<section className="poll-results">
+					<div className="poll-results-header">
+						<h4 className="poll-section-title">Results ({total} ballots)</h4>
+						<button
+							type="button"
+							className="poll-button secondary"
+							onClick={handleExport}
+							disabled={tallies.length === 0}
+						>
+							<Download size={16} /> Export CSV
+						</button>
+					</div>
+					{isLoadingResults ? (
+						<div className="loading-container">
+							<div className="loading-spinner">⏳</div>
+							<p>Counting ballots...</p>
+						</div>
+					) : resultsErrorMessage ? (
+						<p className="poll-error">{resultsErrorMessage}</p>
+					) : (
+						<ul className="poll-tally">
+							{tallies.map((tally) => {
+								const share = getVoteShare(tally.votes, total);
+
+								return (
+									<li key={tally.option_id} className="poll-tally-item">
+										<div className="poll-tally-label">
+											<span className="poll-tally-title">
+												{winners.includes(tally.option_id) && (
+													<Trophy size={16} className="poll-winner" />
+												)}
+												{tally.title}
+												{tally.option_id === ballot?.vote_option_id &&
+													" (your vote)"}
+											</span>
+											<span className="poll-tally-count">
+												{tally.votes} · {share}%
+											</span>
+										</div>
+										<div className="poll-tally-bar">
+											<span style={{ width: `${share}%` }} />
+										</div>
+									</li>
+								);
+							})}
+						</ul>
+					)}
+				</section>
+			) : (
+				<section className="poll-ballot">
+					<h4 className="poll-section-title">Your ballot</h4>
+					{isLoadingBallot ? (
+						<div className="loading-container">
+							<div className="loading-spinner">⏳</div>
+							<p>Loading ballot...</p>
+						</div>
+					) : ballot ? (
+						<p className="poll-voted">
+							<CheckCircle size={18} /> You voted for “{ballotOption?.title}”.
+							Results are published when the poll closes.
+						</p>
+					) : status === "upcoming" ? (
+						<p className="no-data">
+							Voting opens {new Date(vote.start_date).toLocaleString()}.
+						</p>
+					) : (
+						<form className="poll-options" onSubmit={handleVote}>
+							{vote.options.map((option) => (
+								<label key={option.id} className="poll-option">
+									<input
+										type="radio"
+										name="vote-option"
+										value={option.id}
+										checked={selectedOption === option.id}
+										onChange={() => setSelectedOption(option.id)}
+									/>
+									<span>
+										{option.title}
+										{option.description && (
+											<small className="poll-option-description">
+												{option.description}
+											</small>
+										)}
+									</span>
+								</label>
+							))}
+							{castVoteErrorMessage && (
+								<p className="poll-error">{castVoteErrorMessage}</p>
+							)}
+							<p className="poll-hint">Ballots are final once cast.</p>
+							<button
+								type="submit"
+								className="poll-button"
+								disabled={!selectedOption || isCastingVote}
+							>
+								{isCastingVote ? "Voting..." : "Cast my vote"}
+							</button>
+						</form>
+					)}
+				</section>
+			)}
+		</>
+	);
+}
@@ -0,0 +1,334 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { Plus, X } from "lucide-react";
+import { useState } from "react";
+import {
+	VOTE_ELIGIBILITY,
+	VOTE_MAX_OPTIONS,
+	VOTE_MIN_OPTIONS,
+	VOTE_STATUS_LABELS,
+	type VoteStatus,
+	getVoteStatus,
+	isOfficer,
+	useAssociations,
+	useAuth,
+	useUserMemberships,
+	useVoteList,
+	useVoteMutations,
+} from "../hooks";
+import type { VoteEligibility } from "../types/database";
+
+export const Route = createFileRoute("/polls/")({
+	component: PollsList,
+});
+
+const STATUS_ORDER: VoteStatus[] = ["open", "upcoming", "closed"];
+
+const EMPTY_FORM = {
+	associationId: "",
+	title: "",
+	description: "",
+	start: "",
+	end: "",
+	eligibility: "member" as VoteEligibility,
+	// Options keep an id so they can be removed while being edited
+	options: [
+		{ id: 0, title: "" },
+		{ id: 1, title: "" },
+	],
+};
+
+function PollsList() {
+	const { user } = useAuth();
+	const { votes, isLoading, errorMessage } = useVoteList();
+	const { associations } = useAssociations();
+	const { memberships } = useUserMemberships(user?.id || "");
+	const { createVote, isCreatingVote, createVoteErrorMessage } =
+		useVoteMutations();
+
+	// Polls are created by the officers of an association
+	const officerAssociations = associations.filter((association) =>
+		memberships.some(
+			(membership) =>
+				membership.association_id === association.id &&
+				isOfficer(membership.role),
+		),
+	);
+
+	const [isCreating, setIsCreating] = useState(false);
+	const [form, setForm] = useState(EMPTY_FORM);
+
+	const options = form.options
+		.map((option) => option.title.trim())
+		.filter(Boolean);
+	const canSubmit =
+		!!form.associationId &&
+		!!form.title.trim() &&
+		!!form.start &&
+		!!form.end &&
+		form.end > form.start &&
+		new Set(options).size === options.length &&
+		options.length >= VOTE_MIN_OPTIONS;
+
+	const updateOption = (id: number, title: string) =>
+		setForm((current) => ({
+			...current,
+			options: current.options.map((option) =>
+				option.id === id ? { ...option, title } : option,
+			),
+		}));
+
+	const handleCreate = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !canSubmit) return;
+
+		createVote(
+			{
+				association_id: form.associationId,
+				title: form.title.trim(),
+				description: form.description.trim() || undefined,
+				start_date: new Date(form.start).toISOString(),
+				end_date: new Date(form.end).toISOString(),
+				eligibility: form.eligibility,
+				options,
+			},
+			{
+				// Keep the form filled in so a refused poll can be corrected
+				onSuccess: () => {
+					setForm(EMPTY_FORM);
+					setIsCreating(false);
+				},
+			},
+		);
+	};
+
+	return (
+		<>
+			<p className="polls-description">
+				Vote on the decisions of your associations. Results are published when a
+				poll closes.
+			</p>
+
+			{officerAssociations.length > 0 &&
+				(isCreating ? (
+					<form className="poll-form" onSubmit={handleCreate}>
+						<h3 className="poll-form-title">New poll</h3>
+						<select
+							className="poll-input"
+							value={form.associationId}
+							onChange={(e) =>
+								setForm({ ...form, associationId: e.target.value })
+							}
+							aria-label="Association"
+							required
+						>
+							<option value="" disabled>
+								Association...
+							</option>
+							{officerAssociations.map((association) => (
+								<option key={association.id} value={association.id}>
+									{association.name}
+								</option>
+							))}
+						</select>
+						<input
+							type="text"
+							className="poll-input"
+							value={form.title}
+							onChange={(e) => setForm({ ...form, title: e.target.value })}
+							placeholder="Question"
+							maxLength={200}
+							required
+						/>
+						<textarea
+							className="poll-input"
+							value={form.description}
+							onChange={(e) =>
+								setForm({ ...form, description: e.target.value })
+							}
+							placeholder="Context for the voters"
+							rows={3}
+						/>
+						<div className="poll-form-row">
+							<label className="poll-label">
+								Opens
+								<input
+									type="datetime-local"
+									className="poll-input"
+									value={form.start}
+									onChange={(e) => setForm({ ...form, start: e.target.value })}
+									required
+								/>
+							</label>
+							<label className="poll-label">
+								Closes
+								<input
+									type="datetime-local"
+									className="poll-input"
+									value={form.end}
+									min={form.start}
+									onChange={(e) => setForm({ ...form, end: e.target.value })}
+									required
+								/>
+							</label>
+						</div>
+						<select
+							className="poll-input"
+							value={form.eligibility}
+							onChange={(e) =>
+								setForm({
+									...form,
+									eligibility: e.target.value as VoteEligibility,
+								})
+							}
+							aria-label="Who can vote"
+						>
+							{(Object.keys(VOTE_ELIGIBILITY) as VoteEligibility[]).map(
+								(value) => (
+									<option key={value} value={value}>
+										{VOTE_ELIGIBILITY[value]}
+									</option>
+								),
+							)}
+						</select>
+
+						<fieldset className="poll-options-editor">
+							<legend className="poll-label">Options</legend>
+							{form.options.map((option, index) => (
+								<div key={option.id} className="poll-option-input">
+									<input
+										type="text"
+										className="poll-input"
+										value={option.title}
+										onChange={(e) => updateOption(option.id, e.target.value)}
+										placeholder={`Option ${index + 1}`}
+										maxLength={100}
+									/>
+									{form.options.length > VOTE_MIN_OPTIONS && (
+										<button
+											type="button"
+											className="poll-icon-button"
+											onClick={() =>
+												setForm({
+													...form,
+													options: form.options.filter(
+														(item) => item.id !== option.id,
+													),
+												})
+											}
+											aria-label={`Remove option ${index + 1}`}
+										>
+											<X size={16} />
+										</button>
+									)}
+								</div>
+							))}
+							{form.options.length < VOTE_MAX_OPTIONS && (
+								<button
+									type="button"
+									className="poll-button secondary"
+									onClick={() =>
+										setForm({
+											...form,
+											options: [
+												...form.options,
+												{
+													id:
+														Math.max(...form.options.map((item) => item.id)) +
+														1,
+													title: "",
+												},
+											],
+										})
+									}
+								>
+									<Plus size={16} /> Add option
+								</button>
+							)}
+						</fieldset>
+
+						<p className="poll-hint">
+							Options can no longer be changed once the poll opens.
+						</p>
+						{createVoteErrorMessage && (
+							<p className="poll-error">{createVoteErrorMessage}</p>
+						)}
+						<div className="poll-form-actions">
+							<button
+								type="button"
+								className="poll-button secondary"
+								onClick={() => setIsCreating(false)}
+							>
+								Cancel
+							</button>
+							<button
+								type="submit"
+								className="poll-button"
+								disabled={!canSubmit || isCreatingVote}
+							>
+								{isCreatingVote ? "Creating..." : "Create poll"}
+							</button>
+						</div>
+					</form>
+				) : (
+					<button
+						type="button"
+						className="poll-button poll-new"
+						onClick={() => setIsCreating(true)}
+					>
+						<Plus size={16} /> New poll
+					</button>
+				))}
+
+			{isLoading ? (
+				<div className="loading-container">
+					<div className="loading-spinner">⏳</div>
+					<p>Loading polls...</p>
+				</div>
+			) : errorMessage ? (
+				<p className="no-data">{errorMessage}</p>
+			) : votes.length > 0 ? (
+				STATUS_ORDER.map((status) => {
+					const group = votes.filter((vote) => getVoteStatus(vote) === status);
+					if (group.length === 0) return null;
+
+					return (
+						<section key={status} className="poll-group">
+							<h3 className="poll-group-title">{VOTE_STATUS_LABELS[status]}</h3>
+							<ul className="poll-list">
+								{group.map((vote) => (
+									<li key={vote.id}>
+										<Link
+											to="/polls/$voteId"
+											params={{ voteId: vote.id }}
+											className="poll-card"
+										>
+											<div className="poll-card-info">
+												<span className="poll-card-title">{vote.title}</span>
+												<span className="poll-card-meta">
+													{vote.association?.name}
+													{" · "}
+													{status === "upcoming"
+														? `Opens ${new Date(vote.start_date).toLocaleString()}`
+														: status === "open"
+															? `Closes ${new Date(vote.end_date).toLocaleString()}`
+															: `Closed ${new Date(vote.end_date).toLocaleDateString()}`}
+												</span>
+											</div>
+											<span className={`poll-status ${status}`}>
+												{VOTE_STATUS_LABELS[status]}
+											</span>
+										</Link>
+									</li>
+								))}
+							</ul>
+						</section>
+					);
+				})
+			) : (
+				<p className="no-data">
+					No polls yet. Polls of the associations you join show up here.
+				</p>
+			)}
+		</>
+	);
+}
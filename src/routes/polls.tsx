@@ -0,0 +1,16 @@
+import { Outlet, createFileRoute } from "@tanstack/react-router";
+import { requireAuth, requireOnboarding } from "../lib/routeGuards";
+import "./polls.css";
+
+export const Route = createFileRoute("/polls")({
+	beforeLoad: async ({ context }) => {
+		await requireAuth(context);
+		await requireOnboarding(context);
+	},
+	component: () => (
+		<main className="main-content">
+			<h2 className="page-title">🗳️ Polls</h2>
+			<Outlet />
+		</main>
+	),
+});
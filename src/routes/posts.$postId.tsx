@@ -1,55 +1,43 @@
-import { Link, createFileRoute, getRouteApi } from "@tanstack/react-router";
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import { Trash2 } from "lucide-react";
+import { useState } from "react";
+import Avatar from "../components/Avatar";
+import PostCard from "../components/PostCard";
+import {
+	POST_COMMENT_MAX_LENGTH,
+	postCommentQueryKeys,
+	postQueries,
+	postQueryKeys,
+	useAuth,
+	usePost,
+	usePostComments,
+	usePostMutations,
+} from "../hooks";
 import { requireAuth, requireOnboarding } from "../lib/routeGuards";
 import "./posts.css";
 
-interface Post {
-	id: number;
-	title: string;
-	body: string;
-	userId: number;
-}
-
-interface Comment {
-	id: number;
-	postId: number;
-	name: string;
-	email: string;
-	body: string;
-}
-
-const postApi = getRouteApi("/posts/$postId");
-
 export const Route = createFileRoute("/posts/$postId")({
 	beforeLoad: async ({ context }) => {
 		await requireAuth(context);
 		await requireOnboarding(context);
 	},
 	component: PostDetail,
-	loader: async ({ params, abortController }) => {
-		// Check if request was aborted
-		if (abortController.signal.aborted) {
-			throw new Error("Request aborted");
-		}
-
-		// Simulate API call to fetch single post
-		const response = await fetch(
-			`https://jsonplaceholder.typicode.com/posts/${params.postId}`,
-			{ signal: abortController.signal },
-		);
-		if (!response.ok) {
-			throw new Error("Failed to fetch post");
-		}
-		const post: Post = await response.json();
+	loader: async ({ context, params }) => {
+		// Ensure data in TanStack Query cache
+		const [post, comments] = await Promise.all([
+			context.queryClient.ensureQueryData({
+				queryKey: postQueryKeys.byId(params.postId),
+				queryFn: () => postQueries.getPost(params.postId),
+			}),
+			context.queryClient.ensureQueryData({
+				queryKey: postCommentQueryKeys.byFilter({ postId: params.postId }),
+				queryFn: () => postQueries.getComments(params.postId),
+			}),
+		]);
 
-		// Fetch comments for this post
-		const commentsResponse = await fetch(
-			`https://jsonplaceholder.typicode.com/posts/${params.postId}/comments`,
-			{ signal: abortController.signal },
-		);
-		if (!commentsResponse.ok) {
-			throw new Error("Failed to fetch comments");
+		if (!post) {
+			throw new Error("This post does not exist or has been deleted");
 		}
-		const comments: Comment[] = await commentsResponse.json();
 
 		return { post, comments };
 	},
@@ -63,18 +51,38 @@ export const Route = createFileRoute("/posts/$postId")({
 		<div className="error-container">
 			<h2>⚠️ Error Loading Post</h2>
 			<p>{error.message}</p>
+			<Link to="/posts" className="back-link">
+				← Back to Posts
+			</Link>
 		</div>
 	),
 });
 
 function PostDetail() {
-	const { post, comments } = postApi.useLoaderData({
-		select: (data) => ({
-			post: data.post,
-			comments: data.comments,
-		}),
-		structuralSharing: true,
-	});
+	const { postId } = Route.useParams();
+	const navigate = useNavigate();
+	const { user } = useAuth();
+	const { data: post } = usePost(postId);
+	const { data: comments = [] } = usePostComments(postId);
+	const {
+		createComment,
+		deleteComment,
+		isCreatingComment,
+		createCommentError,
+		deleteCommentError,
+	} = usePostMutations();
+
+	const [comment, setComment] = useState("");
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !comment.trim()) return;
+
+		createComment({ post_id: postId, author_id: user.id, content: comment });
+		setComment("");
+	};
+
+	const commentError = createCommentError || deleteCommentError;
 
 	return (
 		<main className="main-content">
@@ -82,22 +90,69 @@ function PostDetail() {
 				← Back to Posts
 			</Link>
 
-			<article className="post-detail">
-				<h1 className="post-title">{post.title}</h1>
-				<p className="post-body">{post.body}</p>
+			<div className="post-detail">
+				{post && (
+					<PostCard
+						post={post}
+						isDetail
+						onDeleted={() => navigate({ to: "/posts" })}
+					/>
+				)}
 
 				<section className="comments-section">
 					<h3 className="comments-title">💬 Comments ({comments.length})</h3>
+
 					<div className="comments-list">
-						{comments.map((comment: Comment) => (
-							<div key={comment.id} className="comment-card">
-								<h4 className="comment-author">{comment.email}</h4>
-								<p className="comment-body">{comment.body}</p>
+						{comments.map((item) => (
+							<div key={item.id} className="comment-card">
+								<div className="comment-header">
+									<Avatar
+										size="sm"
+										avatar_url={item.author?.avatar_url}
+										username={item.author?.username}
+									/>
+									<h4 className="comment-author">
+										{item.author?.username || "Resident"}
+									</h4>
+									{item.author_id === user?.id && (
+										<button
+											type="button"
+											className="comment-delete"
+											onClick={() => deleteComment(item.id)}
+											aria-label="Delete comment"
+										>
+											<Trash2 size={14} />
+										</button>
+									)}
+								</div>
+								<p className="comment-body">{item.content}</p>
 							</div>
 						))}
 					</div>
+
+					{commentError && (
+						<p className="post-composer__error">{commentError.message}</p>
+					)}
+
+					<form className="comment-form" onSubmit={handleSubmit}>
+						<input
+							type="text"
+							className="comment-input"
+							value={comment}
+							onChange={(e) => setComment(e.target.value)}
+							placeholder="Write a comment..."
+							maxLength={POST_COMMENT_MAX_LENGTH}
+						/>
+						<button
+							type="submit"
+							className="post-composer__submit"
+							disabled={!comment.trim() || isCreatingComment}
+						>
+							Send
+						</button>
+					</form>
 				</section>
-			</article>
+			</div>
 		</main>
 	);
 }
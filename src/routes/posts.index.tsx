@@ -0,0 +1,166 @@
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { ImagePlus, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import PostCard from "../components/PostCard";
+import {
+	POST_CONTENT_MAX_LENGTH,
+	postQueries,
+	postQueryKeys,
+	useAuth,
+	usePostList,
+	usePostMutations,
+} from "../hooks";
+import { requireAuth, requireOnboarding } from "../lib/routeGuards";
+import { UPLOAD_LIMITS } from "../lib/storage";
+import "./posts.css";
+
+export const Route = createFileRoute("/posts/")({
+	beforeLoad: async ({ context }) => {
+		await requireAuth(context);
+		await requireOnboarding(context);
+	},
+	component: Posts,
+	loader: async ({ context }) => {
+		// Ensure data in TanStack Query cache
+		const posts = await context.queryClient.ensureQueryData({
+			queryKey: postQueryKeys.lists(),
+			queryFn: postQueries.getPosts,
+			staleTime: 1000 * 60, // 1 minute
+		});
+
+		return { posts };
+	},
+	pendingComponent: () => (
+		<div className="loading-container">
+			<div className="loading-spinner">⏳</div>
+			<p>Loading posts...</p>
+		</div>
+	),
+	errorComponent: ({ error }) => {
+		const navigate = useNavigate();
+		const { queryClient } = Route.useRouteContext();
+
+		return (
+			<div className="error-container">
+				<h2>⚠️ Error Loading Posts</h2>
+				<p>{error.message}</p>
+				<button
+					type="button"
+					onClick={async () => {
+						await queryClient.invalidateQueries({
+							queryKey: postQueryKeys.lists(),
+						});
+						navigate({ to: "/posts" });
+					}}
+				>
+					Retry
+				</button>
+			</div>
+		);
+	},
+});
+
+function Posts() {
+	const { user } = useAuth();
+	const { data: posts = [] } = usePostList();
+	const { createPost, isCreatingPost, createPostError } = usePostMutations();
+
+	const [content, setContent] = useState("");
+	const [image, setImage] = useState<File | null>(null);
+	const [imagePreview, setImagePreview] = useState<string | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	// Release the preview URL when the image changes
+	useEffect(() => {
+		if (!image) {
+			setImagePreview(null);
+			return;
+		}
+		const url = URL.createObjectURL(image);
+		setImagePreview(url);
+		return () => URL.revokeObjectURL(url);
+	}, [image]);
+
+	const clearImage = () => {
+		setImage(null);
+		if (fileInputRef.current) fileInputRef.current.value = "";
+	};
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!user || !content.trim()) return;
+
+		createPost({
+			authorId: user.id,
+			content,
+			image: image || undefined,
+		});
+		setContent("");
+		clearImage();
+	};
+
+	return (
+		<main className="main-content">
+			<h2 className="page-title">📝 Posts</h2>
+
+			<form className="post-composer" onSubmit={handleSubmit}>
+				<textarea
+					className="post-composer__input"
+					value={content}
+					onChange={(e) => setContent(e.target.value)}
+					placeholder="Share something with your neighbours..."
+					maxLength={POST_CONTENT_MAX_LENGTH}
+					rows={3}
+				/>
+
+				{imagePreview && (
+					<div className="post-composer__preview">
+						<img src={imagePreview} alt="Selected attachment" />
+						<button
+							type="button"
+							onClick={clearImage}
+							aria-label="Remove image"
+						>
+							<X size={16} />
+						</button>
+					</div>
+				)}
+
+				{createPostError && (
+					<p className="post-composer__error">{createPostError.message}</p>
+				)}
+
+				<div className="post-composer__actions">
+					<label className="post-composer__attach">
+						<ImagePlus size={18} />
+						Photo
+						<input
+							ref={fileInputRef}
+							type="file"
+							accept={UPLOAD_LIMITS.IMAGE_TYPES.join(",")}
+							onChange={(e) => setImage(e.target.files?.[0] || null)}
+							hidden
+						/>
+					</label>
+					<button
+						type="submit"
+						className="post-composer__submit"
+						disabled={!content.trim() || isCreatingPost}
+					>
+						{isCreatingPost ? "Posting..." : "Post"}
+					</button>
+				</div>
+			</form>
+
+			{posts.length > 0 ? (
+				<div className="posts-list">
+					{posts.map((post) => (
+						<PostCard key={post.id} post={post} />
+					))}
+				</div>
+			) : (
+				<p className="no-data">No posts yet. Be the first to share!</p>
+			)}
+		</main>
+	);
+}
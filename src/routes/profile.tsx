@@ -1,18 +1,28 @@
-import { createFileRoute } from "@tanstack/react-router";
+import { Link, createFileRoute } from "@tanstack/react-router";
 import {
 	AlertTriangle,
 	Building,
 	Clock,
 	Coins,
+	Flame,
 	Globe,
 	Loader,
 	MapPin,
 	MessageCircle,
+	Send,
 	Settings,
+	Shield,
 } from "lucide-react";
 
 import Avatar from "../components/Avatar";
-import { useAuth, useBusinesses, useServices } from "../hooks";
+import {
+	getManilaDateKey,
+	useAuth,
+	useBusinesses,
+	useCheckinHistory,
+	useProfileMutations,
+	useServices,
+} from "../hooks";
 
 // Import query functions from entity hooks
 import { businessesQueries } from "../hooks/entities/useBusinesses";
@@ -95,14 +105,31 @@ export const Route = createFileRoute("/profile")({
 	),
 });
 
+// Number of days shown in the check-in history
+const CHECKIN_HISTORY_DAYS = 30;
+
+/**
+ * Manila days of the check-in history, oldest first
+ */
+function getRecentDays(count: number): string[] {
+	const now = Date.now();
+	return Array.from({ length: count }, (_, index) =>
+		getManilaDateKey(new Date(now - (count - 1 - index) * 24 * 60 * 60 * 1000)),
+	);
+}
+
 function Profile() {
 	const { user, loading } = useAuth();
+	const { checkins, checkinDays, current, longest } = useCheckinHistory(
+		user?.id || "",
+	);
 
 	// Use optimized hooks for user data
 	const { services: userServices = [] } = useServices().byUser(user?.id || "");
 	const { insideBusinesses, outsideBusinesses } = useBusinesses().byUser(
 		user?.id || "",
 	);
+	const { updateProfile, isUpdating, updateError } = useProfileMutations();
 
 	// If still loading or no user, show loading state
 	if (loading || !user) {
@@ -135,9 +162,45 @@ function Profile() {
 							<Coins className="inline-icon" size={16} /> {user.coins} coins
 						</p>
 					)}
+					<Link to="/coins" className="profile-wallet-link">
+						<Send className="inline-icon" size={14} /> Send coins
+					</Link>
 				</div>
 			</div>
 
+			{/* Check-in Streak */}
+			<div className="profile-section">
+				<h2 className="section-title">
+					<Flame className="inline-icon" size={20} /> Check-in Streak
+				</h2>
+				<div className="checkin-stats">
+					<div className="checkin-stat">
+						<span className="checkin-stat-value">{current}</span>
+						<span className="checkin-stat-label">Current streak</span>
+					</div>
+					<div className="checkin-stat">
+						<span className="checkin-stat-value">{longest}</span>
+						<span className="checkin-stat-label">Longest streak</span>
+					</div>
+					<div className="checkin-stat">
+						<span className="checkin-stat-value">{checkins.length}</span>
+						<span className="checkin-stat-label">Check-ins</span>
+					</div>
+				</div>
+				<ul
+					className="checkin-history"
+					aria-label={`Check-ins of the last ${CHECKIN_HISTORY_DAYS} days`}
+				>
+					{getRecentDays(CHECKIN_HISTORY_DAYS).map((day) => (
+						<li
+							key={day}
+							className={`checkin-day ${checkinDays.has(day) ? "checked" : ""}`}
+							title={`${day}${checkinDays.has(day) ? " — checked in" : ""}`}
+						/>
+					))}
+				</ul>
+			</div>
+
 			{/* About Section */}
 			{user.description && (
 				<div className="profile-section">
@@ -322,6 +385,27 @@ function Profile() {
 					</div>
 				</div>
 			)}
+
+			{/* Privacy */}
+			<div className="profile-section">
+				<h2 className="section-title">
+					<Shield className="inline-icon" size={20} /> Privacy
+				</h2>
+				<label className="profile-privacy-option">
+					<input
+						type="checkbox"
+						checked={user.show_on_map ?? true}
+						onChange={(e) =>
+							updateProfile(user.id, { show_on_map: e.target.checked })
+						}
+						disabled={isUpdating}
+					/>
+					Show my name on my lot on the village map
+				</label>
+				{updateError && (
+					<p className="profile-privacy-error">{updateError.message}</p>
+				)}
+			</div>
 		</main>
 	);
 }
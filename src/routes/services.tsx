@@ -63,7 +63,11 @@ function Services() {
 			{services && services.length > 0 ? (
 				<div className="services-grid">
 					{services.map((service: any) => (
-						<div key={service.id} className="service-card">
+						<div
+							key={service.id}
+							id={`service-${service.id}`}
+							className="service-card"
+						>
 							<h3 className="service-title">
 								{service.description || "Service"}
 							</h3>
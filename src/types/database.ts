@@ -20,6 +20,9 @@ export interface Profile {
 	created_at: string;
 	deleted_at?: string;
 	last_daily_checkin?: string;
+	checkin_streak?: number;
+	// Listed as a resident of their lot on the village map
+	show_on_map: boolean;
 }
 
 export interface Location {
@@ -49,6 +52,7 @@ export interface BusinessInside {
 	photo_5_url?: string;
 	is_active: boolean;
 	is_featured: boolean;
+	featured_until?: string;
 	created_at: string;
 	updated_at: string;
 	location_id?: string;
@@ -80,6 +84,7 @@ export interface BusinessOutside {
 	photo_5_url?: string;
 	is_active: boolean;
 	is_featured: boolean;
+	featured_until?: string;
 	created_at: string;
 	updated_at: string;
 	barangay?: string;
@@ -135,6 +140,7 @@ export interface MarketplaceListing {
 	photo_5_url?: string;
 	is_active: boolean;
 	is_featured: boolean;
+	featured_until?: string;
 	status: "available" | "pending" | "sold" | "expired";
 	created_at: string;
 	updated_at: string;
@@ -156,6 +162,92 @@ export interface Thread {
 	title: string;
 	created_by?: string;
 	created_at: string;
+	is_pinned: boolean;
+	is_locked: boolean;
+	is_hidden: boolean;
+}
+
+export interface ForumPost {
+	id: string;
+	thread_id: string;
+	author_id: string;
+	content: string;
+	is_edited: boolean;
+	is_hidden: boolean;
+	created_at: string;
+	updated_at: string;
+}
+
+export type ForumReportReason =
+	| "spam"
+	| "harassment"
+	| "off_topic"
+	| "inappropriate"
+	| "other";
+
+export type ForumReportStatus = "pending" | "resolved" | "dismissed";
+
+export interface ForumReport {
+	id: string;
+	reporter_id: string;
+	thread_id?: string;
+	post_id?: string;
+	reason: ForumReportReason;
+	details?: string;
+	status: ForumReportStatus;
+	reviewed_by?: string;
+	reviewed_at?: string;
+	created_at: string;
+}
+
+export type ModerationActionType =
+	| "hide_thread"
+	| "unhide_thread"
+	| "lock_thread"
+	| "unlock_thread"
+	| "pin_thread"
+	| "unpin_thread"
+	| "hide_post"
+	| "unhide_post"
+	| "dismiss_report";
+
+export interface ModerationAction {
+	id: string;
+	admin_id: string;
+	action: ModerationActionType;
+	thread_id?: string;
+	post_id?: string;
+	report_id?: string;
+	note?: string;
+	created_at: string;
+}
+
+export interface ModerationResult {
+	action_id: string;
+	action: ModerationActionType;
+}
+
+export interface Post {
+	id: string;
+	author_id: string;
+	content: string;
+	image_url?: string;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface PostLike {
+	post_id: string;
+	user_id: string;
+	created_at: string;
+}
+
+export interface PostComment {
+	id: string;
+	post_id: string;
+	author_id: string;
+	content: string;
+	created_at: string;
 }
 
 export interface Chat {
@@ -167,6 +259,7 @@ export interface Chat {
 	updated_at: string;
 	is_edited: boolean;
 	reply_to?: string;
+	deleted_at?: string;
 }
 
 export interface PrivateMessage {
@@ -190,22 +283,25 @@ export interface Association {
 	id: string;
 	created_at: string;
 	name: string;
-	description: string;
+	description?: string;
 	category: string;
-	image_url: string;
-	website: string;
-	phone: string;
-	email: string;
-	address: string;
+	image_url?: string;
+	website?: string;
+	phone?: string;
+	email?: string;
+	address?: string;
 	is_active: boolean;
+	created_by?: string;
 }
 
+export type AssociationRole = "president" | "secretary" | "member";
+
 export interface AssociationMember {
 	id: string;
 	created_at: string;
 	association_id: string;
 	user_id: string;
-	role: string;
+	role: AssociationRole;
 	joined_at: string;
 }
 
@@ -213,60 +309,101 @@ export interface Event {
 	id: string;
 	created_at: string;
 	title: string;
-	description: string;
+	description?: string;
 	start_date: string;
-	end_date: string;
-	location: string;
-	image_url: string;
+	end_date?: string;
+	location?: string;
+	image_url?: string;
 	is_active: boolean;
-	association_id: string;
+	association_id?: string;
+	created_by?: string;
 }
 
+export type EventRsvpStatus = "going" | "interested" | "declined";
+
 export interface EventParticipant {
 	id: string;
 	created_at: string;
 	event_id: string;
 	user_id: string;
-	status: string;
+	status: EventRsvpStatus;
 }
 
+export type AnnouncementStatus = "draft" | "published" | "archived";
+
 export interface Announcement {
 	id: string;
 	created_at: string;
+	updated_at?: string;
 	title: string;
 	content: string;
-	is_active: boolean;
+	status: AnnouncementStatus;
+	publish_at: string;
+	is_urgent: boolean;
+	show_in_header: boolean;
 	association_id: string;
+	created_by?: string;
+}
+
+export interface AnnouncementRead {
+	id: string;
+	announcement_id: string;
+	user_id: string;
+	read_at: string;
 }
 
+export type DocumentCategory = "bylaws" | "minutes" | "forms" | "other";
+
 export interface Document {
 	id: string;
 	created_at: string;
+	updated_at?: string;
 	title: string;
 	description: string;
+	category: DocumentCategory;
+	// Storage path of the current version in the private documents bucket
 	file_url: string;
 	file_type: string;
 	file_size: number;
+	current_version: number;
+	is_public: boolean;
 	is_active: boolean;
 	association_id: string;
+	created_by?: string;
 }
 
+export interface DocumentVersion {
+	id: string;
+	created_at: string;
+	document_id: string;
+	version: number;
+	file_url: string;
+	file_type: string;
+	file_size: number;
+	notes?: string;
+	uploaded_by?: string;
+}
+
+export type VoteEligibility = "member" | "household";
+
 export interface Vote {
 	id: string;
 	created_at: string;
 	title: string;
-	description: string;
+	description?: string;
 	start_date: string;
 	end_date: string;
 	is_active: boolean;
 	association_id: string;
+	eligibility: VoteEligibility;
+	created_by?: string;
 }
 
 export interface VoteOption {
 	id: string;
 	created_at: string;
 	title: string;
-	description: string;
+	description?: string;
 	vote_id: string;
 }
 
@@ -276,6 +413,13 @@ export interface VoteResult {
 	vote_id: string;
 	user_id: string;
 	vote_option_id: string;
+	location_id?: string;
+}
+
+export interface VoteTally {
+	option_id: string;
+	title: string;
+	votes: number;
 }
 
 export interface BusinessInsideCategory {
@@ -346,6 +490,49 @@ export interface ConversationDeletion {
 	created_at: string;
 }
 
+export type CoinTransactionType =
+	| "welcome_bonus"
+	| "monthly_grant"
+	| "daily_checkin"
+	| "header_spend"
+	| "streak_bonus"
+	| "transfer_sent"
+	| "transfer_received"
+	| "boost_spend";
+
+export interface CoinTransaction {
+	id: string;
+	user_id: string;
+	// Positive for credits, negative for debits
+	amount: number;
+	type: CoinTransactionType;
+	description?: string;
+	reference_id?: string;
+	balance_after?: number;
+	created_at: string;
+}
+
+// Returned by the daily_checkin() RPC
+export interface DailyCheckinResult {
+	coins_awarded: number;
+	bonus: number;
+	streak: number;
+	checked_in_at: string;
+}
+
+// Returned by the boost_featured() RPC
+export interface BoostResult {
+	featured_until: string;
+	coins_spent: number;
+}
+
+// Returned by the transfer_coins() RPC
+export interface CoinTransferResult {
+	transfer_id: string;
+	amount: number;
+	sender_balance: number;
+}
+
 export interface MessagesHeader {
 	id: string;
 	user_id?: string;
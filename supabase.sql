@@ -1,6 +1,61 @@
 -- WARNING: This schema is for context only and is not meant to be run.
 -- Table order and constraints may not be valid for execution.
 
+CREATE TABLE public.announcement_reads (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  announcement_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  read_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT announcement_reads_pkey PRIMARY KEY (id),
+  CONSTRAINT announcement_reads_announcement_id_user_id_key UNIQUE (announcement_id, user_id),
+  CONSTRAINT announcement_reads_announcement_id_fkey FOREIGN KEY (announcement_id) REFERENCES public.announcements(id) ON DELETE CASCADE,
+  CONSTRAINT announcement_reads_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE
+);
+CREATE TABLE public.announcements (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
+  title text NOT NULL,
+  content text NOT NULL,
+  status text NOT NULL DEFAULT 'draft'::text CHECK (status = ANY (ARRAY['draft'::text, 'published'::text, 'archived'::text])),
+  publish_at timestamp with time zone NOT NULL DEFAULT now(),
+  is_urgent boolean NOT NULL DEFAULT false,
+  show_in_header boolean NOT NULL DEFAULT false,
+  association_id uuid NOT NULL,
+  created_by uuid,
+  CONSTRAINT announcements_pkey PRIMARY KEY (id),
+  CONSTRAINT announcements_header_check CHECK (NOT show_in_header OR is_urgent),
+  CONSTRAINT announcements_association_id_fkey FOREIGN KEY (association_id) REFERENCES public.associations(id) ON DELETE CASCADE,
+  CONSTRAINT announcements_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.association_members (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  association_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  role text NOT NULL DEFAULT 'member'::text CHECK (role = ANY (ARRAY['president'::text, 'secretary'::text, 'member'::text])),
+  joined_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT association_members_pkey PRIMARY KEY (id),
+  CONSTRAINT association_members_association_id_user_id_key UNIQUE (association_id, user_id),
+  CONSTRAINT association_members_association_id_fkey FOREIGN KEY (association_id) REFERENCES public.associations(id) ON DELETE CASCADE,
+  CONSTRAINT association_members_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.associations (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  name text NOT NULL,
+  description text,
+  category text NOT NULL DEFAULT 'community'::text,
+  image_url text,
+  website text,
+  phone text,
+  email text,
+  address text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid,
+  CONSTRAINT associations_pkey PRIMARY KEY (id),
+  CONSTRAINT associations_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id)
+);
 CREATE TABLE public.business_inside_categories (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   name text NOT NULL UNIQUE CHECK (char_length(name) >= 2 AND char_length(name) <= 100),
@@ -30,10 +85,23 @@ CREATE TABLE public.chat (
   updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
   is_edited boolean DEFAULT false,
   reply_to uuid,
+  deleted_at timestamp with time zone,
   CONSTRAINT chat_pkey PRIMARY KEY (id),
   CONSTRAINT messages_reply_to_fkey FOREIGN KEY (reply_to) REFERENCES public.chat(id),
   CONSTRAINT messages_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.coin_transactions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  amount integer NOT NULL CHECK (amount <> 0),
+  type text NOT NULL CHECK (type = ANY (ARRAY['welcome_bonus'::text, 'monthly_grant'::text, 'daily_checkin'::text, 'header_spend'::text, 'streak_bonus'::text, 'transfer_sent'::text, 'transfer_received'::text, 'boost_spend'::text])),
+  description text,
+  reference_id uuid,
+  balance_after integer,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT coin_transactions_pkey PRIMARY KEY (id),
+  CONSTRAINT coin_transactions_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
+);
 CREATE TABLE public.conversation_cleanup_notifications (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   user_id uuid NOT NULL,
@@ -57,6 +125,99 @@ CREATE TABLE public.conversation_deletions (
   CONSTRAINT conversation_deletions_participant_id_fkey FOREIGN KEY (participant_id) REFERENCES public.profiles(id),
   CONSTRAINT conversation_deletions_last_message_id_fkey FOREIGN KEY (last_message_id) REFERENCES public.private_messages(id)
 );
+CREATE TABLE public.document_versions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  document_id uuid NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  file_url text NOT NULL,
+  file_type text NOT NULL,
+  file_size bigint NOT NULL,
+  notes text,
+  uploaded_by uuid,
+  CONSTRAINT document_versions_pkey PRIMARY KEY (id),
+  CONSTRAINT document_versions_document_id_version_key UNIQUE (document_id, version),
+  CONSTRAINT document_versions_document_id_fkey FOREIGN KEY (document_id) REFERENCES public.documents(id) ON DELETE CASCADE,
+  CONSTRAINT document_versions_uploaded_by_fkey FOREIGN KEY (uploaded_by) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.documents (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
+  title text NOT NULL,
+  description text NOT NULL DEFAULT ''::text,
+  category text NOT NULL DEFAULT 'other'::text CHECK (category = ANY (ARRAY['bylaws'::text, 'minutes'::text, 'forms'::text, 'other'::text])),
+  file_url text NOT NULL,
+  file_type text NOT NULL,
+  file_size bigint NOT NULL,
+  current_version integer NOT NULL DEFAULT 1,
+  is_public boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  association_id uuid NOT NULL,
+  created_by uuid,
+  CONSTRAINT documents_pkey PRIMARY KEY (id),
+  CONSTRAINT documents_association_id_fkey FOREIGN KEY (association_id) REFERENCES public.associations(id) ON DELETE CASCADE,
+  CONSTRAINT documents_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.event_participants (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  event_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  status text NOT NULL CHECK (status = ANY (ARRAY['going'::text, 'interested'::text, 'declined'::text])),
+  CONSTRAINT event_participants_pkey PRIMARY KEY (id),
+  CONSTRAINT event_participants_event_id_user_id_key UNIQUE (event_id, user_id),
+  CONSTRAINT event_participants_event_id_fkey FOREIGN KEY (event_id) REFERENCES public.events(id) ON DELETE CASCADE,
+  CONSTRAINT event_participants_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.events (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  title text NOT NULL,
+  description text,
+  start_date timestamp with time zone NOT NULL,
+  end_date timestamp with time zone,
+  location text,
+  image_url text,
+  is_active boolean NOT NULL DEFAULT true,
+  association_id uuid,
+  created_by uuid,
+  CONSTRAINT events_pkey PRIMARY KEY (id),
+  CONSTRAINT events_dates_check CHECK (end_date IS NULL OR end_date >= start_date),
+  CONSTRAINT events_association_id_fkey FOREIGN KEY (association_id) REFERENCES public.associations(id) ON DELETE SET NULL,
+  CONSTRAINT events_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.forum_posts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  thread_id uuid NOT NULL,
+  author_id uuid NOT NULL,
+  content text NOT NULL CHECK (char_length(content) >= 1 AND char_length(content) <= 5000),
+  is_edited boolean NOT NULL DEFAULT false,
+  is_hidden boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT forum_posts_pkey PRIMARY KEY (id),
+  CONSTRAINT forum_posts_thread_id_fkey FOREIGN KEY (thread_id) REFERENCES public.threads(id) ON DELETE CASCADE,
+  CONSTRAINT forum_posts_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.forum_reports (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  reporter_id uuid NOT NULL,
+  thread_id uuid,
+  post_id uuid,
+  reason text NOT NULL CHECK (reason = ANY (ARRAY['spam'::text, 'harassment'::text, 'off_topic'::text, 'inappropriate'::text, 'other'::text])),
+  details text CHECK (char_length(details) <= 500),
+  status text NOT NULL DEFAULT 'pending'::text CHECK (status = ANY (ARRAY['pending'::text, 'resolved'::text, 'dismissed'::text])),
+  reviewed_by uuid,
+  reviewed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT forum_reports_pkey PRIMARY KEY (id),
+  CONSTRAINT forum_reports_target_check CHECK ((thread_id IS NULL) <> (post_id IS NULL)),
+  CONSTRAINT forum_reports_reporter_id_fkey FOREIGN KEY (reporter_id) REFERENCES public.profiles(id),
+  CONSTRAINT forum_reports_thread_id_fkey FOREIGN KEY (thread_id) REFERENCES public.threads(id) ON DELETE CASCADE,
+  CONSTRAINT forum_reports_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.forum_posts(id) ON DELETE CASCADE,
+  CONSTRAINT forum_reports_reviewed_by_fkey FOREIGN KEY (reviewed_by) REFERENCES public.profiles(id)
+);
 CREATE TABLE public.forums (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   title text NOT NULL,
@@ -111,6 +272,7 @@ CREATE TABLE public.marketplace_listings (
   photo_5_url text,
   is_active boolean DEFAULT true,
   is_featured boolean DEFAULT false,
+  featured_until timestamp with time zone,
   status text DEFAULT 'available'::text CHECK (status = ANY (ARRAY['available'::text, 'pending'::text, 'sold'::text, 'expired'::text])),
   created_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
   updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
@@ -129,6 +291,49 @@ CREATE TABLE public.messages_header (
   CONSTRAINT messages_header_pkey PRIMARY KEY (id),
   CONSTRAINT messages_header_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
 );
+CREATE TABLE public.moderation_actions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  admin_id uuid NOT NULL,
+  action text NOT NULL CHECK (action = ANY (ARRAY['hide_thread'::text, 'unhide_thread'::text, 'lock_thread'::text, 'unlock_thread'::text, 'pin_thread'::text, 'unpin_thread'::text, 'hide_post'::text, 'unhide_post'::text, 'dismiss_report'::text])),
+  thread_id uuid,
+  post_id uuid,
+  report_id uuid,
+  note text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT moderation_actions_pkey PRIMARY KEY (id),
+  CONSTRAINT moderation_actions_admin_id_fkey FOREIGN KEY (admin_id) REFERENCES public.profiles(id),
+  CONSTRAINT moderation_actions_thread_id_fkey FOREIGN KEY (thread_id) REFERENCES public.threads(id) ON DELETE SET NULL,
+  CONSTRAINT moderation_actions_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.forum_posts(id) ON DELETE SET NULL,
+  CONSTRAINT moderation_actions_report_id_fkey FOREIGN KEY (report_id) REFERENCES public.forum_reports(id) ON DELETE SET NULL
+);
+CREATE TABLE public.post_comments (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL,
+  author_id uuid NOT NULL,
+  content text NOT NULL CHECK (char_length(content) >= 1 AND char_length(content) <= 1000),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT post_comments_pkey PRIMARY KEY (id),
+  CONSTRAINT post_comments_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE,
+  CONSTRAINT post_comments_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.post_likes (
+  post_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT post_likes_pkey PRIMARY KEY (post_id, user_id),
+  CONSTRAINT post_likes_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE,
+  CONSTRAINT post_likes_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id)
+);
+CREATE TABLE public.posts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  author_id uuid NOT NULL,
+  content text NOT NULL CHECK (char_length(content) >= 1 AND char_length(content) <= 2000),
+  image_url text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT posts_pkey PRIMARY KEY (id),
+  CONSTRAINT posts_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.profiles(id)
+);
 CREATE TABLE public.private_messages (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   sender_id uuid NOT NULL,
@@ -180,6 +385,8 @@ CREATE TABLE public.profiles (
   created_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
   deleted_at timestamp with time zone,
   last_daily_checkin timestamp with time zone,
+  checkin_streak integer NOT NULL DEFAULT 0,
+  show_on_map boolean NOT NULL DEFAULT true,
   CONSTRAINT profiles_pkey PRIMARY KEY (id),
   CONSTRAINT profiles_user_id_fkey FOREIGN KEY (id) REFERENCES auth.users(id)
 );
@@ -207,6 +414,9 @@ CREATE TABLE public.threads (
   title text NOT NULL,
   created_by uuid,
   created_at timestamp with time zone DEFAULT now(),
+  is_pinned boolean NOT NULL DEFAULT false,
+  is_locked boolean NOT NULL DEFAULT false,
+  is_hidden boolean NOT NULL DEFAULT false,
   CONSTRAINT threads_pkey PRIMARY KEY (id),
   CONSTRAINT threads_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id),
   CONSTRAINT threads_forum_id_fkey FOREIGN KEY (forum_id) REFERENCES public.forums(id)
@@ -224,6 +434,7 @@ CREATE TABLE public.user_business_inside (
   photo_3_url text,
   is_active boolean DEFAULT true,
   is_featured boolean DEFAULT false,
+  featured_until timestamp with time zone,
   created_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
   updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
   location_id uuid,
@@ -258,6 +469,7 @@ CREATE TABLE public.user_business_outside (
   photo_3_url text,
   is_active boolean DEFAULT true,
   is_featured boolean DEFAULT false,
+  featured_until timestamp with time zone,
   created_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
   updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
   barangay text,
@@ -296,4 +508,44 @@ CREATE TABLE public.user_services (
   CONSTRAINT user_services_location_id_fkey FOREIGN KEY (location_id) REFERENCES public.locations(id),
   CONSTRAINT user_services_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.profiles(id),
   CONSTRAINT user_services_category_id_fkey FOREIGN KEY (category_id) REFERENCES public.service_categories(id)
-);
\ No newline at end of file
+);
+CREATE TABLE public.vote_options (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  title text NOT NULL,
+  description text,
+  vote_id uuid NOT NULL,
+  CONSTRAINT vote_options_pkey PRIMARY KEY (id),
+  CONSTRAINT vote_options_vote_id_fkey FOREIGN KEY (vote_id) REFERENCES public.votes(id) ON DELETE CASCADE
+);
+CREATE TABLE public.vote_results (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  vote_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  vote_option_id uuid NOT NULL,
+  location_id uuid,
+  CONSTRAINT vote_results_pkey PRIMARY KEY (id),
+  CONSTRAINT vote_results_vote_id_user_id_key UNIQUE (vote_id, user_id),
+  CONSTRAINT vote_results_vote_id_location_id_key UNIQUE (vote_id, location_id),
+  CONSTRAINT vote_results_vote_id_fkey FOREIGN KEY (vote_id) REFERENCES public.votes(id) ON DELETE CASCADE,
+  CONSTRAINT vote_results_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id),
+  CONSTRAINT vote_results_vote_option_id_fkey FOREIGN KEY (vote_option_id) REFERENCES public.vote_options(id) ON DELETE CASCADE,
+  CONSTRAINT vote_results_location_id_fkey FOREIGN KEY (location_id) REFERENCES public.locations(id)
+);
+CREATE TABLE public.votes (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  title text NOT NULL,
+  description text,
+  start_date timestamp with time zone NOT NULL,
+  end_date timestamp with time zone NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  association_id uuid NOT NULL,
+  eligibility text NOT NULL DEFAULT 'member'::text CHECK (eligibility = ANY (ARRAY['member'::text, 'household'::text])),
+  created_by uuid,
+  CONSTRAINT votes_pkey PRIMARY KEY (id),
+  CONSTRAINT votes_dates_check CHECK (end_date > start_date),
+  CONSTRAINT votes_association_id_fkey FOREIGN KEY (association_id) REFERENCES public.associations(id) ON DELETE CASCADE,
+  CONSTRAINT votes_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id)
+);